@@ -11,11 +11,38 @@ export type HttpAdapterContext = {
   /** Events to send. */
   events: Event[];
 
+  /** Id of the batch, the same across retries. Also sent as the `Idempotency-Key` header. */
+  batchId: string;
+
+  /** UNIX timestamp in milliseconds when the batch is sent, by the device clock. */
+  sentAt: number;
+
+  /** Retry attempt of the send, starting at `0`. */
+  attempt: number;
+
   /** Headers to include in the request. */
   headers: Record<string, string>;
 
   /** Header name used for the API key. */
   apiKeyHeader: string;
+
+  /**
+   * Request body: the batch encoded as advertised by the `Content-Type` header,
+   * compressed when `headers` carry a `Content-Encoding`.
+   * Adapters should send it as-is rather than serializing `events`.
+   */
+  body: string | Uint8Array<ArrayBuffer>;
+};
+
+/**
+ * Context passed to `HttpAdapter.get()` implementations.
+ */
+export type HttpGetContext = {
+  /** The URL to fetch. */
+  url: string;
+
+  /** Headers to include in the request. */
+  headers: Record<string, string>;
 };
 
 /**
@@ -31,4 +58,13 @@ export interface HttpAdapter {
    * @returns Promise resolving to HTTP response
    */
   send(context: HttpAdapterContext): Promise<HttpResponse>;
+
+  /**
+   * Fetch a JSON document with a GET request.
+   * Optional: used to fetch the remote configuration.
+   *
+   * @param context The URL and headers of the request
+   * @returns Promise resolving to HTTP response, with the parsed JSON as `data`
+   */
+  get?(context: HttpGetContext): Promise<HttpResponse>;
 }
@@ -52,4 +52,22 @@ export interface StorageAdapter {
    * Close the storage adapter and release resources.
    */
   close(): Promise<void>;
+
+  /**
+   * Persist a string value under a key, alongside the events.
+   * Optional: used to cache the remote configuration.
+   *
+   * @param key The item key
+   * @param value The value to save
+   */
+  saveItem?(key: string, value: string): Promise<void>;
+
+  /**
+   * Load a string value saved with `saveItem()`.
+   * Optional: used to cache the remote configuration.
+   *
+   * @param key The item key
+   * @returns Promise resolving to the value, or null if none is saved
+   */
+  loadItem?(key: string): Promise<string | null>;
 }
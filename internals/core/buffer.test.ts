@@ -51,10 +51,10 @@ describe("Buffer", () => {
     it("should evict oldest element when at capacity", () => {
       const buffer = new Buffer<number>(3);
 
-      buffer.enqueue(1);
-      buffer.enqueue(2);
-      buffer.enqueue(3);
-      buffer.enqueue(4);
+      expect(buffer.enqueue(1)).toBeNull();
+      expect(buffer.enqueue(2)).toBeNull();
+      expect(buffer.enqueue(3)).toBeNull();
+      expect(buffer.enqueue(4)).toBe(1);
 
       expect(buffer.size()).toBe(3);
       expect(buffer.toArray()).toEqual([2, 3, 4]);
@@ -30,17 +30,24 @@ export class Buffer<T> {
    * If the buffer is full, the oldest element is evicted.
    *
    * @param value The value to enqueue
+   * @returns The evicted value, or null if nothing was evicted
    */
-  public enqueue(value: T): void {
+  public enqueue(value: T): T | null {
     const tail = (this.#head + this.#length) % this.#capacity;
 
-    this.#items[tail] = value;
-
     if (this.#length === this.#capacity) {
+      const evicted = this.#items[tail] as T;
+
+      this.#items[tail] = value;
       this.#head = (this.#head + 1) % this.#capacity;
-    } else {
-      this.#length++;
+
+      return evicted;
     }
+
+    this.#items[tail] = value;
+    this.#length++;
+
+    return null;
   }
 
   /**
@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  assertCircuitBreakerOptions,
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+} from "./circuit-breaker.ts";
+
+describe("assertCircuitBreakerOptions", () => {
+  it("should accept well-formed options", () => {
+    expect(() =>
+      assertCircuitBreakerOptions({ failureThreshold: 3, cooldown: 1000 }),
+    ).not.toThrow();
+    expect(() => assertCircuitBreakerOptions({})).not.toThrow();
+  });
+
+  it.each<[CircuitBreakerOptions, string]>([
+    [
+      { failureThreshold: 0 },
+      "`circuitBreaker.failureThreshold` must be a positive number.",
+    ],
+    [
+      { cooldown: "1" as unknown as number },
+      "`circuitBreaker.cooldown` must be a positive number.",
+    ],
+  ])("should reject %j", (options, message) => {
+    expect(() => assertCircuitBreakerOptions(options)).toThrow(message);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const createBreaker = (options: CircuitBreakerOptions = {}) => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker(options, onStateChange);
+
+    return { breaker, onStateChange };
+  };
+
+  it("should open after the failure threshold is reached", () => {
+    const { breaker, onStateChange } = createBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure(1000);
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.tryAcquire(1000)).toBe(true);
+
+    breaker.recordFailure(1000);
+
+    expect(breaker.getState()).toBe("open");
+    expect(onStateChange).toHaveBeenCalledExactlyOnceWith("open", "closed");
+  });
+
+  it("should only count consecutive failures", () => {
+    const { breaker } = createBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("should default to 5 failures and a 30 second cool-down", () => {
+    const { breaker } = createBreaker();
+
+    for (let i = 0; i < 4; i++) breaker.recordFailure(0);
+
+    expect(breaker.getState()).toBe("closed");
+
+    breaker.recordFailure(0);
+
+    expect(breaker.getRemainingCooldown(10000)).toBe(20000);
+    expect(breaker.canSend(29999)).toBe(false);
+    expect(breaker.canSend(30000)).toBe(true);
+  });
+
+  it("should admit a single probe once the cool-down is over", () => {
+    const { breaker, onStateChange } = createBreaker({
+      failureThreshold: 1,
+      cooldown: 1000,
+    });
+
+    breaker.recordFailure(0);
+
+    expect(breaker.tryAcquire(999)).toBe(false);
+    expect(breaker.getRemainingCooldown(999)).toBe(1);
+    expect(breaker.tryAcquire(1000)).toBe(true);
+    expect(breaker.getState()).toBe("half_open");
+    expect(breaker.getRemainingCooldown(1000)).toBe(0);
+    expect(onStateChange).toHaveBeenLastCalledWith("half_open", "open");
+    expect(breaker.canSend(1000)).toBe(false);
+    expect(breaker.tryAcquire(1000)).toBe(false);
+  });
+
+  it("should close when the probe succeeds", () => {
+    const { breaker, onStateChange } = createBreaker({
+      failureThreshold: 1,
+      cooldown: 1000,
+    });
+
+    breaker.recordFailure(0);
+    breaker.tryAcquire(1000);
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe("closed");
+    expect(onStateChange).toHaveBeenLastCalledWith("closed", "half_open");
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it("should reopen when the probe fails", () => {
+    const { breaker, onStateChange } = createBreaker({
+      failureThreshold: 3,
+      cooldown: 1000,
+    });
+
+    for (let i = 0; i < 3; i++) breaker.recordFailure(0);
+
+    breaker.tryAcquire(1000);
+    breaker.recordFailure(1500);
+
+    expect(breaker.getState()).toBe("open");
+    expect(onStateChange).toHaveBeenLastCalledWith("open", "half_open");
+    expect(breaker.getRemainingCooldown(1500)).toBe(1000);
+  });
+
+  it("should not notify for successes while closed", () => {
+    const { breaker, onStateChange } = createBreaker();
+
+    breaker.recordSuccess();
+
+    expect(onStateChange).not.toHaveBeenCalled();
+  });
+
+  it("should close silently on reset", () => {
+    const { breaker, onStateChange } = createBreaker({ failureThreshold: 1 });
+
+    breaker.recordFailure();
+    breaker.reset();
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(onStateChange).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Options of the circuit breaker around the HTTP transport.
+ */
+export type CircuitBreakerOptions = {
+  /**
+   * Number of consecutive failed sends (network errors, 429 and 5xx
+   * responses) that opens the circuit (default: `5`).
+   */
+  failureThreshold?: number;
+  /**
+   * Time in milliseconds the circuit stays open before a probe batch is sent
+   * (default: `30000`).
+   */
+  cooldown?: number;
+};
+
+/**
+ * State of the circuit breaker.
+ * - `"closed"`: batches are sent normally.
+ * - `"open"`: sends are skipped and events stay buffered until the cool-down ends.
+ * - `"half_open"`: a single probe batch is sent to decide whether to close
+ *   or reopen the circuit.
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Check that circuit breaker options are well-formed.
+ *
+ * @param options The options to check
+ * @throws {Error} When the threshold or cool-down isn't a positive number
+ */
+export const assertCircuitBreakerOptions = (
+  options: CircuitBreakerOptions,
+): void => {
+  for (const key of ["failureThreshold", "cooldown"] as const) {
+    const value = options?.[key];
+
+    if (value !== undefined && (typeof value !== "number" || !(value > 0))) {
+      throw new Error(`\`circuitBreaker.${key}\` must be a positive number.`);
+    }
+  }
+};
+
+/**
+ * Tracks consecutive send failures and stops sending while the endpoint looks
+ * unavailable, letting a single probe through once the cool-down is over.
+ */
+export class CircuitBreaker {
+  readonly #failureThreshold: number;
+  readonly #cooldown: number;
+  readonly #onStateChange: (
+    state: CircuitState,
+    previous: CircuitState,
+  ) => void;
+
+  #state: CircuitState = "closed";
+  #failures = 0;
+  #openedAt = 0;
+  #probing = false;
+
+  /**
+   * Create a new CircuitBreaker instance.
+   *
+   * @param options The circuit breaker options
+   * @param onStateChange Called on every state transition
+   */
+  constructor(
+    options: CircuitBreakerOptions,
+    onStateChange: (state: CircuitState, previous: CircuitState) => void,
+  ) {
+    this.#failureThreshold = options.failureThreshold ?? 5;
+    this.#cooldown = options.cooldown ?? 30000;
+    this.#onStateChange = onStateChange;
+  }
+
+  /**
+   * Get the current state.
+   *
+   * @returns The state
+   */
+  public getState(): CircuitState {
+    return this.#state;
+  }
+
+  /**
+   * Get the time left before the open circuit lets a probe through.
+   *
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns Milliseconds until the cool-down ends, `0` unless open
+   */
+  public getRemainingCooldown(now: number = Date.now()): number {
+    if (this.#state !== "open") return 0;
+
+    return Math.max(0, this.#openedAt + this.#cooldown - now);
+  }
+
+  /**
+   * Check whether a send would be allowed, without taking the probe slot.
+   *
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns Whether `tryAcquire()` would admit a send
+   */
+  public canSend(now: number = Date.now()): boolean {
+    if (this.#state === "closed") return true;
+
+    if (this.#state === "half_open") return !this.#probing;
+
+    return this.getRemainingCooldown(now) === 0;
+  }
+
+  /**
+   * Try to admit a send. Once the cool-down is over, the open circuit turns
+   * half-open and admits a single probe until its outcome is recorded.
+   *
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns Whether the send may go through
+   */
+  public tryAcquire(now: number = Date.now()): boolean {
+    if (!this.canSend(now)) return false;
+
+    if (this.#state === "open") this.#transition("half_open");
+
+    if (this.#state === "half_open") this.#probing = true;
+
+    return true;
+  }
+
+  /**
+   * Record a send that reached the endpoint. Closes the circuit.
+   */
+  public recordSuccess(): void {
+    this.#failures = 0;
+    this.#probing = false;
+
+    if (this.#state !== "closed") this.#transition("closed");
+  }
+
+  /**
+   * Record a failed send. Opens the circuit when the probe fails or the
+   * failure threshold is reached.
+   *
+   * @param now Current UNIX timestamp in milliseconds
+   */
+  public recordFailure(now: number = Date.now()): void {
+    this.#failures++;
+    this.#probing = false;
+
+    if (
+      this.#state === "half_open" ||
+      (this.#state === "closed" && this.#failures >= this.#failureThreshold)
+    ) {
+      this.#openedAt = now;
+      this.#transition("open");
+    }
+  }
+
+  /**
+   * Close the circuit and forget past failures, without notifying.
+   */
+  public reset(): void {
+    this.#state = "closed";
+    this.#failures = 0;
+    this.#probing = false;
+  }
+
+  #transition(state: CircuitState): void {
+    const previous = this.#state;
+
+    this.#state = state;
+    this.#onStateChange(state, previous);
+  }
+}
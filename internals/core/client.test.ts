@@ -1,7 +1,22 @@
+import { inflateSync } from "node:zlib";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import type { HttpAdapter } from "./adapters/http-adapter.ts";
+import type {
+  HttpAdapter,
+  HttpAdapterContext,
+} from "./adapters/http-adapter.ts";
 import type { StorageAdapter } from "./adapters/storage-adapter.ts";
 import { Client, type ClientConfig, type EventSampler } from "./client.ts";
+import type { DeadLetterQueueOptions } from "./dead-letter-queue.ts";
+import type { DedupSnapshot } from "./dedup-window.ts";
+import { EventDeliveryError } from "./delivery-tracker.ts";
+import {
+  PREDEFINED_SCHEMA_VERSION,
+  type ClickedPayload,
+} from "./event-specs.ts";
+import { NoOpLogger } from "./logger.ts";
+import type { Middleware } from "./middleware.ts";
+import { PayloadValidationError } from "./payload-validator.ts";
+import { defineEvent } from "./tracking-plan.ts";
 import type { Event, Platform, SdkInfo } from "./types.ts";
 
 type TestMetadata = {
@@ -521,6 +536,2368 @@ describe("Client", () => {
     });
   });
 
+  describe("sampling", () => {
+    it("should throw error if sampling options are malformed", () => {
+      expect(() => {
+        createTestClient({
+          config: { sampling: { rate: 2 } },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow("`sampling.rate` must be a number between 0 and 1.");
+    });
+
+    it("should not attach sampleRate without sampling policies", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event");
+
+      const [event] = vi.mocked(storageAdapter.save).mock.calls[0]![0];
+
+      expect(event).not.toHaveProperty("sampleRate");
+    });
+
+    it("should attach the rate of kept events", async () => {
+      const sampler = vi.fn().mockReturnValue(true);
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: {
+          sampling: { events: { test_event: 1 }, categories: { cart: 1 } },
+          eventSampler: sampler,
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event");
+      await client.events.cartViewed({ cart: { cartId: "c1", products: [] } });
+      await client.clicked({ elementId: "btn" });
+
+      const { calls } = vi.mocked(storageAdapter.save).mock;
+      const saved = calls[calls.length - 1]![0];
+
+      expect(saved.map(event => event.sampleRate)).toEqual([1, 1, 1]);
+      expect(sampler).toHaveBeenCalledWith(
+        expect.objectContaining({ sampleRate: 1 }),
+      );
+    });
+
+    it("should drop sampled out events", async () => {
+      const onDrop = vi.fn();
+      const sampler = vi.fn().mockReturnValue(true);
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: {
+          sampling: { rate: 1, categories: { cart: 0 } },
+          eventSampler: sampler,
+          hooks: { onDrop },
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.events.cartViewed({ cart: { cartId: "c1", products: [] } });
+
+      expect(storageAdapter.save).not.toHaveBeenCalled();
+      expect(sampler).not.toHaveBeenCalled();
+      expect(onDrop).toHaveBeenCalledExactlyOnceWith({
+        eventCount: 1,
+        reason: "sampled",
+      });
+    });
+
+    it("should sample all events of an identity consistently", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: {
+          sampling: { rate: 0.5, hashOn: "userId" },
+          batchOptions: { size: 100 },
+          maxBufferSize: 100,
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      for (let i = 0; i < 20; i++) {
+        const context = { userId: `user-${i}` };
+
+        await client.track("test_event", { key: "a" }, undefined, context);
+        await client.track("simple_event", {}, undefined, context);
+      }
+
+      const { calls } = vi.mocked(storageAdapter.save).mock;
+      const saved = calls[calls.length - 1]![0];
+
+      const users = (name: string) =>
+        saved.filter(event => event.name === name).map(event => event.userId);
+
+      expect(saved.length).toBeGreaterThan(0);
+      expect(saved.length).toBeLessThan(40);
+      expect(users("test_event")).toEqual(users("simple_event"));
+    });
+  });
+
+  describe("trackAndConfirm", () => {
+    const createConfirmClient = (
+      config?: Partial<ClientConfig>,
+      httpAdapter: HttpAdapter = createMockHttpAdapter(),
+    ) =>
+      createTestClient({
+        config: {
+          batchOptions: { size: 1 },
+          ...config,
+        },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+    it("should resolve once the event is acknowledged", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createConfirmClient({}, httpAdapter);
+
+      await expect(
+        client.trackAndConfirm("test_event", { key: "value" }),
+      ).resolves.toBeUndefined();
+      expect(httpAdapter.send).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stay pending until the batch is sent", async () => {
+      const client = createConfirmClient({ batchOptions: { size: 10 } });
+
+      let delivered = false;
+
+      const delivery = client
+        .trackAndConfirm("test_event", { key: "value" })
+        .then(() => {
+          delivered = true;
+        });
+
+      await new Promise(r => {
+        setTimeout(r, 0);
+      });
+
+      expect(delivered).toBe(false);
+
+      await client.flush();
+      await delivery;
+
+      expect(delivered).toBe(true);
+    });
+
+    it("should reject when the server drops the event", async () => {
+      const httpAdapter = createMockHttpAdapter();
+
+      vi.mocked(httpAdapter.send).mockResolvedValue({ status: 400 });
+
+      const client = createConfirmClient({}, httpAdapter);
+      const error = await client
+        .trackAndConfirm("test_event", { key: "value" })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(EventDeliveryError);
+      expect(error).toMatchObject({
+        reason: "client_error",
+        eventId: expect.any(String) as string,
+      });
+    });
+
+    it("should reject sampled out events", async () => {
+      const client = createConfirmClient({ eventSampler: () => false });
+
+      await expect(
+        client.trackAndConfirm("test_event", { key: "value" }),
+      ).rejects.toMatchObject({ reason: "sampled" });
+    });
+
+    it("should reject events dropped by a middleware", async () => {
+      const client = createConfirmClient();
+
+      client.use(() => ({ drop: "internal" }));
+
+      await expect(
+        client.trackAndConfirm("test_event", { key: "value" }),
+      ).rejects.toMatchObject({ reason: "middleware" });
+    });
+
+    it("should resolve once every event fanned out by a middleware is acknowledged", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createConfirmClient({}, httpAdapter);
+
+      client.use(event => [event, { ...event, eventId: "copy" }]);
+
+      await expect(
+        client.trackAndConfirm("test_event", { key: "value" }),
+      ).resolves.toBeUndefined();
+      expect(httpAdapter.send).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject when consent is denied", async () => {
+      const client = createConfirmClient({ defaultConsent: "denied" });
+
+      await expect(
+        client.trackAndConfirm("test_event", { key: "value" }),
+      ).rejects.toMatchObject({ reason: "no_consent", eventId: null });
+    });
+
+    it("should reject when consent is denied while middlewares run", async () => {
+      const client = createConfirmClient();
+
+      client.use(async event => {
+        await client.setConsent({ analytics: false });
+
+        return event;
+      });
+
+      await expect(
+        client.trackAndConfirm("test_event", { key: "value" }),
+      ).rejects.toMatchObject({ reason: "no_consent" });
+    });
+
+    it("should resolve pending events once consent is granted", async () => {
+      const client = createConfirmClient({ defaultConsent: "pending" });
+      const delivery = client.trackAndConfirm("test_event", { key: "value" });
+
+      await new Promise(r => {
+        setTimeout(r, 0);
+      });
+      await client.setConsent({ analytics: true });
+
+      await expect(delivery).resolves.toBeUndefined();
+    });
+
+    it("should reject pending events purged by a consent denial", async () => {
+      const client = createConfirmClient({ defaultConsent: "pending" });
+      const delivery = client.trackAndConfirm("test_event", { key: "value" });
+
+      await new Promise(r => {
+        setTimeout(r, 0);
+      });
+      await client.setConsent({ analytics: false });
+
+      await expect(delivery).rejects.toMatchObject({ reason: "no_consent" });
+    });
+
+    it("should reject pending events evicted from a full queue", async () => {
+      const client = createConfirmClient({
+        defaultConsent: "pending",
+        maxBufferSize: 1,
+      });
+
+      const delivery = client.trackAndConfirm("test_event", { key: "value" });
+
+      await new Promise(r => {
+        setTimeout(r, 0);
+      });
+      void client.trackAndConfirm("test_event", { key: "value" });
+
+      await expect(delivery).rejects.toMatchObject({ reason: "evicted" });
+    });
+
+    it("should reject when the client is disposed before delivery", async () => {
+      const client = createConfirmClient({ defaultConsent: "pending" });
+      const delivery = client.trackAndConfirm("test_event", { key: "value" });
+
+      await new Promise(r => {
+        setTimeout(r, 0);
+      });
+      client.dispose();
+
+      await expect(delivery).rejects.toMatchObject({ reason: "disposed" });
+    });
+
+    it("should reject when the client is already disposed", async () => {
+      const client = createConfirmClient();
+
+      client.dispose();
+
+      await expect(
+        client.trackAndConfirm("test_event", { key: "value" }),
+      ).rejects.toMatchObject({ reason: "disposed", eventId: null });
+    });
+  });
+
+  describe("payload validation", () => {
+    it("should throw error if payloadValidation is invalid", () => {
+      expect(() => {
+        createTestClient({
+          config: { payloadValidation: "loose" as "drop" },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow(
+        '`payloadValidation` must be one of "off", "drop" or "strict".',
+      );
+    });
+
+    it("should not validate payloads by default", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      // @ts-expect-error Testing runtime validation
+      await client.clicked({});
+
+      expect(storageAdapter.save).toHaveBeenCalled();
+    });
+
+    it("should log and drop invalid events in drop mode", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const onDrop = vi.fn();
+      const loggerAdapter = new NoOpLogger();
+      const warnSpy = vi.spyOn(loggerAdapter, "warn");
+      const client = createTestClient({
+        config: { payloadValidation: "drop", hooks: { onDrop }, loggerAdapter },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      // @ts-expect-error Testing runtime validation
+      await client.clicked({ elementId: 42 });
+
+      expect(storageAdapter.save).not.toHaveBeenCalled();
+      expect(onDrop).toHaveBeenCalledWith({ eventCount: 1, reason: "invalid" });
+      expect(warnSpy).toHaveBeenCalledWith(
+        "Invalid event payload, dropping event",
+        {
+          name: "clicked",
+          issues: [{ path: "payload.elementId", message: "must be a string" }],
+        },
+      );
+    });
+
+    it("should track valid events in drop mode", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { payloadValidation: "drop" },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.clicked({ elementId: "btn" });
+
+      expect(storageAdapter.save).toHaveBeenCalled();
+    });
+
+    it("should not validate custom events", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { payloadValidation: "strict" },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("simple_event");
+
+      expect(storageAdapter.save).toHaveBeenCalled();
+    });
+
+    it("should throw on invalid events in strict mode", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { payloadValidation: "strict" },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      const error = await client
+        .clicked(undefined as unknown as ClickedPayload)
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(PayloadValidationError);
+      expect(error).toMatchObject({
+        eventName: "clicked",
+        issues: [{ path: "payload", message: "must be an object" }],
+      });
+      expect(storageAdapter.save).not.toHaveBeenCalled();
+    });
+
+    it("should reject trackAndConfirm for invalid events in drop mode", async () => {
+      const client = createTestClient({
+        config: { payloadValidation: "drop" },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await expect(
+        // @ts-expect-error Testing runtime validation
+        client.trackAndConfirm("clicked", {}),
+      ).rejects.toMatchObject({ reason: "invalid" });
+    });
+  });
+
+  describe("redaction", () => {
+    it("should throw error if redaction rules are malformed", () => {
+      expect(() => {
+        createTestClient({
+          config: { redaction: [{ action: "mask" }] },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow("`redaction[0]` must have `paths` or `detectors`.");
+    });
+
+    it("should redact events before they are persisted", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: {
+          redaction: [
+            { paths: ["payload.traits.email"], action: "hash" },
+            { detectors: ["email"], action: "mask" },
+          ],
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      const traits = { email: "a@b.co" };
+
+      client.setMetadata("sessionId", "x@y.io");
+      await client.identify("user-1", traits);
+
+      expect(storageAdapter.save).toHaveBeenCalledWith([
+        expect.objectContaining({
+          payload: {
+            userId: "user-1",
+            traits: {
+              email:
+                "80305c9bb1bb2480e03894350e0a8a366dcbdeb302e69e0817aa0743abd77054",
+            },
+          },
+          metadata: { sessionId: "******" },
+        }),
+      ]);
+      expect(traits).toEqual({ email: "a@b.co" });
+    });
+
+    it("should redact events added by middlewares and held for consent", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        config: {
+          defaultConsent: "pending",
+          redaction: [{ paths: ["payload.key"], action: "drop" }],
+        },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      client.use(event => [event, { ...event, eventId: "derived" }]);
+      await client.track("test_event", { key: "secret" });
+      await client.setConsent({ analytics: true });
+      await client.flush();
+
+      const { events } = vi.mocked(httpAdapter.send).mock.calls[0]![0];
+
+      expect(events.map((event: Event) => event.payload)).toEqual([{}, {}]);
+    });
+
+    it("should redact the metadata of auto-telemetry reports", async () => {
+      const fetchSpy = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(new Response());
+
+      const client = createTestClient({
+        config: {
+          redaction: [{ detectors: ["email"], action: "mask" }],
+          telemetryOptions: { endpoint: "https://api.test.com/telemetry" },
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      client.setMetadata("sessionId", "x@y.io");
+      await client.track("test_event", { key: "a" });
+
+      await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalled());
+
+      const [, init] = fetchSpy.mock.calls[0]!;
+
+      expect(JSON.parse(init!.body as string)).toMatchObject({
+        metadata: { sessionId: "******" },
+      });
+
+      client.dispose();
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe("deduplication", () => {
+    it.each([
+      [{ window: 0 }, "`dedupOptions.window` must be a positive number."],
+      [{ window: 1000, key: "name" }, "`dedupOptions.key` must be a function."],
+      [
+        { window: 1000, maxKeys: 0 },
+        "`dedupOptions.maxKeys` must be a positive number.",
+      ],
+    ])("should reject invalid dedupOptions %j", (dedupOptions, message) => {
+      expect(() => {
+        createTestClient({
+          config: {
+            dedupOptions: dedupOptions as ClientConfig["dedupOptions"],
+          },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow(message);
+    });
+
+    it("should not deduplicate events by default", async () => {
+      const onDrop = vi.fn();
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { hooks: { onDrop } },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.clicked({ elementId: "btn" });
+      await client.clicked({ elementId: "btn" });
+
+      expect(onDrop).not.toHaveBeenCalled();
+      expect(storageAdapter.save).toHaveBeenCalledTimes(2);
+    });
+
+    it("should drop repeats of the same name and payload within the window", async () => {
+      vi.useFakeTimers();
+
+      const onDrop = vi.fn();
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        config: { dedupOptions: { window: 1000 }, hooks: { onDrop } },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.clicked({ elementId: "btn" });
+      await client.clicked({ elementId: "btn" });
+      await client.clicked({ elementId: "other" });
+      vi.advanceTimersByTime(1000);
+      await client.clicked({ elementId: "btn" });
+      await client.flush();
+
+      const { events } = vi.mocked(httpAdapter.send).mock.calls[0]![0];
+
+      expect(events).toHaveLength(3);
+      expect(onDrop).toHaveBeenCalledExactlyOnceWith({
+        eventCount: 1,
+        reason: "duplicate",
+      });
+
+      vi.useRealTimers();
+    });
+
+    it("should key events by the per-call idempotency key", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { dedupOptions: { window: 1000 } },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event", { key: "a" }, undefined, {
+        idempotencyKey: "op-1",
+      });
+      await client.track("test_event", { key: "b" }, undefined, {
+        idempotencyKey: "op-1",
+      });
+      await client.track("test_event", { key: "a" }, undefined, {
+        idempotencyKey: "op-2",
+      });
+
+      expect(storageAdapter.save).toHaveBeenCalledTimes(2);
+    });
+
+    it("should use the configured key function", async () => {
+      const key = vi.fn((name: string) => name);
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { dedupOptions: { window: 1000, key } },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event", { key: "a" });
+      await client.track("test_event", { key: "b" });
+      await client.track("simple_event");
+
+      expect(key).toHaveBeenCalledWith("test_event", { key: "a" });
+      expect(key).toHaveBeenCalledWith("simple_event", null);
+      expect(storageAdapter.save).toHaveBeenCalledTimes(2);
+    });
+
+    it("should scope keys by the identity of each event", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { dedupOptions: { window: 1000 } },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event", { key: "a" }, undefined, {
+        userId: "alice",
+      });
+      await client.track("test_event", { key: "a" }, undefined, {
+        userId: "bob",
+      });
+      await client.track("test_event", { key: "a" }, undefined, {
+        userId: "bob",
+      });
+      await client.track("test_event", { key: "a" }, undefined, {
+        anonymousId: "anon-2",
+      });
+
+      expect(storageAdapter.save).toHaveBeenCalledTimes(3);
+    });
+
+    it("should persist the window through the storage adapter", async () => {
+      const onDrop = vi.fn();
+      const items = new Map<string, string>();
+      const storageAdapter: StorageAdapter = {
+        ...createMockStorageAdapter(),
+        saveItem: vi.fn((key: string, value: string) => {
+          items.set(key, value);
+
+          return Promise.resolve();
+        }),
+        loadItem: vi.fn((key: string) =>
+          Promise.resolve(items.get(key) ?? null),
+        ),
+      };
+
+      const createDedupClient = () =>
+        createTestClient({
+          config: { dedupOptions: { window: 60000 }, hooks: { onDrop } },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter,
+        });
+
+      await createDedupClient().track(
+        "test_event",
+        { key: "secret" },
+        undefined,
+        {
+          anonymousId: "anon-1",
+        },
+      );
+
+      // Keys are hashed, never holding raw payloads
+      expect(items.get("dedup_window")).not.toContain("secret");
+
+      await createDedupClient().track(
+        "test_event",
+        { key: "secret" },
+        undefined,
+        {
+          anonymousId: "anon-1",
+        },
+      );
+
+      expect(onDrop).toHaveBeenCalledExactlyOnceWith({
+        eventCount: 1,
+        reason: "duplicate",
+      });
+    });
+
+    it("should not record events dropped before dispatch", async () => {
+      const onDrop = vi.fn();
+      const eventSampler = vi
+        .fn()
+        .mockReturnValueOnce(false)
+        .mockReturnValue(true);
+
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: {
+          dedupOptions: { window: 1000 },
+          eventSampler,
+          hooks: { onDrop },
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.clicked({ elementId: "btn" });
+      await client.clicked({ elementId: "btn" });
+      await client.clicked({ elementId: "btn" });
+
+      expect(onDrop.mock.calls).toEqual([
+        [{ eventCount: 1, reason: "sampled" }],
+        [{ eventCount: 1, reason: "duplicate" }],
+      ]);
+      expect(storageAdapter.save).toHaveBeenCalledOnce();
+    });
+
+    it("should write the window one snapshot at a time", async () => {
+      const writes: { snapshot: string; resolve: () => void }[] = [];
+      const storageAdapter: StorageAdapter = {
+        ...createMockStorageAdapter(),
+        saveItem: vi.fn(
+          (_key: string, snapshot: string) =>
+            new Promise<void>(resolve => {
+              writes.push({ snapshot, resolve });
+            }),
+        ),
+        loadItem: vi.fn().mockResolvedValue(null),
+      };
+
+      const client = createTestClient({
+        config: { dedupOptions: { window: 1000 } },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event", { key: "a" });
+      await client.track("test_event", { key: "b" });
+      await client.track("test_event", { key: "c" });
+
+      expect(writes).toHaveLength(1);
+
+      writes[0]!.resolve();
+      await vi.waitFor(() => expect(writes).toHaveLength(2));
+      writes[1]!.resolve();
+
+      const snapshot = JSON.parse(writes[1]!.snapshot) as DedupSnapshot;
+
+      expect(Object.keys(snapshot)).toHaveLength(3);
+      expect(storageAdapter.saveItem).toHaveBeenCalledTimes(2);
+    });
+
+    it("should warn when the window fails to persist or restore", async () => {
+      const loggerAdapter = new NoOpLogger();
+      const warnSpy = vi.spyOn(loggerAdapter, "warn");
+      const storageAdapter: StorageAdapter = {
+        ...createMockStorageAdapter(),
+        saveItem: vi
+          .fn()
+          .mockRejectedValueOnce(new Error("disk full"))
+          .mockRejectedValueOnce("unknown"),
+        loadItem: vi
+          .fn()
+          .mockResolvedValueOnce("{")
+          .mockRejectedValueOnce("unknown"),
+      };
+
+      for (let i = 0; i < 2; i++) {
+        const client = createTestClient({
+          config: { dedupOptions: { window: 1000 }, loggerAdapter },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter,
+        });
+
+        await client.track("test_event", { key: "a" });
+      }
+
+      await vi.waitFor(() => expect(warnSpy).toHaveBeenCalledTimes(4));
+
+      expect(warnSpy).toHaveBeenCalledWith(
+        "Failed to restore the dedup window",
+        { error: expect.any(String) as string },
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        "Failed to restore the dedup window",
+        { error: "unknown" },
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        "Failed to persist the dedup window",
+        { error: "disk full" },
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        "Failed to persist the dedup window",
+        { error: "unknown" },
+      );
+    });
+
+    it("should reject trackAndConfirm for duplicates", async () => {
+      const client = createTestClient({
+        config: { dedupOptions: { window: 1000 } },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.track("test_event", { key: "a" });
+
+      await expect(
+        client.trackAndConfirm("test_event", { key: "a" }),
+      ).rejects.toMatchObject({ reason: "duplicate", eventId: null });
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("should throw error if rate limits are malformed", () => {
+      expect(() => {
+        createTestClient({
+          config: { rateLimit: { global: { limit: 10, interval: 0 } } },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow("`rateLimit.global.interval` must be a positive number.");
+    });
+
+    it("should drop excess events and warn once", async () => {
+      const onDrop = vi.fn();
+      const loggerAdapter = new NoOpLogger();
+      const warnSpy = vi.spyOn(loggerAdapter, "warn");
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: {
+          rateLimit: { perEvent: { limit: 2, interval: 60000 } },
+          hooks: { onDrop },
+          loggerAdapter,
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      for (let i = 0; i < 5; i++) {
+        await client.viewed({ elementId: "banner" });
+      }
+
+      await client.track("test_event", { key: "a" });
+
+      expect(storageAdapter.save).toHaveBeenCalledTimes(3);
+      expect(onDrop).toHaveBeenCalledTimes(3);
+      expect(onDrop).toHaveBeenCalledWith({
+        eventCount: 1,
+        reason: "rate_limited",
+      });
+      expect(warnSpy).toHaveBeenCalledExactlyOnceWith(
+        "Rate limit exceeded, dropping events",
+        { name: "viewed" },
+      );
+    });
+
+    it("should reject trackAndConfirm for rate limited events", async () => {
+      const client = createTestClient({
+        config: { rateLimit: { global: { limit: 1, interval: 60000 } } },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.track("test_event", { key: "a" });
+
+      await expect(
+        client.trackAndConfirm("test_event", { key: "b" }),
+      ).rejects.toMatchObject({ reason: "rate_limited" });
+    });
+  });
+
+  describe("circuit breaker", () => {
+    it("should throw error if circuit breaker options are malformed", () => {
+      expect(() => {
+        createTestClient({
+          config: { circuitBreaker: { cooldown: 0 } },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow("`circuitBreaker.cooldown` must be a positive number.");
+    });
+
+    it("should stop sending once the circuit opens", async () => {
+      const onCircuitStateChange = vi.fn();
+      const httpAdapter: HttpAdapter = {
+        send: vi.fn().mockResolvedValue({ status: 503 }),
+      };
+
+      const client = createTestClient({
+        config: {
+          circuitBreaker: { failureThreshold: 1 },
+          retryOptions: { maxAttempts: 0 },
+          hooks: { onCircuitStateChange },
+        },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.track("test_event", { key: "a" });
+      await client.flush();
+      await client.track("test_event", { key: "b" });
+      await client.flush();
+
+      expect(httpAdapter.send).toHaveBeenCalledOnce();
+      expect(onCircuitStateChange).toHaveBeenCalledExactlyOnceWith({
+        state: "open",
+        previousState: "closed",
+      });
+
+      client.dispose();
+    });
+  });
+
+  describe("compression", () => {
+    it("should throw error if compression options are malformed", () => {
+      expect(() => {
+        createTestClient({
+          config: { compression: { threshold: -1 } },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow("`compression.threshold` must be a non-negative number.");
+    });
+
+    it("should compress batches with the Compression Streams API", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        config: { compression: { encoding: "deflate", threshold: 0 } },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.track("test_event", { key: "a" });
+      await client.flush();
+
+      const [context] = vi.mocked(httpAdapter.send).mock.calls[0]!;
+
+      expect(context.headers["Content-Encoding"]).toBe("deflate");
+      expect(JSON.parse(inflateSync(context.body).toString())).toMatchObject({
+        events: context.events,
+      });
+
+      client.dispose();
+    });
+  });
+
+  describe("encoding", () => {
+    it("should throw error if the encoding is unknown", () => {
+      expect(() => {
+        createTestClient({
+          config: { encoding: "xml" as "json" },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow(
+        '`encoding` must be one of "json", "ndjson" or "compact", or a serializer.',
+      );
+    });
+
+    it("should encode batches as JSON by default", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.track("test_event", { key: "a" });
+      await client.flush();
+
+      const [context] = vi.mocked(httpAdapter.send).mock.calls[0]!;
+
+      expect(context.headers["Content-Type"]).toBe("application/json");
+      expect(context.body).toBe(
+        JSON.stringify({
+          batchId: context.batchId,
+          sentAt: context.sentAt,
+          attempt: 0,
+          events: context.events,
+        }),
+      );
+
+      client.dispose();
+    });
+
+    it("should encode batches with the configured encoding", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        config: { encoding: "compact" },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.track("test_event", { key: "a" });
+      await client.track("test_event", { key: "b" });
+      await client.flush();
+
+      const [context] = vi.mocked(httpAdapter.send).mock.calls[0]!;
+      const body = JSON.parse(context.body as string) as {
+        context: Record<string, unknown>;
+      };
+
+      expect(context.headers["Content-Type"]).toBe(
+        "application/vnd.ripple.compact+json",
+      );
+      expect(body.context).toMatchObject({ name: "test_event" });
+
+      client.dispose();
+    });
+  });
+
+  describe("dead-letter queue", () => {
+    const createDeadLetterStorage = (): DeadLetterQueueOptions["storage"] => {
+      const items = new Map<string, string>();
+
+      return {
+        ...createMockStorageAdapter(),
+        saveItem: vi.fn((key: string, value: string) => {
+          items.set(key, value);
+
+          return Promise.resolve();
+        }),
+        loadItem: vi.fn((key: string) =>
+          Promise.resolve(items.get(key) ?? null),
+        ),
+      };
+    };
+
+    it("should throw error if dead-letter queue options are malformed", () => {
+      expect(() => {
+        createTestClient({
+          config: {
+            deadLetterQueue: { storage: createDeadLetterStorage(), maxAge: 0 },
+          },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow("`deadLetterQueue.maxAge` must be a positive number.");
+    });
+
+    it("should throw error if the dead-letter queue shares the storage adapter", () => {
+      const storageAdapter = createDeadLetterStorage();
+
+      expect(() => {
+        createTestClient({
+          config: { deadLetterQueue: { storage: storageAdapter } },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter,
+        });
+      }).toThrow(
+        "`deadLetterQueue.storage` must be a different instance from `storageAdapter`.",
+      );
+    });
+
+    it("should keep batches dropped on 4xx", async () => {
+      const storage = createDeadLetterStorage();
+      const httpAdapter: HttpAdapter = {
+        send: vi.fn().mockResolvedValue({ status: 400, data: "bad" }),
+      };
+
+      const client = createTestClient({
+        config: { deadLetterQueue: { storage } },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.init();
+      await client.track("test_event", { key: "a" });
+      await client.flush();
+
+      const [context] = vi.mocked(httpAdapter.send).mock.calls[0]!;
+      const letters = await client.getDeadLetters();
+
+      expect(storage.init).toHaveBeenCalledOnce();
+      expect(letters).toEqual([
+        {
+          id: expect.any(String) as string,
+          status: 400,
+          response: "bad",
+          droppedAt: expect.any(Number) as number,
+          events: context.events,
+        },
+      ]);
+      expect(JSON.parse(await client.exportDeadLetters())).toEqual(letters);
+
+      client.dispose();
+
+      expect(storage.close).toHaveBeenCalledOnce();
+    });
+
+    it("should replay dead letters", async () => {
+      const httpAdapter: HttpAdapter = {
+        send: vi
+          .fn()
+          .mockResolvedValueOnce({ status: 400 })
+          .mockResolvedValue({ status: 200 }),
+      };
+
+      const client = createTestClient({
+        config: { deadLetterQueue: { storage: createDeadLetterStorage() } },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.track("test_event", { key: "a" });
+      await client.flush();
+      await client.track("test_event", { key: "b" });
+      await client.replayDeadLetters();
+      await client.flush();
+
+      const [[dropped], [replayed]] = vi.mocked(httpAdapter.send).mock
+        .calls as [[HttpAdapterContext], [HttpAdapterContext]];
+
+      expect(replayed.events).toEqual([
+        expect.objectContaining({ payload: { key: "b" } }),
+        dropped.events[0],
+      ]);
+      expect(await client.getDeadLetters()).toEqual([]);
+
+      client.dispose();
+    });
+
+    it("should restore persisted events before replaying", async () => {
+      const storage = createDeadLetterStorage();
+      const httpAdapter: HttpAdapter = {
+        send: vi.fn().mockResolvedValue({ status: 400 }),
+      };
+
+      const firstClient = createTestClient({
+        config: { deadLetterQueue: { storage } },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await firstClient.track("test_event", { key: "a" });
+      await firstClient.flush();
+      firstClient.dispose();
+
+      const [dropped] = vi.mocked(httpAdapter.send).mock.calls[0]!;
+      const storageAdapter = createMockStorageAdapter();
+
+      vi.mocked(storageAdapter.load).mockResolvedValue([
+        { ...dropped.events[0]!, eventId: "persisted" },
+      ]);
+      vi.mocked(httpAdapter.send).mockResolvedValue({ status: 200 });
+
+      const client = createTestClient({
+        config: { deadLetterQueue: { storage } },
+        httpAdapter,
+        storageAdapter,
+      });
+
+      await client.replayDeadLetters();
+      await client.flush();
+
+      expect(httpAdapter.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          events: [
+            expect.objectContaining({ eventId: "persisted" }),
+            dropped.events[0],
+          ],
+        }),
+      );
+
+      client.dispose();
+    });
+
+    it("should replay and purge dead letters by id", async () => {
+      const httpAdapter: HttpAdapter = {
+        send: vi.fn().mockResolvedValue({ status: 400 }),
+      };
+
+      const client = createTestClient({
+        config: { deadLetterQueue: { storage: createDeadLetterStorage() } },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      for (const key of ["a", "b", "c"]) {
+        await client.track("test_event", { key });
+        await client.flush();
+      }
+
+      const [first, second, third] = await client.getDeadLetters();
+
+      await client.purgeDeadLetters([first!.id]);
+      await client.replayDeadLetters([second!.id]);
+      await client.flush();
+
+      expect(httpAdapter.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({ events: second!.events }),
+      );
+
+      const letters = await client.getDeadLetters();
+
+      expect(letters).toHaveLength(2);
+      expect(letters[0]).toEqual(third);
+      expect(letters[1]!.events).toEqual(second!.events);
+
+      await client.purgeDeadLetters();
+
+      expect(await client.getDeadLetters()).toEqual([]);
+
+      client.dispose();
+    });
+
+    it("should have no dead letters when disabled", async () => {
+      const httpAdapter: HttpAdapter = {
+        send: vi.fn().mockResolvedValue({ status: 400 }),
+      };
+
+      const client = createTestClient({
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.track("test_event", { key: "a" });
+      await client.flush();
+      await client.replayDeadLetters();
+      await client.purgeDeadLetters();
+
+      expect(httpAdapter.send).toHaveBeenCalledOnce();
+      expect(await client.getDeadLetters()).toEqual([]);
+      expect(await client.exportDeadLetters()).toBe("[]");
+
+      client.dispose();
+    });
+  });
+
+  describe("clock sync", () => {
+    const createServerTimeAdapter = (offset: number): HttpAdapter => {
+      const send = vi.fn(() =>
+        Promise.resolve({
+          status: 200,
+          data: { serverTime: Date.now() + offset },
+        }),
+      );
+
+      return { send };
+    };
+
+    it("should throw error if clock sync options are malformed", () => {
+      expect(() => {
+        createTestClient({
+          config: { clockSyncOptions: { header: "" } },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow("`clockSyncOptions.header` must be a non-empty string.");
+    });
+
+    it("should correct the timestamps of events after the server time is known", async () => {
+      const now = vi.spyOn(Date, "now").mockReturnValue(1000);
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { clockSyncOptions: { enabled: true } },
+        httpAdapter: createServerTimeAdapter(60000),
+        storageAdapter,
+      });
+
+      await client.track("test_event", { key: "a" });
+
+      expect(
+        vi.mocked(storageAdapter.save).mock.calls[0]![0][0],
+      ).not.toHaveProperty("correctedIssuedAt");
+
+      await client.flush();
+      now.mockReturnValue(2000);
+      await client.track("test_event", { key: "b" }, undefined, {
+        issuedAt: 1500,
+      });
+
+      const { calls } = vi.mocked(storageAdapter.save).mock;
+
+      expect(calls[calls.length - 1]![0]).toEqual([
+        expect.objectContaining({ issuedAt: 1500, correctedIssuedAt: 61500 }),
+      ]);
+
+      now.mockRestore();
+    });
+
+    it.each<[string, Partial<ClientConfig>]>([
+      ["by default", {}],
+      ["when disabled", { clockSyncOptions: { enabled: false } }],
+    ])("should not correct timestamps %s", async (_, config) => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config,
+        httpAdapter: createServerTimeAdapter(60000),
+        storageAdapter,
+      });
+
+      await client.track("test_event", { key: "a" });
+      await client.flush();
+      await client.track("test_event", { key: "b" });
+
+      const { calls } = vi.mocked(storageAdapter.save).mock;
+
+      expect(calls[calls.length - 1]![0][0]).not.toHaveProperty(
+        "correctedIssuedAt",
+      );
+    });
+  });
+
+  describe("priority", () => {
+    it.each<[ClientConfig["priority"], string]>([
+      [{ interval: -1 }, "`priority.interval` must be a non-negative number."],
+      [
+        { events: { test_event: "urgent" as "high" } },
+        '`priority.events.test_event` must be one of "normal" or "high".',
+      ],
+    ])("should throw error if priority options are %j", (priority, message) => {
+      expect(() => {
+        createTestClient({
+          config: { priority },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow(message);
+    });
+
+    it("should send high-priority events by name immediately", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        config: { priority: { events: { test_event: "high" } } },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.track("simple_event", {});
+      await client.track("test_event", { key: "a" });
+
+      expect(httpAdapter.send).toHaveBeenCalledExactlyOnceWith(
+        expect.objectContaining({
+          events: [
+            expect.objectContaining({ name: "test_event", priority: "high" }),
+          ],
+        }),
+      );
+
+      client.dispose();
+    });
+
+    it("should let the per-call context override the priority", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { priority: { events: { test_event: "high" } } },
+        httpAdapter,
+        storageAdapter,
+      });
+
+      await client.track("test_event", { key: "a" }, undefined, {
+        priority: "normal",
+      });
+      await client.track("simple_event", {}, undefined, { priority: "high" });
+
+      expect(httpAdapter.send).toHaveBeenCalledExactlyOnceWith(
+        expect.objectContaining({
+          events: [
+            expect.objectContaining({ name: "simple_event", priority: "high" }),
+          ],
+        }),
+      );
+      expect(
+        vi.mocked(storageAdapter.save).mock.calls[0]![0][0],
+      ).not.toHaveProperty("priority");
+
+      client.dispose();
+    });
+  });
+
+  describe("remote config", () => {
+    const createRemoteStorage = (cached: unknown = null): StorageAdapter => ({
+      ...createMockStorageAdapter(),
+      saveItem: vi.fn().mockResolvedValue(undefined),
+      loadItem: vi
+        .fn()
+        .mockResolvedValue(cached === null ? null : JSON.stringify(cached)),
+    });
+
+    const serve = (...documents: unknown[]) => {
+      const get = vi.fn();
+
+      // Documents arrive after the cached config is applied, as over a network
+      for (const document of documents) {
+        get.mockImplementationOnce(
+          () =>
+            new Promise(resolve => {
+              setTimeout(resolve, 0, { status: 200, data: document });
+            }),
+        );
+      }
+
+      return { ...createMockHttpAdapter(), get };
+    };
+
+    const remoteConfig = { url: "https://api.test.com/config" };
+
+    it("should throw error if remote config options are malformed", () => {
+      expect(() => {
+        createTestClient({
+          config: { remoteConfig: { url: "" } },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow("`remoteConfig.url` must be a non-empty string.");
+    });
+
+    it("should throw error if the HTTP adapter cannot fetch the config", () => {
+      expect(() => {
+        createTestClient({
+          config: { remoteConfig },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow("`httpAdapter.get` must be a function to use `remoteConfig`.");
+    });
+
+    it("should fetch the config with the API key on init", async () => {
+      const httpAdapter = serve({});
+      const onConfigChange = vi.fn();
+      const client = createTestClient({
+        config: { remoteConfig, hooks: { onConfigChange } },
+        httpAdapter,
+        storageAdapter: createRemoteStorage(),
+      });
+
+      await client.init();
+
+      await vi.waitFor(() => {
+        expect(onConfigChange).toHaveBeenCalledExactlyOnceWith({
+          config: {},
+          source: "remote",
+        });
+      });
+      expect(httpAdapter.get).toHaveBeenCalledWith({
+        url: remoteConfig.url,
+        headers: { "X-API-Key": "test-key" },
+      });
+
+      client.dispose();
+    });
+
+    it("should block events named by the cached config", async () => {
+      const httpAdapter = serve({ blockedEvents: ["test_event"] });
+      const onDrop = vi.fn();
+      const onConfigChange = vi.fn();
+      const storageAdapter = createRemoteStorage({
+        blockedEvents: ["test_event"],
+      });
+
+      const client = createTestClient({
+        config: { remoteConfig, hooks: { onDrop, onConfigChange } },
+        httpAdapter,
+        storageAdapter,
+      });
+
+      await expect(
+        client.trackAndConfirm("test_event", { key: "a" }),
+      ).rejects.toMatchObject({ reason: "blocked" });
+      await client.track("simple_event", {});
+
+      expect(onDrop).toHaveBeenCalledExactlyOnceWith({
+        eventCount: 1,
+        reason: "blocked",
+      });
+      expect(vi.mocked(storageAdapter.save).mock.calls[0]![0]).toEqual([
+        expect.objectContaining({ name: "simple_event" }),
+      ]);
+
+      await vi.waitFor(() => {
+        expect(storageAdapter.saveItem).toHaveBeenCalled();
+      });
+      expect(onConfigChange).toHaveBeenCalledExactlyOnceWith({
+        config: { blockedEvents: ["test_event"] },
+        source: "cache",
+      });
+
+      client.dispose();
+    });
+
+    it("should drop every event when the kill switch is on", async () => {
+      const httpAdapter = serve({ disabled: true });
+      const onConfigChange = vi.fn();
+      const storageAdapter = createRemoteStorage();
+      const client = createTestClient({
+        config: { remoteConfig, hooks: { onConfigChange } },
+        httpAdapter,
+        storageAdapter,
+      });
+
+      await client.init();
+      await vi.waitFor(() => {
+        expect(onConfigChange).toHaveBeenCalled();
+      });
+      await client.track("test_event", { key: "a" });
+      await client.clicked({ elementId: "btn" });
+
+      expect(storageAdapter.save).not.toHaveBeenCalled();
+
+      client.dispose();
+    });
+
+    it("should apply the remote batch options", async () => {
+      const httpAdapter = serve({});
+      const client = createTestClient({
+        config: { remoteConfig },
+        httpAdapter,
+        storageAdapter: createRemoteStorage({ batchOptions: { size: 1 } }),
+      });
+
+      await client.track("test_event", { key: "a" });
+
+      expect(httpAdapter.send).toHaveBeenCalledOnce();
+
+      client.dispose();
+    });
+
+    it("should replace the local sampling and restore it when omitted", async () => {
+      const httpAdapter = serve({});
+      const onConfigChange = vi.fn();
+      const storageAdapter = createRemoteStorage({ sampling: { rate: 0 } });
+      const client = createTestClient({
+        config: {
+          remoteConfig,
+          sampling: { rate: 1 },
+          hooks: { onConfigChange },
+        },
+        httpAdapter,
+        storageAdapter,
+      });
+
+      await client.track("test_event", { key: "a" });
+
+      expect(storageAdapter.save).not.toHaveBeenCalled();
+
+      await vi.waitFor(() => {
+        expect(onConfigChange).toHaveBeenCalledTimes(2);
+      });
+      await client.track("test_event", { key: "b" });
+
+      expect(vi.mocked(storageAdapter.save).mock.calls[0]![0]).toEqual([
+        expect.objectContaining({ sampleRate: 1 }),
+      ]);
+
+      client.dispose();
+    });
+
+    it("should only report actual changes", async () => {
+      const httpAdapter = serve({ disabled: false });
+      const onConfigChange = vi.fn();
+      const storageAdapter = createRemoteStorage({ disabled: false });
+      const client = createTestClient({
+        config: { remoteConfig, hooks: { onConfigChange } },
+        httpAdapter,
+        storageAdapter,
+      });
+
+      await client.init();
+      await vi.waitFor(() => {
+        expect(storageAdapter.saveItem).toHaveBeenCalled();
+      });
+
+      expect(onConfigChange).toHaveBeenCalledExactlyOnceWith({
+        config: { disabled: false },
+        source: "cache",
+      });
+
+      client.dispose();
+    });
+
+    it("should reject batch sizes above the buffer size", async () => {
+      const httpAdapter = serve({ batchOptions: { size: 100 } });
+      const onConfigChange = vi.fn();
+      const loggerAdapter = new NoOpLogger();
+      const warnSpy = vi.spyOn(loggerAdapter, "warn");
+      const storageAdapter = createRemoteStorage();
+      const client = createTestClient({
+        config: { remoteConfig, loggerAdapter, hooks: { onConfigChange } },
+        httpAdapter,
+        storageAdapter,
+      });
+
+      await client.init();
+      await vi.waitFor(() => {
+        expect(warnSpy).toHaveBeenCalledWith(
+          "Ignoring invalid remote config",
+          expect.any(Error),
+        );
+      });
+
+      expect(onConfigChange).not.toHaveBeenCalled();
+      expect(storageAdapter.saveItem).not.toHaveBeenCalled();
+
+      client.dispose();
+    });
+  });
+
+  describe("sessions", () => {
+    const lastSaved = (storageAdapter: StorageAdapter) => {
+      const { calls } = vi.mocked(storageAdapter.save).mock;
+
+      return calls[calls.length - 1]![0];
+    };
+
+    it("should throw error if session options are malformed", () => {
+      expect(() => {
+        createTestClient({
+          config: { sessionOptions: { inactivityTimeout: -1 } },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow(
+        "`sessionOptions.inactivityTimeout` must be a positive number.",
+      );
+    });
+
+    it("should not attach a session without session options", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event");
+
+      expect(lastSaved(storageAdapter)).toEqual([
+        expect.objectContaining({ sessionId: null, sessionSequence: null }),
+      ]);
+      expect(client.getSessionId()).toBeNull();
+    });
+
+    it("should track session_started and stamp events with the session", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: {
+          sessionOptions: {},
+          batchOptions: { size: 100 },
+          maxBufferSize: 100,
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event");
+      await client.track("test_event");
+
+      const sessionId = client.getSessionId();
+
+      expect(sessionId).toEqual(expect.any(String));
+      expect(lastSaved(storageAdapter)).toEqual([
+        expect.objectContaining({
+          name: "session_started",
+          payload: {},
+          schemaVersion: PREDEFINED_SCHEMA_VERSION,
+          sessionId,
+          sessionSequence: 1,
+        }),
+        expect.objectContaining({
+          name: "test_event",
+          sessionId,
+          sessionSequence: 2,
+        }),
+        expect.objectContaining({
+          name: "test_event",
+          sessionId,
+          sessionSequence: 3,
+        }),
+      ]);
+    });
+
+    it("should end expired sessions before starting a new one", async () => {
+      vi.useFakeTimers({ now: 0 });
+
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: {
+          sessionOptions: { inactivityTimeout: 60000 },
+          batchOptions: { size: 100, interval: 600000 },
+          maxBufferSize: 100,
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event");
+      vi.advanceTimersByTime(1000);
+      await client.track("test_event");
+
+      const first = client.getSessionId();
+
+      vi.advanceTimersByTime(60000);
+      await client.track("test_event");
+
+      const second = client.getSessionId();
+
+      expect(second).not.toBe(first);
+      expect(lastSaved(storageAdapter).slice(3)).toEqual([
+        expect.objectContaining({
+          name: "session_ended",
+          payload: { durationMs: 1000, eventCount: 3 },
+          issuedAt: 1000,
+          sessionId: first,
+          sessionSequence: 4,
+        }),
+        expect.objectContaining({
+          name: "session_started",
+          payload: { previousSessionId: first },
+          issuedAt: 61000,
+          sessionId: second,
+          sessionSequence: 1,
+        }),
+        expect.objectContaining({
+          name: "test_event",
+          sessionId: second,
+          sessionSequence: 2,
+        }),
+      ]);
+
+      vi.useRealTimers();
+    });
+
+    it("should use a caller-supplied session ID", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { sessionOptions: {} },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event", { key: "a" }, undefined, {
+        sessionId: "request-session",
+      });
+
+      expect(lastSaved(storageAdapter)).toEqual([
+        expect.objectContaining({
+          name: "test_event",
+          sessionId: "request-session",
+          sessionSequence: null,
+        }),
+      ]);
+      expect(client.getSessionId()).toBeNull();
+    });
+
+    it("should accept a caller-supplied session ID without session options", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event", { key: "a" }, undefined, {
+        sessionId: "request-session",
+      });
+
+      expect(lastSaved(storageAdapter)).toEqual([
+        expect.objectContaining({ sessionId: "request-session" }),
+      ]);
+    });
+
+    it("should end the session on reset", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: {
+          sessionOptions: {},
+          batchOptions: { size: 100 },
+          maxBufferSize: 100,
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.track("test_event");
+
+      const sessionId = client.getSessionId();
+      const anonymousId = client.getAnonymousId();
+
+      client.reset();
+      await vi.waitFor(() => {
+        expect(lastSaved(storageAdapter)).toHaveLength(3);
+      });
+
+      expect(client.getSessionId()).toBeNull();
+      expect(lastSaved(storageAdapter)[2]).toMatchObject({
+        name: "session_ended",
+        payload: { eventCount: 2 },
+        anonymousId,
+        sessionId,
+        sessionSequence: 3,
+      });
+
+      await client.track("test_event");
+
+      expect(client.getSessionId()).not.toBe(sessionId);
+    });
+
+    it("should log a failure to track session_ended on reset", async () => {
+      const loggerAdapter = new NoOpLogger();
+      const errorSpy = vi.spyOn(loggerAdapter, "error");
+      const errors: unknown[] = [new Error("sampler"), "unknown"];
+      const client = createTestClient({
+        config: {
+          sessionOptions: {},
+          loggerAdapter,
+          eventSampler: event => {
+            if (event.name === "session_ended") throw errors.shift();
+
+            return true;
+          },
+        },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      for (let i = 0; i < 2; i++) {
+        await client.track("test_event");
+        client.reset();
+      }
+
+      await vi.waitFor(() => {
+        expect(errorSpy.mock.calls).toEqual([
+          ["Failed to track the session end", { error: "sampler" }],
+          ["Failed to track the session end", { error: "unknown" }],
+        ]);
+      });
+    });
+
+    it("should not track session_ended on reset without a session", () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { sessionOptions: {} },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      client.reset();
+
+      expect(storageAdapter.save).not.toHaveBeenCalled();
+    });
+
+    it("should forget the session on dispose", async () => {
+      const client = createTestClient({
+        config: { sessionOptions: {} },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.track("test_event");
+      client.dispose();
+
+      expect(client.getSessionId()).toBeNull();
+    });
+  });
+
+  describe("tracking plan", () => {
+    const trackingPlan = {
+      user_signup: defineEvent<TestCustomEvents["user_signup"]>({
+        schemaVersion: "2.0.0",
+        validate: payload =>
+          payload.email?.includes("@")
+            ? []
+            : [{ path: "payload.email", message: "must be an email" }],
+      }),
+      test_event: defineEvent<TestCustomEvents["test_event"]>({
+        schemaVersion: "1.1.0",
+      }),
+    };
+
+    const trackAndSend = async (
+      track: (client: TestClient) => Promise<void>,
+    ) => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        config: { trackingPlan },
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await track(client);
+      await client.flush();
+
+      return vi.mocked(httpAdapter.send).mock.calls[0]![0].events;
+    };
+
+    it("should throw error if trackingPlan is malformed", () => {
+      expect(() => {
+        createTestClient({
+          config: {
+            trackingPlan: { user_signup: { schemaVersion: "" } },
+          },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow(
+        "`trackingPlan.user_signup.schemaVersion` must be a non-empty string.",
+      );
+    });
+
+    it("should attach the declared schema version in the custom namespace", async () => {
+      const events = await trackAndSend(client =>
+        client.custom.user_signup(
+          { email: "a@b.co", plan: "pro" },
+          { userId: "u-1" },
+        ),
+      );
+
+      expect(events[0]).toMatchObject({
+        name: "user_signup",
+        schemaVersion: "2.0.0",
+        payload: { email: "a@b.co", plan: "pro" },
+        userId: "u-1",
+      });
+    });
+
+    it("should default the schema version of track() to the plan", async () => {
+      const events = await trackAndSend(async client => {
+        await client.track("test_event", { key: "a" });
+        await client.track("test_event", { key: "b" }, "0.9.0");
+        await client.track("simple_event");
+      });
+
+      expect(events.map((event: Event) => event.schemaVersion)).toEqual([
+        "1.1.0",
+        "0.9.0",
+        null,
+      ]);
+    });
+
+    it("should ignore inherited object keys as event names", async () => {
+      const events = await trackAndSend(client =>
+        client.track("toString" as "simple_event"),
+      );
+
+      expect(events[0]).toMatchObject({ schemaVersion: null });
+    });
+
+    it("should only expose methods for events in the plan", () => {
+      const client = createTestClient({
+        config: { trackingPlan },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      expect(Object.keys(client.custom)).toEqual(["user_signup", "test_event"]);
+      expect(Object.isFrozen(client.custom)).toBe(true);
+    });
+
+    it("should run plan validators according to payloadValidation", async () => {
+      const onDrop = vi.fn();
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { trackingPlan, payloadValidation: "drop", hooks: { onDrop } },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.custom.user_signup({ email: "invalid", plan: "pro" });
+      await client.track("test_event", { key: "a" });
+
+      expect(onDrop).toHaveBeenCalledExactlyOnceWith({
+        eventCount: 1,
+        reason: "invalid",
+      });
+      expect(storageAdapter.save).toHaveBeenCalledOnce();
+    });
+
+    it("should pass an empty payload to plan validators when omitted", async () => {
+      const client = createTestClient({
+        config: { trackingPlan, payloadValidation: "strict" },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await expect(client.track("user_signup")).rejects.toMatchObject({
+        eventName: "user_signup",
+        issues: [{ path: "payload.email", message: "must be an email" }],
+      });
+    });
+
+    it("should not run plan validators when validation is off", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { trackingPlan },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.custom.user_signup({ email: "invalid", plan: "pro" });
+
+      expect(storageAdapter.save).toHaveBeenCalled();
+    });
+  });
+
+  describe("use", () => {
+    it("should throw error if middleware is not a function", () => {
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      expect(() => {
+        client.use("invalid" as unknown as Middleware<TestMetadata>);
+      }).toThrow("`middleware` must be a function.");
+    });
+
+    it("should enqueue events returned by middleware", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      client.use(event => [
+        { ...event, metadata: { ...event.metadata, sessionId: "s-1" } },
+        { ...event, eventId: "derived", name: "derived_event" },
+      ]);
+
+      await client.init();
+      await client.track("test_event");
+      await client.flush();
+
+      const { events } = vi.mocked(httpAdapter.send).mock.calls[0]![0];
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({
+        name: "test_event",
+        metadata: { sessionId: "s-1" },
+      });
+      expect(events[1]).toMatchObject({ name: "derived_event" });
+    });
+
+    it("should report dropped events via onDrop", async () => {
+      const onDrop = vi.fn();
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { hooks: { onDrop } },
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      client.use(event =>
+        event.name === "event1" ? { drop: "blocked_event" } : null,
+      );
+
+      await client.init();
+      await client.track("event1");
+      await client.track("event2");
+
+      expect(storageAdapter.save).not.toHaveBeenCalled();
+      expect(onDrop).toHaveBeenNthCalledWith(1, {
+        eventCount: 1,
+        reason: "middleware",
+        detail: "blocked_event",
+      });
+      expect(onDrop).toHaveBeenNthCalledWith(2, {
+        eventCount: 1,
+        reason: "middleware",
+      });
+    });
+
+    it("should run middleware after the sampler", async () => {
+      const middleware = vi.fn();
+      const client = createTestClient({
+        config: { eventSampler: () => false },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      client.use(middleware);
+
+      await client.init();
+      await client.track("test_event");
+
+      expect(middleware).not.toHaveBeenCalled();
+    });
+
+    it("should stop running middleware once unregistered", async () => {
+      const middleware = vi.fn();
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      const unsubscribe = client.use(middleware);
+
+      await client.init();
+      await client.track("event1");
+
+      unsubscribe();
+
+      await client.track("event2");
+
+      expect(middleware).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("consent", () => {
+    it("should throw error if defaultConsent is invalid", () => {
+      expect(() => {
+        createTestClient({
+          config: { defaultConsent: "unknown" as "granted" },
+          httpAdapter: createMockHttpAdapter(),
+          storageAdapter: createMockStorageAdapter(),
+        });
+      }).toThrow(
+        '`defaultConsent` must be one of "granted", "pending" or "denied".',
+      );
+    });
+
+    it("should default to granted consent", () => {
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      expect(client.getConsentStatus()).toBe("granted");
+      expect(client.getConsent()).toBeNull();
+    });
+
+    it("should hold events out of storage while consent is pending", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        config: { defaultConsent: "pending" },
+        storageAdapter,
+        httpAdapter,
+      });
+
+      await client.init();
+      await client.track("event1");
+      await client.track("event2");
+      await client.flush();
+
+      expect(storageAdapter.save).not.toHaveBeenCalled();
+      expect(httpAdapter.send).not.toHaveBeenCalled();
+    });
+
+    it("should release pending events when consent is granted", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        config: { defaultConsent: "pending" },
+        storageAdapter: createMockStorageAdapter(),
+        httpAdapter,
+      });
+
+      await client.init();
+      await client.track("event1");
+      await client.track("event2");
+      await client.setConsent({ analytics: true });
+      await client.flush();
+
+      const { events } = vi.mocked(httpAdapter.send).mock.calls[0]![0];
+
+      expect(events.map(e => e.name)).toEqual(["event1", "event2"]);
+      expect(client.getConsentStatus()).toBe("granted");
+      expect(client.getConsent()).toEqual({ analytics: true });
+    });
+
+    it("should purge pending events when consent is denied", async () => {
+      const onDrop = vi.fn();
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { defaultConsent: "pending", hooks: { onDrop } },
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.init();
+      await client.track("event1");
+      await client.track("event2");
+      await client.setConsent({ analytics: false });
+      await client.setConsent({ analytics: false });
+      await client.setConsent({ analytics: true });
+
+      expect(onDrop).toHaveBeenCalledTimes(1);
+      expect(onDrop).toHaveBeenCalledWith({
+        eventCount: 2,
+        reason: "no_consent",
+      });
+      expect(storageAdapter.save).not.toHaveBeenCalled();
+    });
+
+    it("should withhold auto-telemetry until consent is granted", async () => {
+      const fetchSpy = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(new Response());
+
+      const client = createTestClient({
+        config: {
+          defaultConsent: "denied",
+          telemetryOptions: { endpoint: "https://api.test.com/telemetry" },
+        },
+        storageAdapter: createMockStorageAdapter(),
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.identify("user-1", {});
+      await client.setConsent({ analytics: true });
+      await client.track("test_event", { key: "a" });
+
+      await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalled());
+
+      const reported = fetchSpy.mock.calls.map(
+        ([, init]) => (JSON.parse(init!.body as string) as Event).name,
+      );
+
+      expect(reported).toEqual(["sdk_event_enqueue"]);
+
+      client.dispose();
+      fetchSpy.mockRestore();
+    });
+
+    it("should drop events without initializing once consent is denied", async () => {
+      const onDrop = vi.fn();
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { defaultConsent: "denied", hooks: { onDrop } },
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.track("event1");
+
+      expect(storageAdapter.init).not.toHaveBeenCalled();
+      expect(onDrop).toHaveBeenCalledWith({
+        eventCount: 1,
+        reason: "no_consent",
+      });
+    });
+
+    it("should drop events when consent is denied while middleware runs", async () => {
+      const onDrop = vi.fn();
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        config: { hooks: { onDrop } },
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      client.use(async event => {
+        await client.setConsent({ analytics: false });
+
+        return event;
+      });
+
+      await client.init();
+      await client.track("event1");
+
+      expect(storageAdapter.save).not.toHaveBeenCalled();
+      expect(onDrop).toHaveBeenCalledWith({
+        eventCount: 1,
+        reason: "no_consent",
+      });
+    });
+
+    it("should reset consent on dispose", async () => {
+      const client = createTestClient({
+        config: { defaultConsent: "pending" },
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.init();
+      await client.setConsent({ analytics: true });
+
+      client.dispose();
+
+      expect(client.getConsentStatus()).toBe("pending");
+      expect(client.getConsent()).toBeNull();
+    });
+  });
+
+  describe("per-call context", () => {
+    it("should override identity and issuedAt for a single event", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.init();
+      await client.track("test_event", { key: "value" }, undefined, {
+        userId: "user-42",
+        anonymousId: "anon-42",
+        issuedAt: 1234567890,
+      });
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock
+        .calls[0]?.[0] as Event<TestMetadata>[];
+
+      expect(savedEvents[0]).toMatchObject({
+        userId: "user-42",
+        anonymousId: "anon-42",
+        issuedAt: 1234567890,
+      });
+    });
+
+    it("should allow clearing the userId for a single event", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.init();
+      await client.identify("user-123", {});
+      await client.track("test_event", undefined, undefined, { userId: null });
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock
+        .calls[1]?.[0] as Event<TestMetadata>[];
+
+      expect(savedEvents[1]?.userId).toBeNull();
+      expect(client.getUserId()).toBe("user-123");
+    });
+
+    it("should merge metadata overrides over shared metadata", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.init();
+      client.setMetadata("userId", "shared");
+      client.setMetadata("sessionId", "session-1");
+
+      await client.track("test_event", undefined, undefined, {
+        metadata: { sessionId: "session-2" },
+      });
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock
+        .calls[0]?.[0] as Event<TestMetadata>[];
+
+      expect(savedEvents[0]?.metadata).toEqual({
+        userId: "shared",
+        sessionId: "session-2",
+      });
+      expect(client.getMetadata()).toEqual({
+        userId: "shared",
+        sessionId: "session-1",
+      });
+    });
+
+    it("should not change the client's shared state", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.init();
+
+      const anonymousId = client.getAnonymousId();
+
+      await client.clicked(
+        { elementId: "btn-1" },
+        { userId: "user-1", anonymousId: "anon-1" },
+      );
+      await client.viewed(
+        { elementId: "banner-1" },
+        { userId: "user-2", anonymousId: "anon-2" },
+      );
+      await client.track("test_event");
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock
+        .calls[2]?.[0] as Event<TestMetadata>[];
+
+      expect(savedEvents[0]).toMatchObject({
+        name: "clicked",
+        userId: "user-1",
+        anonymousId: "anon-1",
+      });
+      expect(savedEvents[1]).toMatchObject({
+        name: "viewed",
+        userId: "user-2",
+        anonymousId: "anon-2",
+      });
+      expect(savedEvents[2]).toMatchObject({ userId: null, anonymousId });
+      expect(client.getUserId()).toBeNull();
+      expect(client.getAnonymousId()).toBe(anonymousId);
+    });
+  });
+
   describe("identify", () => {
     it("should track user_identified event", async () => {
       const storageAdapter = createMockStorageAdapter();
@@ -556,6 +2933,285 @@ describe("Client", () => {
 
       expect(savedEvents[0]?.schemaVersion).toBe("1");
     });
+
+    it("should not change shared userId when context is provided", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.init();
+      await client.identify("user-123", {}, { anonymousId: "anon-123" });
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock
+        .calls[0]?.[0] as Event<TestMetadata>[];
+
+      expect(savedEvents[0]).toMatchObject({
+        userId: "user-123",
+        anonymousId: "anon-123",
+      });
+      expect(client.getUserId()).toBeNull();
+    });
+  });
+
+  describe("group", () => {
+    it("should track group_identified event", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.init();
+      await client.group("org-1", { name: "Acme", plan: "enterprise" });
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock
+        .calls[0]?.[0] as Event<TestMetadata>[];
+
+      expect(savedEvents[0]).toMatchObject({
+        name: "group_identified",
+        groupId: "org-1",
+        payload: { groupId: "org-1", traits: { name: "Acme" } },
+        schemaVersion: "1",
+      });
+      expect(client.getGroupId()).toBe("org-1");
+    });
+
+    it("should attach groupId to subsequent events", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.init();
+      await client.track("event1");
+      await client.group("org-1", {});
+      await client.track("event2");
+      await client.flush();
+
+      const { events } = vi.mocked(httpAdapter.send).mock.calls[0]![0];
+
+      expect(events.map(e => e.groupId)).toEqual([null, "org-1", "org-1"]);
+    });
+
+    it("should not change shared groupId when context is provided", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.init();
+      await client.group("org-1", {}, { userId: "user-1" });
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock
+        .calls[0]?.[0] as Event<TestMetadata>[];
+
+      expect(savedEvents[0]).toMatchObject({
+        groupId: "org-1",
+        userId: "user-1",
+      });
+      expect(client.getGroupId()).toBeNull();
+    });
+
+    it("should clear groupId on reset and dispose", async () => {
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.init();
+      await client.group("org-1", {});
+
+      client.reset();
+
+      expect(client.getGroupId()).toBeNull();
+
+      await client.group("org-1", {});
+
+      client.dispose();
+
+      expect(client.getGroupId()).toBeNull();
+    });
+  });
+
+  describe("alias", () => {
+    it("should track user_aliased event", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        storageAdapter,
+        httpAdapter: createMockHttpAdapter(),
+      });
+
+      await client.init();
+      await client.alias("anon-123", "user-123");
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock
+        .calls[0]?.[0] as Event<TestMetadata>[];
+
+      expect(savedEvents[0]).toMatchObject({
+        name: "user_aliased",
+        payload: { previousId: "anon-123", newId: "user-123" },
+        schemaVersion: "1",
+      });
+      expect(client.getUserId()).toBeNull();
+    });
+  });
+
+  describe("reset", () => {
+    it("should rotate anonymousId and clear userId", async () => {
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.init();
+      await client.identify("user-123", {});
+
+      const anonymousId = client.getAnonymousId();
+
+      client.reset();
+
+      expect(client.getAnonymousId()).not.toBe(anonymousId);
+      expect(client.getAnonymousId().length).toBeGreaterThan(0);
+      expect(client.getUserId()).toBeNull();
+    });
+
+    it("should keep queued events and the dispatcher running", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      await client.init();
+      await client.identify("user-123", {});
+
+      client.reset();
+
+      await client.track("test_event");
+      await client.flush();
+
+      const { events } = vi.mocked(httpAdapter.send).mock.calls[0]![0];
+
+      expect(events).toHaveLength(2);
+      expect(events[0]?.userId).toBe("user-123");
+      expect(events[1]).toMatchObject({
+        userId: null,
+        anonymousId: client.getAnonymousId(),
+      });
+    });
+  });
+
+  describe("time", () => {
+    it("should attach durationMs to the next event with the same name", async () => {
+      const httpAdapter = createMockHttpAdapter();
+      const client = createTestClient({
+        httpAdapter,
+        storageAdapter: createMockStorageAdapter(),
+      });
+
+      const now = vi.spyOn(Date, "now").mockReturnValue(1000);
+
+      client.time("test_event");
+      now.mockReturnValue(3500);
+
+      await client.track("test_event", { key: "value" });
+      await client.track("test_event", { key: "value" });
+      await client.flush();
+
+      const { events } = vi.mocked(httpAdapter.send).mock.calls[0]![0];
+
+      expect(events[0]?.durationMs).toBe(2500);
+      expect(events[1]).not.toHaveProperty("durationMs");
+
+      now.mockRestore();
+    });
+
+    it("should not attach durationMs to other events", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      client.time("user_signup");
+
+      await client.track("test_event", { key: "value" });
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock.calls[0]?.[0];
+
+      expect(savedEvents?.[0]).not.toHaveProperty("durationMs");
+    });
+
+    it("should time predefined events", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      client.time("clicked");
+
+      await client.clicked({ elementId: "button" });
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock.calls[0]?.[0];
+
+      expect(savedEvents?.[0]?.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should key timers by the per-call identity", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      await client.init();
+
+      client.time("test_event");
+      client.time("test_event", { userId: "user-1" });
+
+      const payload = { key: "value" };
+
+      await client.track("test_event", payload, undefined, {
+        userId: "user-2",
+      });
+      await client.track("test_event", payload, undefined, {
+        userId: "user-1",
+      });
+      await client.identify("user-3", {});
+      await client.track("test_event", payload);
+
+      const events = vi.mocked(storageAdapter.save).mock.lastCall![0];
+      const timed = events.filter(event => event.name === "test_event");
+
+      expect(timed.map(event => event.durationMs !== undefined)).toEqual([
+        false,
+        true,
+        true,
+      ]);
+    });
+
+    it("should discard running timers on dispose", async () => {
+      const storageAdapter = createMockStorageAdapter();
+      const client = createTestClient({
+        httpAdapter: createMockHttpAdapter(),
+        storageAdapter,
+      });
+
+      client.time("test_event");
+      client.dispose();
+
+      await client.init();
+      await client.track("test_event", { key: "value" });
+
+      const savedEvents = vi.mocked(storageAdapter.save).mock.calls[0]?.[0];
+
+      expect(savedEvents?.[0]).not.toHaveProperty("durationMs");
+    });
   });
 
   describe("clicked", () => {
@@ -1,36 +1,140 @@
 import { type HttpAdapter } from "./adapters/http-adapter.ts";
 import { LogLevel, type LoggerAdapter } from "./adapters/logger-adapter.ts";
 import { type StorageAdapter } from "./adapters/storage-adapter.ts";
+import {
+  assertCircuitBreakerOptions,
+  type CircuitBreakerOptions,
+} from "./circuit-breaker.ts";
+import {
+  assertClockSyncOptions,
+  ClockSync,
+  type ClockSyncOptions,
+} from "./clock-sync.ts";
+import {
+  assertCompressionOptions,
+  Compressor,
+  compressWithStream,
+  type CompressionEncoding,
+  type CompressionOptions,
+} from "./compression.ts";
+import {
+  ConsentManager,
+  type ConsentPreferences,
+  type ConsentStatus,
+} from "./consent-manager.ts";
+import {
+  assertDeadLetterQueueOptions,
+  DeadLetterQueue,
+  type DeadLetter,
+  type DeadLetterQueueOptions,
+} from "./dead-letter-queue.ts";
+import {
+  DedupWindow,
+  defaultDedupKey,
+  type DedupOptions,
+  type DedupSnapshot,
+} from "./dedup-window.ts";
+import { DeliveryTracker, EventDeliveryError } from "./delivery-tracker.ts";
 import {
   Dispatcher,
   type BatchOptions,
   type DispatcherConfig,
+  type PriorityOptions,
   type RetryOptions,
 } from "./dispatcher.ts";
 import {
   PREDEFINED_SCHEMA_VERSION,
   type ClickedPayload,
+  type PredefinedEvents,
   type ViewedPayload,
 } from "./event-specs.ts";
 import { EventsNamespace } from "./events-namespace.ts";
 import { HttpClient } from "./http-client.ts";
 import { ConsoleLogger } from "./logger.ts";
 import { MetadataManager } from "./metadata-manager.ts";
+import { MiddlewarePipeline, type Middleware } from "./middleware.ts";
 import { Mutex } from "./mutex.ts";
+import {
+  PayloadValidationError,
+  validateEventPayload,
+  type PayloadValidationMode,
+} from "./payload-validator.ts";
+import {
+  assertRateLimitOptions,
+  RateLimiter,
+  type RateLimitOptions,
+} from "./rate-limiter.ts";
+import {
+  assertRedactionRules,
+  Redactor,
+  webCryptoSha256,
+  type RedactionRule,
+} from "./redactor.ts";
+import {
+  assertRemoteConfigOptions,
+  RemoteConfigLoader,
+  type RemoteConfig,
+  type RemoteConfigOptions,
+  type RemoteConfigSource,
+} from "./remote-config.ts";
+import {
+  assertSamplingOptions,
+  SamplingPolicy,
+  type SamplingOptions,
+} from "./sampling.ts";
+import {
+  assertEncoding,
+  resolveSerializer,
+  type Serializer,
+  type WireEncoding,
+} from "./serializer.ts";
+import {
+  assertSessionOptions,
+  SessionManager,
+  type SessionOptions,
+  type SessionSnapshot,
+} from "./session-manager.ts";
 import {
   createTelemetryHooks,
   type TelemetryHooks,
   type TelemetryOptions,
 } from "./telemetry.ts";
+import { TimerManager } from "./timer-manager.ts";
+import {
+  assertTrackingPlan,
+  createCustomEventsNamespace,
+  type CustomEventsNamespace,
+  type TrackingPlan,
+  type TrackingPlanEntry,
+} from "./tracking-plan.ts";
 import type {
   Event,
+  EventContext,
   EventPayload,
+  EventPriority,
+  GroupTraits,
   Platform,
   SdkInfo,
   UserTraits,
 } from "./types.ts";
 import { IdGenerator } from "./utils.ts";
 
+/**
+ * Outcome of an awaited event: its delivery promise, or the error of an
+ * event dropped before being queued.
+ */
+type DeliveryOutcome = Promise<void> | EventDeliveryError;
+
+/**
+ * Storage item key of the dedup window.
+ */
+const DEDUP_STORAGE_KEY = "dedup_window";
+
+/**
+ * Session fields of an event.
+ */
+type SessionFields = Pick<Event, "sessionId" | "sessionSequence">;
+
 /**
  * Function to sample events before they are enqueued.
  */
@@ -38,7 +142,7 @@ export type EventSampler<
   TMetadata extends Record<string, unknown> = Record<string, unknown>,
 > = (event: Event<TMetadata>) => boolean;
 
-export type { BatchOptions, RetryOptions };
+export type { BatchOptions, PriorityOptions, RetryOptions };
 
 /**
  * Configuration for the Ripple client.
@@ -64,6 +168,33 @@ export type ClientConfig = {
    * Retry options controlling retry attempts, delays, and backoff strategy.
    */
   retryOptions?: RetryOptions;
+  /**
+   * Priority lane options. High-priority events (e.g., `order_completed`)
+   * bypass the bulk buffer and are flushed immediately or on a shorter interval.
+   */
+  priority?: PriorityOptions;
+  /**
+   * Circuit breaker around the HTTP transport. After repeated failed sends,
+   * sends are skipped for a cool-down period while events stay buffered and
+   * persisted, then a single probe batch decides whether to resume.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Opt-in compression of request bodies above a size threshold, sent with
+   * the matching `Content-Encoding` header.
+   */
+  compression?: CompressionOptions;
+  /**
+   * Wire encoding of request bodies, advertised with the `Content-Type` header:
+   * `"json"`, `"ndjson"`, `"compact"` or a custom serializer (default: `"json"`).
+   */
+  encoding?: WireEncoding | Serializer;
+  /**
+   * Dead-letter queue keeping the batches dropped on 4xx responses, with the
+   * status code and response body, in a second storage adapter. They can be
+   * inspected, exported, replayed or purged.
+   */
+  deadLetterQueue?: DeadLetterQueueOptions;
   /**
    * Maximum number of events the in-memory buffer can hold (default: `50`).
    * When limit is exceeded, oldest events are evicted using FIFO policy.
@@ -74,6 +205,29 @@ export type ClientConfig = {
    * Events older than this (based on `issuedAt`) are dropped at flush time.
    */
   eventTtl?: number;
+  /**
+   * Clock-skew correction (default: disabled). Once enabled, the server time
+   * reported by responses is used to estimate the device clock offset, and
+   * later events carry `correctedIssuedAt` alongside the raw `issuedAt`.
+   */
+  clockSyncOptions?: ClockSyncOptions;
+  /**
+   * Opt-in deduplication of events repeated within a time window, keyed by
+   * the per-call `idempotencyKey` or a hash of name plus payload.
+   * Suppressed repeats are dropped with the `"duplicate"` reason.
+   */
+  dedupOptions?: DedupOptions;
+  /**
+   * Token-bucket rate limits, global and per event name.
+   * Excess events are dropped with the `"rate_limited"` reason.
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Automatic session tracking. Events carry `sessionId` and `sessionSequence`,
+   * and `session_started`/`session_ended` events are tracked as sessions
+   * start and expire.
+   */
+  sessionOptions?: SessionOptions;
   /**
    * HTTP adapter for sending events (default: built-in `HttpClient`).
    */
@@ -91,6 +245,39 @@ export type ClientConfig = {
    * Return `true` to keep the event, `false` to drop it.
    */
   eventSampler?: EventSampler;
+  /**
+   * Built-in sampling policies: per event name and per category rates, with
+   * decisions hashed on the user's identity. Kept events carry `sampleRate`.
+   */
+  sampling?: SamplingOptions;
+  /**
+   * Remote configuration fetched on `init()` and periodically after that.
+   * It can override the batching, retry and sampling options, block event
+   * names and disable tracking altogether.
+   */
+  remoteConfig?: RemoteConfigOptions;
+  /**
+   * Consent status applied until `setConsent()` is called (default: `"granted"`).
+   * With `"pending"`, events are held in memory and never persisted until
+   * consent is decided. With `"denied"`, events are dropped.
+   */
+  defaultConsent?: ConsentStatus;
+  /**
+   * Runtime validation of predefined event payloads (default: `"off"`).
+   * With `"drop"`, invalid events are logged and dropped. With `"strict"`,
+   * tracking an invalid event throws a `PayloadValidationError`.
+   */
+  payloadValidation?: PayloadValidationMode;
+  /**
+   * Tracking plan declaring the schema version and optional validator of each
+   * custom event. Its events are exposed as methods of `client.custom`.
+   */
+  trackingPlan?: TrackingPlan;
+  /**
+   * PII redaction rules applied to the payload and metadata of every event
+   * before it reaches the buffer or the storage adapter.
+   */
+  redaction?: RedactionRule[];
   /**
    * Telemetry hooks for production monitoring (fire-and-forget).
    */
@@ -121,20 +308,50 @@ export abstract class Client<
   protected readonly _storage: StorageAdapter;
   protected readonly _logger: LoggerAdapter;
   protected readonly _sampler: EventSampler;
+  protected readonly _timers = new TimerManager();
+  protected readonly _dedup: DedupWindow | null;
+  protected readonly _sessions: SessionManager | null;
 
   readonly #hooks: TelemetryHooks;
+  readonly #middleware: MiddlewarePipeline<TMetadata>;
+  readonly #consent: ConsentManager<TMetadata>;
+  readonly #delivery = new DeliveryTracker();
+  readonly #payloadValidation: PayloadValidationMode;
+  readonly #trackingPlan: TrackingPlan;
+  readonly #dedupKey: NonNullable<DedupOptions["key"]>;
+  readonly #redactor: Redactor | null;
+  readonly #samplingOptions: SamplingOptions | null;
+  readonly #batchOptions: Required<BatchOptions>;
+  readonly #retryOptions: Required<RetryOptions>;
+  readonly #priorities: Map<string, EventPriority>;
+  readonly #rateLimiter: RateLimiter | null;
+  readonly #clock: ClockSync | null;
+  readonly #remoteConfigLoader: RemoteConfigLoader | null;
+  readonly #deadLetters: DeadLetterQueue | null;
+
+  #sampling: SamplingPolicy | null;
+  #remoteConfig: RemoteConfig | null = null;
 
   /**
    * Typed namespace for predefined CDP events.
    */
-  public readonly events: EventsNamespace;
+  public readonly events: EventsNamespace<TMetadata>;
+
+  /**
+   * Typed namespace for the custom events of the tracking plan.
+   */
+  public readonly custom: CustomEventsNamespace<TCustomEvents, TMetadata>;
 
   protected _anonymousId: string;
   protected _userId: string | null = null;
+  protected _groupId: string | null = null;
 
   readonly #initMutex = new Mutex();
+  readonly #dedupMutex = new Mutex();
 
   #initialized = false;
+  #dedupWritePending = false;
+  #rateLimitTripped = false;
   #disposed = false;
 
   /**
@@ -214,6 +431,39 @@ export abstract class Client<
       throw new Error("`maxBufferSize` must be a positive number.");
     }
 
+    if (
+      config.priority?.interval !== undefined &&
+      !(config.priority.interval >= 0)
+    ) {
+      throw new Error("`priority.interval` must be a non-negative number.");
+    }
+
+    for (const [name, priority] of Object.entries(
+      config.priority?.events ?? {},
+    )) {
+      if (!["normal", "high"].includes(priority)) {
+        throw new Error(
+          `\`priority.events.${name}\` must be one of "normal" or "high".`,
+        );
+      }
+    }
+
+    if (config.dedupOptions !== undefined) {
+      const { window, key, maxKeys } = config.dedupOptions;
+
+      if (typeof window !== "number" || window <= 0) {
+        throw new Error("`dedupOptions.window` must be a positive number.");
+      }
+
+      if (key !== undefined && typeof key !== "function") {
+        throw new Error("`dedupOptions.key` must be a function.");
+      }
+
+      if (maxKeys !== undefined && maxKeys <= 0) {
+        throw new Error("`dedupOptions.maxKeys` must be a positive number.");
+      }
+    }
+
     if (
       config.eventSampler !== undefined &&
       typeof config.eventSampler !== "function"
@@ -221,6 +471,81 @@ export abstract class Client<
       throw new Error("`eventSampler` must be a function.");
     }
 
+    if (
+      config.defaultConsent !== undefined &&
+      !["granted", "pending", "denied"].includes(config.defaultConsent)
+    ) {
+      throw new Error(
+        '`defaultConsent` must be one of "granted", "pending" or "denied".',
+      );
+    }
+
+    if (
+      config.payloadValidation !== undefined &&
+      !["off", "drop", "strict"].includes(config.payloadValidation)
+    ) {
+      throw new Error(
+        '`payloadValidation` must be one of "off", "drop" or "strict".',
+      );
+    }
+
+    if (config.rateLimit !== undefined) {
+      assertRateLimitOptions(config.rateLimit);
+    }
+
+    if (config.circuitBreaker !== undefined) {
+      assertCircuitBreakerOptions(config.circuitBreaker);
+    }
+
+    if (config.encoding !== undefined) {
+      assertEncoding(config.encoding);
+    }
+
+    if (config.compression !== undefined) {
+      assertCompressionOptions(config.compression);
+    }
+
+    if (config.deadLetterQueue !== undefined) {
+      assertDeadLetterQueueOptions(config.deadLetterQueue);
+
+      // Both would overwrite each other's events under the same key
+      if (config.deadLetterQueue.storage === config.storageAdapter) {
+        throw new Error(
+          "`deadLetterQueue.storage` must be a different instance from `storageAdapter`.",
+        );
+      }
+    }
+
+    if (config.clockSyncOptions !== undefined) {
+      assertClockSyncOptions(config.clockSyncOptions);
+    }
+
+    if (config.sessionOptions !== undefined) {
+      assertSessionOptions(config.sessionOptions);
+    }
+
+    if (config.sampling !== undefined) {
+      assertSamplingOptions(config.sampling);
+    }
+
+    if (config.remoteConfig !== undefined) {
+      assertRemoteConfigOptions(config.remoteConfig);
+
+      if (config.httpAdapter && typeof config.httpAdapter.get !== "function") {
+        throw new Error(
+          "`httpAdapter.get` must be a function to use `remoteConfig`.",
+        );
+      }
+    }
+
+    if (config.redaction !== undefined) {
+      assertRedactionRules(config.redaction);
+    }
+
+    if (config.trackingPlan !== undefined) {
+      assertTrackingPlan(config.trackingPlan);
+    }
+
     const {
       apiKey,
       endpoint,
@@ -230,6 +555,9 @@ export abstract class Client<
       eventSampler = () => true,
       maxBufferSize = 50,
       eventTtl = null,
+      defaultConsent = "granted",
+      payloadValidation = "off",
+      trackingPlan = {},
       telemetryOptions = null,
       apiKeyHeader = "X-API-Key",
       loggerAdapter = new ConsoleLogger(LogLevel.WARN),
@@ -249,41 +577,105 @@ export abstract class Client<
     } = config.retryOptions ?? {};
 
     this._sampler = eventSampler;
+    this.#priorities = new Map(Object.entries(config.priority?.events ?? {}));
+    this.#clock = config.clockSyncOptions?.enabled
+      ? new ClockSync(config.clockSyncOptions)
+      : null;
+    this.#rateLimiter = config.rateLimit
+      ? new RateLimiter(config.rateLimit)
+      : null;
+    this.#samplingOptions = config.sampling ?? null;
+    this.#sampling = config.sampling
+      ? new SamplingPolicy(config.sampling)
+      : null;
+    this.#payloadValidation = payloadValidation;
+    this.#trackingPlan = trackingPlan;
+    this.#dedupKey = config.dedupOptions?.key ?? defaultDedupKey;
+    this._dedup = config.dedupOptions
+      ? new DedupWindow(
+          config.dedupOptions.window,
+          config.dedupOptions.maxKeys ?? 1000,
+        )
+      : null;
+    this._sessions = config.sessionOptions
+      ? new SessionManager(config.sessionOptions)
+      : null;
     this._anonymousId = this._generateAnonymousId();
     this._logger = loggerAdapter;
+    this.#redactor =
+      config.redaction && config.redaction.length > 0
+        ? new Redactor(
+            config.redaction,
+            value => this._sha256(value),
+            this._logger,
+          )
+        : null;
     this.events = new EventsNamespace(this);
+    this.custom = createCustomEventsNamespace(
+      trackingPlan,
+      this._trackInternal.bind(this),
+    );
     this._metadataManager = new MetadataManager<TMetadata>();
     this._storage = storageAdapter;
+    this.#deadLetters = config.deadLetterQueue
+      ? new DeadLetterQueue(config.deadLetterQueue, this._logger)
+      : null;
+    this.#middleware = new MiddlewarePipeline<TMetadata>(this._logger);
+    this.#consent = new ConsentManager<TMetadata>(
+      defaultConsent,
+      maxBufferSize,
+    );
 
     this.#hooks = createTelemetryHooks(hooks, telemetryOptions, {
       apiKey,
       apiKeyHeader,
       getUserId: this.getUserId.bind(this),
-      getMetadata: this.getMetadata.bind(this),
+      getGroupId: this.getGroupId.bind(this),
+      getMetadata: async () =>
+        this.#redactor
+          ? await this.#redactor.redactMetadata(this.getMetadata())
+          : this.getMetadata(),
       getAnonymousId: this.getAnonymousId.bind(this),
       getPlatform: this._getPlatform.bind(this),
       getSdk: this._getSdkInfo.bind(this),
+      getConsentStatus: this.getConsentStatus.bind(this),
     });
 
+    this.#batchOptions = {
+      interval: batchInterval,
+      size: batchSize,
+      maxPayloadSize: batchMaxPayloadSize,
+    };
+    this.#retryOptions = {
+      maxAttempts: retryMaxAttempts,
+      minDelay: retryMinDelay,
+      maxDelay: retryMaxDelay,
+      backoffFactor: retryBackoffFactor,
+    };
+
     const dispatcherConfig: DispatcherConfig = {
       apiKey,
       endpoint,
       apiKeyHeader,
       maxBufferSize,
       eventTtl,
-      batchOptions: {
-        interval: batchInterval,
-        size: batchSize,
-        maxPayloadSize: batchMaxPayloadSize,
-      },
-      retryOptions: {
-        maxAttempts: retryMaxAttempts,
-        minDelay: retryMinDelay,
-        maxDelay: retryMaxDelay,
-        backoffFactor: retryBackoffFactor,
-      },
+      batchOptions: this.#batchOptions,
+      retryOptions: this.#retryOptions,
+      priorityInterval: config.priority?.interval ?? 0,
       hooks: this.#hooks,
       logger: this._logger,
+      delivery: this.#delivery,
+      clock: this.#clock,
+      circuitBreaker: config.circuitBreaker ?? null,
+      compressor: config.compression
+        ? new Compressor(
+            config.compression,
+            (data, encoding) => this._compress(data, encoding),
+            this._logger,
+          )
+        : null,
+      serializer: resolveSerializer(config.encoding ?? "json"),
+      deadLetters: this.#deadLetters,
     };
 
     this._dispatcher = new Dispatcher<TMetadata>(
@@ -291,6 +683,18 @@ export abstract class Client<
       httpAdapter,
       storageAdapter,
     );
+
+    // The HTTP adapter is checked to implement `get()` with the options
+    this.#remoteConfigLoader = config.remoteConfig
+      ? new RemoteConfigLoader(
+          config.remoteConfig,
+          { [apiKeyHeader]: apiKey },
+          httpAdapter as Required<Pick<HttpAdapter, "get">>,
+          storageAdapter,
+          this._logger,
+          this.#applyRemoteConfig.bind(this),
+        )
+      : null;
   }
 
   /**
@@ -319,38 +723,191 @@ export abstract class Client<
    */
   protected abstract _getPlatform(): Platform | null;
 
+  /**
+   * Hash a string with SHA-256 for the `"hash"` redaction action.
+   * Uses the Web Crypto API by default; can be overridden by subclasses.
+   *
+   * @param value The string to hash
+   * @returns The hex-encoded hash
+   */
+  protected _sha256(value: string): Promise<string> {
+    return webCryptoSha256(value);
+  }
+
+  /**
+   * Compress a request body for the `compression` option.
+   * Uses the Compression Streams API by default; can be overridden by subclasses.
+   *
+   * @param data The serialized body
+   * @param encoding The compression format
+   * @returns The compressed bytes
+   */
+  protected _compress(
+    data: string,
+    encoding: CompressionEncoding,
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    return compressWithStream(data, encoding);
+  }
+
   /**
    * Identify a user and associate traits with their profile.
+   * When a per-call context is provided, the shared user ID is left untouched.
    *
    * @param userId The authenticated user's unique identifier
    * @param traits User profile attributes (e.g., name, email)
+   * @param context Optional per-call overrides for this event only
    */
-  public async identify(userId: string, traits: UserTraits): Promise<void> {
-    this._userId = userId;
+  public async identify(
+    userId: string,
+    traits: UserTraits,
+    context?: EventContext<TMetadata>,
+  ): Promise<void> {
+    if (!context) this._userId = userId;
 
     return this._trackInternal(
       "user_identified",
       { userId, traits },
       PREDEFINED_SCHEMA_VERSION,
+      { ...context, userId },
+    );
+  }
+
+  /**
+   * Associate the user with a group/account (e.g., an organization).
+   * All subsequent events carry the `groupId`.
+   * When a per-call context is provided, the shared group ID is left untouched.
+   *
+   * @param groupId The group's unique identifier
+   * @param traits Group profile attributes (e.g., name, plan)
+   * @param context Optional per-call overrides for this event only
+   */
+  public async group(
+    groupId: string,
+    traits: GroupTraits,
+    context?: EventContext<TMetadata>,
+  ): Promise<void> {
+    if (!context) this._groupId = groupId;
+
+    return this._trackInternal(
+      "group_identified",
+      { groupId, traits },
+      PREDEFINED_SCHEMA_VERSION,
+      { ...context, groupId },
+    );
+  }
+
+  /**
+   * Associate a previous identifier with a new one.
+   * Sends a `user_aliased` event so pre-login activity can be stitched to the
+   * account. Does not change the client's identity.
+   *
+   * @param previousId The identifier the user was previously known by
+   * @param newId The new identifier to associate with the previous one
+   * @param context Optional per-call overrides for this event only
+   */
+  public async alias(
+    previousId: string,
+    newId: string,
+    context?: EventContext<TMetadata>,
+  ): Promise<void> {
+    return this._trackInternal(
+      "user_aliased",
+      { previousId, newId },
+      PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
+  /**
+   * Reset the client's identity, e.g., when a user logs out.
+   * Rotates the anonymous ID and clears the user and group IDs. The current
+   * session ends and the next event starts a new one. Queued events and the
+   * dispatcher are left untouched.
+   */
+  public reset(): void {
+    const session = this._sessions?.serialize() ?? null;
+
+    if (this._sessions && session) {
+      const ended = this.#createSessionEndedEvent(session);
+
+      this._sessions.clear();
+      this._onSessionChange();
+      this.#emit(ended, null).catch((err: unknown) => {
+        this._logger.error("Failed to track the session end", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+    }
+
+    this._anonymousId = this._generateAnonymousId();
+    this._userId = null;
+    this._groupId = null;
+  }
+
+  /**
+   * Start a timer for an event name.
+   * The next tracked event with that name and identity carries the elapsed
+   * time as `durationMs`. Calling it again for the same name and identity
+   * restarts the timer.
+   *
+   * @param name Event name to time
+   * @param context Optional per-call identity to time the event for, matching
+   * the context of the tracked event
+   */
+  public time(
+    name: (keyof TCustomEvents | keyof PredefinedEvents) & string,
+    context?: Pick<EventContext<TMetadata>, "anonymousId" | "userId">,
+  ): void {
+    this._timers.start(this.#timerKey(name, context));
+    this._onTimersChange();
+  }
+
+  /**
+   * Called whenever event timers are started or consumed.
+   * Can be overridden by subclasses to persist timers.
+   */
+  protected _onTimersChange(): void {}
+
+  /**
+   * Called whenever the current session starts, advances or ends.
+   * Can be overridden by subclasses to persist the session.
+   */
+  protected _onSessionChange(): void {}
+
   /**
    * Track a click interaction on a UI element.
    *
    * @param payload Click event data including element identifier
+   * @param context Optional per-call overrides for this event only
    */
-  public async clicked(payload: ClickedPayload): Promise<void> {
-    return this._trackInternal("clicked", payload, PREDEFINED_SCHEMA_VERSION);
+  public async clicked(
+    payload: ClickedPayload,
+    context?: EventContext<TMetadata>,
+  ): Promise<void> {
+    return this._trackInternal(
+      "clicked",
+      payload,
+      PREDEFINED_SCHEMA_VERSION,
+      context,
+    );
   }
 
   /**
    * Track a view impression of a UI element.
    *
    * @param payload View event data including element identifier
+   * @param context Optional per-call overrides for this event only
    */
-  public async viewed(payload: ViewedPayload): Promise<void> {
-    return this._trackInternal("viewed", payload, PREDEFINED_SCHEMA_VERSION);
+  public async viewed(
+    payload: ViewedPayload,
+    context?: EventContext<TMetadata>,
+  ): Promise<void> {
+    return this._trackInternal(
+      "viewed",
+      payload,
+      PREDEFINED_SCHEMA_VERSION,
+      context,
+    );
   }
 
   /**
@@ -360,16 +917,19 @@ export abstract class Client<
    * @param name Event name
    * @param payload Event payload
    * @param schemaVersion Schema version
+   * @param context Optional per-call overrides for this event only
    */
   protected async _trackInternal(
     name: string,
     payload: EventPayload,
     schemaVersion: string,
+    context?: EventContext<TMetadata>,
   ): Promise<void> {
     return this.track(
       name,
       payload as TCustomEvents[keyof TCustomEvents],
       schemaVersion,
+      context,
     );
   }
 
@@ -379,36 +939,567 @@ export abstract class Client<
    *
    * @param name Event name/identifier
    * @param payload Event data payload
-   * @param schemaVersion Event schema version
+   * @param schemaVersion Event schema version (default: the version declared
+   * in the tracking plan, if any)
+   * @param context Optional per-call overrides (identity, metadata, issuedAt)
+   * applied to this event only, without changing the client's shared state
+   * @throws {PayloadValidationError} When the payload of a predefined or
+   * tracking plan event is invalid and `payloadValidation` is `"strict"`
    */
   public async track<K extends keyof TCustomEvents>(
     name: K,
     payload?: TCustomEvents[K],
     schemaVersion?: string,
+    context?: EventContext<TMetadata>,
+  ): Promise<void> {
+    await this.#track(name as string, payload, schemaVersion, context, null);
+  }
+
+  /**
+   * Track an event and wait for the server to acknowledge it.
+   * Resolves once the batch containing the event receives a 2xx response.
+   *
+   * @param name Event name/identifier
+   * @param payload Event data payload
+   * @param schemaVersion Event schema version (default: the version declared
+   * in the tracking plan, if any)
+   * @param context Optional per-call overrides (identity, metadata, issuedAt)
+   * applied to this event only, without changing the client's shared state
+   * @throws {EventDeliveryError} When the event is dropped (sampled, 4xx,
+   * expired, max retries, ...) or the client is disposed before delivery
+   * @throws {PayloadValidationError} When the payload of a predefined or
+   * tracking plan event is invalid and `payloadValidation` is `"strict"`
+   */
+  public async trackAndConfirm<K extends keyof TCustomEvents>(
+    name: K,
+    payload?: TCustomEvents[K],
+    schemaVersion?: string,
+    context?: EventContext<TMetadata>,
+  ): Promise<void> {
+    const outcomes: DeliveryOutcome[] = [];
+
+    await this.#track(
+      name as string,
+      payload,
+      schemaVersion,
+      context,
+      outcomes,
+    );
+
+    await Promise.all(
+      outcomes.map(outcome =>
+        outcome instanceof EventDeliveryError
+          ? Promise.reject(outcome)
+          : outcome,
+      ),
+    );
+  }
+
+  /**
+   * Build an event and run it through sampling, middlewares, and consent.
+   *
+   * @param name Event name/identifier
+   * @param payload Event data payload
+   * @param schemaVersion Event schema version
+   * @param context Optional per-call overrides
+   * @param outcomes Collects a delivery promise per dispatched event and an
+   * error per dropped event, or null when delivery is not awaited
+   */
+  async #track(
+    name: string,
+    payload: EventPayload | undefined,
+    schemaVersion: string | undefined,
+    context: EventContext<TMetadata> | undefined,
+    outcomes: DeliveryOutcome[] | null,
   ): Promise<void> {
     if (this.#disposed) {
       this._logger.warn("Cannot track event: Client has been disposed");
+      outcomes?.push(new EventDeliveryError("disposed"));
+
+      return;
+    }
+
+    if (this.#consent.getStatus() === "denied") {
+      this.#hooks.onDrop?.({ eventCount: 1, reason: "no_consent" });
+      outcomes?.push(new EventDeliveryError("no_consent"));
+
+      return;
+    }
+
+    if (!this.#validatePayload(name, payload)) {
+      outcomes?.push(new EventDeliveryError("invalid"));
 
       return;
     }
 
     await this.init();
 
+    // Only recorded once the event passes the rate limits, the blocklist and
+    // sampling, so a retry of a dropped event isn't a duplicate
+    const dedupKey = this._dedup
+      ? await this.#hashDedupKey(name, payload, context)
+      : null;
+
+    if (dedupKey !== null && this._dedup?.has(dedupKey)) {
+      this.#hooks.onDrop?.({ eventCount: 1, reason: "duplicate" });
+      outcomes?.push(new EventDeliveryError("duplicate"));
+
+      return;
+    }
+
+    if (this.#isRateLimited(name)) {
+      this.#hooks.onDrop?.({ eventCount: 1, reason: "rate_limited" });
+      outcomes?.push(new EventDeliveryError("rate_limited"));
+
+      return;
+    }
+
+    const durationMs = this._timers.stop(this.#timerKey(name, context));
+
+    if (durationMs !== null) this._onTimersChange();
+
+    const session = await this.#resolveSession(context);
+
     const event: Event<TMetadata> = {
+      ...this.#createEvent(
+        name,
+        payload ?? null,
+        schemaVersion ?? this.#getPlanEntry(name)?.schemaVersion ?? null,
+        context,
+        session,
+      ),
+      ...(durationMs !== null && { durationMs }),
+    };
+
+    return this.#emit(event, outcomes, dedupKey);
+  }
+
+  /**
+   * Resolve the identity of an event, per-call context first, then the
+   * shared IDs.
+   *
+   * @param context Per-call event context
+   * @returns The identity fields of the event
+   */
+  #resolveIdentity(
+    context: EventContext<TMetadata> | undefined,
+  ): Pick<Event, "anonymousId" | "userId" | "groupId"> {
+    return {
+      anonymousId: context?.anonymousId ?? this._anonymousId,
+      userId: context?.userId === undefined ? this._userId : context.userId,
+      groupId: context?.groupId === undefined ? this._groupId : context.groupId,
+    };
+  }
+
+  /**
+   * Key of the timer of an event. Timers of the shared identity are keyed by
+   * name only, so they survive `identify()`, while timers of a per-call
+   * identity are keyed by that identity too.
+   *
+   * @param name The event name
+   * @param context Optional per-call overrides, possibly holding an identity
+   * @returns The timer key
+   */
+  #timerKey(
+    name: string,
+    context:
+      | Pick<EventContext<TMetadata>, "anonymousId" | "userId">
+      | undefined,
+  ): string {
+    if (context?.anonymousId === undefined && context?.userId === undefined) {
+      return name;
+    }
+
+    const { userId, anonymousId } = this.#resolveIdentity(context);
+
+    return JSON.stringify([userId, anonymousId, name]);
+  }
+
+  /**
+   * Build an event attributed to the shared identity, unless overridden by
+   * the per-call context.
+   *
+   * @param name The event name
+   * @param payload The event payload
+   * @param schemaVersion The schema version
+   * @param context Optional per-call overrides for this event only
+   * @param session The session fields of the event
+   * @returns The event, carrying its priority when high
+   */
+  #createEvent(
+    name: string,
+    payload: EventPayload | null,
+    schemaVersion: string | null,
+    context: EventContext<TMetadata> | undefined,
+    session: SessionFields,
+  ): Event<TMetadata> {
+    const clockOffset = this.#clock?.getOffset() ?? null;
+    const issuedAt = context?.issuedAt ?? Date.now();
+    const priority = context?.priority ?? this.#priorities.get(name);
+
+    return {
       eventId: IdGenerator.generate(),
-      anonymousId: this._anonymousId,
-      userId: this._userId,
-      name: name as string,
-      schemaVersion: schemaVersion ?? null,
-      payload: payload ?? null,
-      issuedAt: Date.now(),
-      metadata: this.getMetadata(),
+      ...this.#resolveIdentity(context),
+      ...session,
+      name,
+      schemaVersion,
+      payload,
+      issuedAt,
+      ...(clockOffset !== null && {
+        correctedIssuedAt: issuedAt + clockOffset,
+      }),
+      metadata: this.#resolveMetadata(context?.metadata),
       sdk: this._getSdkInfo(),
       platform: this._getPlatform(),
+      ...(priority === "high" && { priority }),
     };
+  }
+
+  /**
+   * Resolve the session of an event. Tracks `session_ended` when the current
+   * session expired and `session_started` when a new one starts, before the
+   * event itself.
+   *
+   * @param context Optional per-call overrides, possibly holding a session ID
+   * @returns The session fields of the event
+   */
+  async #resolveSession(
+    context: EventContext<TMetadata> | undefined,
+  ): Promise<SessionFields> {
+    if (context?.sessionId !== undefined) {
+      return { sessionId: context.sessionId, sessionSequence: null };
+    }
+
+    if (!this._sessions) return { sessionId: null, sessionSequence: null };
 
-    if (!this._sampler(event)) {
+    const now = Date.now();
+    const { ended, started } = this._sessions.touch(now);
+    const lifecycle: Event<TMetadata>[] = [];
+
+    // Stamp lifecycle events before awaiting so concurrent events can't
+    // take their sequence numbers
+    if (ended) lifecycle.push(this.#createSessionEndedEvent(ended));
+
+    if (started) {
+      lifecycle.push(
+        this.#createEvent(
+          "session_started",
+          ended ? { previousSessionId: ended.id } : {},
+          PREDEFINED_SCHEMA_VERSION,
+          { issuedAt: started.startedAt },
+          this._sessions.next(now),
+        ),
+      );
+    }
+
+    const session = this._sessions.next(now);
+
+    this._onSessionChange();
+
+    for (const event of lifecycle) {
+      await this.#emit(event, null);
+    }
+
+    return session;
+  }
+
+  /**
+   * Build the `session_ended` event of a session, issued at its last activity.
+   *
+   * @param session The ended session
+   * @returns The event
+   */
+  #createSessionEndedEvent(session: SessionSnapshot): Event<TMetadata> {
+    return this.#createEvent(
+      "session_ended",
+      {
+        durationMs: session.lastActivityAt - session.startedAt,
+        eventCount: session.sequence,
+      },
+      PREDEFINED_SCHEMA_VERSION,
+      { issuedAt: session.lastActivityAt },
+      { sessionId: session.id, sessionSequence: session.sequence + 1 },
+    );
+  }
+
+  /**
+   * Check whether the remote config blocks an event.
+   *
+   * @param name The event name
+   * @returns Whether tracking is disabled or the event name is blocked
+   */
+  #isBlocked(name: string): boolean {
+    const config = this.#remoteConfig;
+
+    if (!config) return false;
+
+    return config.disabled === true || !!config.blockedEvents?.includes(name);
+  }
+
+  /**
+   * Apply a validated remote config over the local configuration.
+   * Omitted fields fall back to the local options.
+   *
+   * @param config The remote config
+   * @param source Where the config came from
+   * @throws {Error} When the batch size exceeds the buffer size
+   */
+  #applyRemoteConfig(config: RemoteConfig, source: RemoteConfigSource): void {
+    if (JSON.stringify(config) === JSON.stringify(this.#remoteConfig)) return;
+
+    this._dispatcher.configure(
+      { ...this.#batchOptions, ...config.batchOptions },
+      { ...this.#retryOptions, ...config.retryOptions },
+    );
+
+    const sampling = config.sampling ?? this.#samplingOptions;
+
+    this.#sampling = sampling ? new SamplingPolicy(sampling) : null;
+    this.#remoteConfig = config;
+    this.#hooks.onConfigChange?.({ config, source });
+  }
+
+  /**
+   * Apply sampling and middleware to a built event, then dispatch it.
+   *
+   * @param event The event
+   * @param outcomes Collects delivery outcomes when the caller awaits delivery
+   * @param dedupKey Dedup key recorded once the event is kept, if any
+   */
+  async #emit(
+    event: Event<TMetadata>,
+    outcomes: DeliveryOutcome[] | null,
+    dedupKey: string | null = null,
+  ): Promise<void> {
+    if (this.#isBlocked(event.name)) {
+      this.#hooks.onDrop?.({ eventCount: 1, reason: "blocked" });
+      outcomes?.push(new EventDeliveryError("blocked", event.eventId));
+
+      return;
+    }
+
+    // Rated when emitted, as a remote config may have replaced the policy
+    // since the event was built
+    const sampling = this.#sampling;
+    const sampleRate = sampling?.getRate(event.name) ?? null;
+
+    if (sampleRate !== null) event.sampleRate = sampleRate;
+
+    if (
+      (sampleRate !== null && sampling?.keeps(event, sampleRate) === false) ||
+      !this._sampler(event)
+    ) {
       this.#hooks.onDrop?.({ eventCount: 1, reason: "sampled" });
+      outcomes?.push(new EventDeliveryError("sampled", event.eventId));
+
+      return;
+    }
+
+    if (dedupKey !== null && this._dedup) {
+      this._dedup.add(dedupKey);
+      void this.#persistDedup();
+    }
+
+    if (this.#middleware.isEmpty()) return this.#dispatch(event, outcomes);
+
+    const { events, dropped } = await this.#middleware.run(event);
+
+    for (const detail of dropped) {
+      this.#hooks.onDrop?.({
+        eventCount: 1,
+        reason: "middleware",
+        ...(detail !== null && { detail }),
+      });
+
+      outcomes?.push(new EventDeliveryError("middleware", event.eventId));
+    }
+
+    for (const processed of events) {
+      await this.#dispatch(processed, outcomes);
+    }
+  }
+
+  /**
+   * Compute the dedup key of an event. Keys are scoped by the resolved
+   * identity, unless an idempotency key is given.
+   *
+   * @param name The event name
+   * @param payload The event payload
+   * @param context Optional per-call overrides holding the idempotency key
+   * @returns The key, hashed so the persisted window never holds raw payloads
+   */
+  async #hashDedupKey(
+    name: string,
+    payload: EventPayload | undefined,
+    context: EventContext<TMetadata> | undefined,
+  ): Promise<string> {
+    const { userId, anonymousId } = this.#resolveIdentity(context);
+    const key =
+      context?.idempotencyKey ??
+      JSON.stringify([
+        userId,
+        anonymousId,
+        this.#dedupKey(name, payload ?? null),
+      ]);
+
+    return await this._sha256(key);
+  }
+
+  /**
+   * Restore the dedup window persisted through the storage adapter.
+   */
+  async #restoreDedup(): Promise<void> {
+    if (!this._dedup) return;
+
+    try {
+      const saved = await this._storage.loadItem?.(DEDUP_STORAGE_KEY);
+
+      if (saved) this._dedup.restore(JSON.parse(saved) as DedupSnapshot);
+    } catch (err) {
+      this._logger.warn("Failed to restore the dedup window", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * Persist the dedup window through the storage adapter, so restores
+   * don't resend suppressed events. Writes run one at a time, and a write
+   * waiting for its turn saves every change made in the meantime.
+   */
+  async #persistDedup(): Promise<void> {
+    if (this.#dedupWritePending) return;
+
+    this.#dedupWritePending = true;
+
+    await this.#dedupMutex.runAtomic(async () => {
+      this.#dedupWritePending = false;
+
+      try {
+        await this._storage.saveItem?.(
+          DEDUP_STORAGE_KEY,
+          JSON.stringify(this._dedup!.serialize()),
+        );
+      } catch (err) {
+        this._logger.warn("Failed to persist the dedup window", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    });
+  }
+
+  /**
+   * Check whether an event exceeds the rate limits.
+   * Warns once, the first time the limiter trips.
+   *
+   * @param name The event name
+   * @returns Whether the event is to be dropped
+   */
+  #isRateLimited(name: string): boolean {
+    if (!this.#rateLimiter || this.#rateLimiter.tryAcquire(name)) return false;
+
+    if (!this.#rateLimitTripped) {
+      this.#rateLimitTripped = true;
+      this._logger.warn("Rate limit exceeded, dropping events", { name });
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the tracking plan declaration of an event.
+   *
+   * @param name The event name
+   * @returns The plan entry, or null if the event isn't in the tracking plan
+   */
+  #getPlanEntry(name: string): TrackingPlanEntry | null {
+    if (!Object.prototype.hasOwnProperty.call(this.#trackingPlan, name)) {
+      return null;
+    }
+
+    return this.#trackingPlan[name]!;
+  }
+
+  /**
+   * Validate a predefined or tracking plan event payload according to the
+   * validation mode.
+   *
+   * @param name The event name
+   * @param payload The event payload
+   * @returns Whether the event should be tracked
+   * @throws {PayloadValidationError} When the payload is invalid in strict mode
+   */
+  #validatePayload(name: string, payload: EventPayload | undefined): boolean {
+    if (this.#payloadValidation === "off") return true;
+
+    const validate = this.#getPlanEntry(name)?.validate;
+    const issues = validate
+      ? validate(payload ?? {})
+      : validateEventPayload(name, payload ?? null);
+
+    if (issues.length === 0) return true;
+
+    if (this.#payloadValidation === "strict") {
+      throw new PayloadValidationError(name, issues);
+    }
+
+    this._logger.warn("Invalid event payload, dropping event", {
+      name,
+      issues,
+    });
+
+    this.#hooks.onDrop?.({ eventCount: 1, reason: "invalid" });
+
+    return false;
+  }
+
+  /**
+   * Redact a processed event and route it according to the current consent
+   * status. Re-checked here since consent may change while middlewares run.
+   *
+   * @param processed The event to dispatch
+   * @param outcomes Collects the delivery promise or the drop error,
+   * or null when delivery is not awaited
+   */
+  async #dispatch(
+    processed: Event<TMetadata>,
+    outcomes: DeliveryOutcome[] | null,
+  ): Promise<void> {
+    const event = this.#redactor
+      ? await this.#redactor.redact(processed)
+      : processed;
+
+    return this.#route(event, outcomes);
+  }
+
+  /**
+   * Route an event according to the current consent status: enqueue it, hold
+   * it until consent is decided or drop it.
+   *
+   * @param event The event to route
+   * @param outcomes Collects the delivery promise or the drop error,
+   * or null when delivery is not awaited
+   */
+  async #route(
+    event: Event<TMetadata>,
+    outcomes: DeliveryOutcome[] | null,
+  ): Promise<void> {
+    const status = this.#consent.getStatus();
+
+    if (status === "denied") {
+      this.#hooks.onDrop?.({ eventCount: 1, reason: "no_consent" });
+      outcomes?.push(new EventDeliveryError("no_consent", event.eventId));
+
+      return;
+    }
+
+    // Registered before enqueueing since delivery may complete within `enqueue()`
+    if (outcomes) outcomes.push(this.#delivery.wait(event.eventId));
+
+    if (status === "pending") {
+      const evicted = this.#consent.hold(event);
+
+      if (evicted) this.#delivery.reject([evicted], "evicted");
 
       return;
     }
@@ -416,6 +1507,83 @@ export abstract class Client<
     return this._dispatcher.enqueue(event);
   }
 
+  /**
+   * Set the user's consent preferences.
+   * Granting `analytics` releases pending events to the dispatcher.
+   * Denying it purges pending events and turns `track()` into a no-op.
+   *
+   * @param preferences Consent preferences per purpose
+   */
+  public async setConsent(preferences: ConsentPreferences): Promise<void> {
+    const pending = this.#consent.set(preferences);
+
+    if (this.#consent.getStatus() === "denied") {
+      if (pending.length > 0) {
+        this.#hooks.onDrop?.({
+          eventCount: pending.length,
+          reason: "no_consent",
+        });
+
+        this.#delivery.reject(pending, "no_consent");
+      }
+
+      return;
+    }
+
+    for (const event of pending) {
+      await this._dispatcher.enqueue(event);
+    }
+  }
+
+  /**
+   * Get the consent preferences last set via `setConsent()`.
+   *
+   * @returns Consent preferences or null if consent is not yet known
+   */
+  public getConsent(): ConsentPreferences | null {
+    return this.#consent.getPreferences();
+  }
+
+  /**
+   * Get the current consent status.
+   *
+   * @returns The consent status
+   */
+  public getConsentStatus(): ConsentStatus {
+    return this.#consent.getStatus();
+  }
+
+  /**
+   * Register a middleware that runs on every event before it is enqueued.
+   * Middlewares run in registration order, after the event sampler.
+   *
+   * @param middleware Function that enriches, transforms, or drops events
+   * @returns A function that unregisters the middleware
+   */
+  public use(middleware: Middleware<TMetadata>): () => void {
+    if (typeof middleware !== "function") {
+      throw new Error("`middleware` must be a function.");
+    }
+
+    return this.#middleware.use(middleware);
+  }
+
+  /**
+   * Merge per-call metadata overrides over the shared metadata.
+   *
+   * @param overrides Metadata overrides for a single event
+   * @returns The metadata to attach to the event
+   */
+  #resolveMetadata(
+    overrides: Partial<TMetadata> | undefined,
+  ): Partial<TMetadata> | null {
+    const shared = this.getMetadata();
+
+    if (!overrides) return shared;
+
+    return { ...shared, ...overrides };
+  }
+
   /**
    * Set a shared metadata value.
    * This metadata will be attached to all subsequent events.
@@ -458,6 +1626,24 @@ export abstract class Client<
     return this._userId;
   }
 
+  /**
+   * Get the group ID.
+   *
+   * @returns Group ID or null if not set
+   */
+  public getGroupId(): string | null {
+    return this._groupId;
+  }
+
+  /**
+   * Get the ID of the current session.
+   *
+   * @returns Session ID or null if session tracking is disabled or no event was tracked yet
+   */
+  public getSessionId(): string | null {
+    return this._sessions?.getSessionId() ?? null;
+  }
+
   /**
    * Immediately flush all queued events.
    */
@@ -465,6 +1651,54 @@ export abstract class Client<
     await this._dispatcher.flush();
   }
 
+  /**
+   * Get the batches dropped on 4xx responses and kept by the dead-letter queue.
+   *
+   * @returns The dead letters, oldest first, or an empty array when the
+   * dead-letter queue is disabled
+   */
+  public async getDeadLetters(): Promise<DeadLetter<TMetadata>[]> {
+    return ((await this.#deadLetters?.list()) ?? []) as DeadLetter<TMetadata>[];
+  }
+
+  /**
+   * Export the dead letters, e.g. to attach them to a support ticket.
+   *
+   * @returns The dead letters as a JSON array
+   */
+  public async exportDeadLetters(): Promise<string> {
+    return JSON.stringify(await this.getDeadLetters());
+  }
+
+  /**
+   * Send the events of dead letters again and remove them from the
+   * dead-letter queue. Events are enqueued as they were sent, without running
+   * the sampler, middlewares or redaction again, and are held or dropped
+   * according to the current consent.
+   *
+   * @param ids IDs of the dead letters to replay, all of them if omitted
+   */
+  public async replayDeadLetters(ids?: string[]): Promise<void> {
+    await this.init();
+
+    const letters = (await this.#deadLetters?.remove(ids)) ?? [];
+
+    for (const letter of letters) {
+      for (const event of letter.events) {
+        await this.#route(event as Event<TMetadata>, null);
+      }
+    }
+  }
+
+  /**
+   * Delete dead letters without sending them.
+   *
+   * @param ids IDs of the dead letters to delete, all of them if omitted
+   */
+  public async purgeDeadLetters(ids?: string[]): Promise<void> {
+    await this.#deadLetters?.remove(ids);
+  }
+
   /**
    * Initialize the client and restore persisted events.
    */
@@ -480,6 +1714,9 @@ export abstract class Client<
       if (this.#initialized) return;
 
       await this._storage.init();
+      await this.#restoreDedup();
+      await this.#deadLetters?.init();
+      await this.#remoteConfigLoader?.start();
       await this._dispatcher.restore();
 
       this.#initialized = true;
@@ -492,10 +1729,17 @@ export abstract class Client<
    */
   public dispose(): void {
     this._dispatcher.dispose();
+    void this.#deadLetters?.close();
+    this.#remoteConfigLoader?.dispose();
     this._metadataManager.clear();
+    this.#consent.clear();
+    this.#delivery.rejectAll("disposed");
+    this._timers.clear();
+    this._sessions?.clear();
     this.#initMutex.release();
 
     this._userId = null;
+    this._groupId = null;
     this.#disposed = true;
     this._anonymousId = "";
     this.#initialized = false;
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertClockSyncOptions,
+  ClockSync,
+  type ClockSyncOptions,
+} from "./clock-sync.ts";
+
+describe("assertClockSyncOptions", () => {
+  it("should accept well-formed options", () => {
+    expect(() =>
+      assertClockSyncOptions({ header: "x-server-time", field: "now" }),
+    ).not.toThrow();
+    expect(() => assertClockSyncOptions({ enabled: true })).not.toThrow();
+  });
+
+  it.each<[ClockSyncOptions, string]>([
+    [
+      { enabled: "yes" as unknown as boolean },
+      "`clockSyncOptions.enabled` must be a boolean.",
+    ],
+    [{ header: "" }, "`clockSyncOptions.header` must be a non-empty string."],
+    [
+      { field: 1 as unknown as string },
+      "`clockSyncOptions.field` must be a non-empty string.",
+    ],
+  ])("should reject %j", (options, message) => {
+    expect(() => assertClockSyncOptions(options)).toThrow(message);
+  });
+});
+
+describe("ClockSync", () => {
+  it("should have no offset until the server time is known", () => {
+    const clock = new ClockSync();
+
+    clock.update({ status: 200 }, 1000, 1200);
+
+    expect(clock.getOffset()).toBeNull();
+  });
+
+  it("should read the server time from the response data", () => {
+    const clock = new ClockSync();
+
+    clock.update({ status: 200, data: { serverTime: 5100 } }, 1000, 1200);
+
+    expect(clock.getOffset()).toBe(4000);
+  });
+
+  it("should read the server time from the Date header", () => {
+    const clock = new ClockSync();
+    const serverTime = Date.parse("Tue, 14 Nov 2023 22:13:20 GMT");
+
+    clock.update(
+      { status: 200, headers: { Date: "Tue, 14 Nov 2023 22:13:20 GMT" } },
+      serverTime - 3000,
+      serverTime - 3000,
+    );
+
+    expect(clock.getOffset()).toBe(3000);
+  });
+
+  it("should prefer the response data over the header", () => {
+    const clock = new ClockSync();
+
+    clock.update(
+      { status: 200, data: { serverTime: 2000 }, headers: { date: "5000" } },
+      1000,
+      1000,
+    );
+
+    expect(clock.getOffset()).toBe(1000);
+  });
+
+  it("should use a custom header and field", () => {
+    const clock = new ClockSync({ header: "X-Server-Time", field: "now" });
+
+    clock.update({ status: 200, headers: { "x-server-time": "3000" } }, 0, 0);
+
+    expect(clock.getOffset()).toBe(3000);
+
+    clock.update({ status: 200, data: { now: "1970-01-01T00:00:01Z" } }, 0, 0);
+
+    expect(clock.getOffset()).toBe(1000);
+  });
+
+  it("should ignore unparsable server times", () => {
+    const clock = new ClockSync();
+
+    clock.update({ status: 200, data: { serverTime: 2000 } }, 1000, 1000);
+
+    for (const data of [
+      { serverTime: "not a date" },
+      { serverTime: "" },
+      { serverTime: Number.NaN },
+      { serverTime: null },
+      "text",
+      null,
+    ]) {
+      clock.update({ status: 200, data }, 0, 0);
+    }
+
+    clock.update({ status: 200, headers: { date: "garbage" } }, 0, 0);
+
+    expect(clock.getOffset()).toBe(1000);
+  });
+
+  it("should fall back to the header when the data field is unparsable", () => {
+    const clock = new ClockSync();
+
+    clock.update(
+      { status: 200, data: { serverTime: "nope" }, headers: { date: "4000" } },
+      1000,
+      1000,
+    );
+
+    expect(clock.getOffset()).toBe(3000);
+  });
+});
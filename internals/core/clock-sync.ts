@@ -0,0 +1,126 @@
+import type { HttpResponse } from "./types.ts";
+
+/**
+ * Options of the clock-skew correction.
+ */
+export type ClockSyncOptions = {
+  /**
+   * Read the server time and correct timestamps (default: `false`).
+   */
+  enabled?: boolean;
+  /**
+   * Response header holding the server time, as UNIX milliseconds or an
+   * HTTP date (default: `"date"`). Case-insensitive.
+   */
+  header?: string;
+  /**
+   * Field of the response data holding the server time, as UNIX milliseconds
+   * or a date string (default: `"serverTime"`). Takes precedence over the header.
+   */
+  field?: string;
+};
+
+/**
+ * Check that clock sync options are well-formed.
+ *
+ * @param options The options to check
+ * @throws {Error} When an option is malformed
+ */
+export const assertClockSyncOptions = (options: ClockSyncOptions): void => {
+  if (options.enabled !== undefined && typeof options.enabled !== "boolean") {
+    throw new Error("`clockSyncOptions.enabled` must be a boolean.");
+  }
+
+  for (const key of ["header", "field"] as const) {
+    const value = options[key];
+
+    if (value !== undefined && (typeof value !== "string" || !value)) {
+      throw new Error(
+        `\`clockSyncOptions.${key}\` must be a non-empty string.`,
+      );
+    }
+  }
+};
+
+/**
+ * Parse a server time value.
+ *
+ * @param value UNIX milliseconds, or a string holding them or a date
+ * @returns The time in UNIX milliseconds, or null if unparsable
+ */
+const parseTime = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+
+  if (typeof value !== "string" || value.trim() === "") return null;
+
+  const time = /^\d+$/.test(value.trim()) ? Number(value) : Date.parse(value);
+
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Estimates the offset between the device clock and the server clock from
+ * the server time reported in responses.
+ */
+export class ClockSync {
+  readonly #header: string;
+  readonly #field: string;
+
+  #offset: number | null = null;
+
+  /**
+   * Create a new ClockSync instance.
+   *
+   * @param options The clock sync options
+   */
+  constructor(options: Omit<ClockSyncOptions, "enabled"> = {}) {
+    this.#header = (options.header ?? "date").toLowerCase();
+    this.#field = options.field ?? "serverTime";
+  }
+
+  /**
+   * Get the estimated clock offset.
+   *
+   * @returns Milliseconds to add to device time to get server time, or null
+   * until a response reported the server time
+   */
+  public getOffset(): number | null {
+    return this.#offset;
+  }
+
+  /**
+   * Update the offset from a response. The server time is assumed to be taken
+   * halfway through the request.
+   *
+   * @param response The response, possibly reporting the server time
+   * @param sentAt Device time when the request was sent
+   * @param receivedAt Device time when the response was received
+   */
+  public update(
+    response: HttpResponse,
+    sentAt: number,
+    receivedAt: number,
+  ): void {
+    const serverTime = this.#readServerTime(response);
+
+    if (serverTime === null) return;
+
+    this.#offset = Math.round(serverTime - (sentAt + receivedAt) / 2);
+  }
+
+  #readServerTime(response: HttpResponse): number | null {
+    const { data, headers = {} } = response;
+
+    if (typeof data === "object" && data !== null && this.#field in data) {
+      const time = parseTime((data as Record<string, unknown>)[this.#field]);
+
+      if (time !== null) return time;
+    }
+
+    const header = Object.keys(headers).find(
+      name => name.toLowerCase() === this.#header,
+    );
+
+    return header === undefined ? null : parseTime(headers[header]);
+  }
+}
@@ -0,0 +1,131 @@
+import { gunzipSync, inflateSync } from "node:zlib";
+import { describe, expect, it, vi } from "vitest";
+import {
+  assertCompressionOptions,
+  Compressor,
+  compressWithStream,
+  type Compress,
+  type CompressionOptions,
+} from "./compression.ts";
+import { NoOpLogger } from "./logger.ts";
+
+const body = JSON.stringify({ events: Array(20).fill({ name: "clicked" }) });
+
+describe("compressWithStream", () => {
+  it("should compress with gzip", async () => {
+    const compressed = await compressWithStream(body, "gzip");
+
+    expect(gunzipSync(compressed).toString()).toBe(body);
+  });
+
+  it("should compress with deflate", async () => {
+    const compressed = await compressWithStream(body, "deflate");
+
+    expect(inflateSync(compressed).toString()).toBe(body);
+  });
+});
+
+describe("assertCompressionOptions", () => {
+  it("should accept well-formed options", () => {
+    expect(() =>
+      assertCompressionOptions({
+        encoding: "deflate",
+        threshold: 0,
+        payloadSize: "compressed",
+      }),
+    ).not.toThrow();
+    expect(() => assertCompressionOptions({})).not.toThrow();
+  });
+
+  it.each<[CompressionOptions, string]>([
+    [
+      { encoding: "br" as "gzip" },
+      '`compression.encoding` must be one of "gzip" or "deflate".',
+    ],
+    [
+      { threshold: -1 },
+      "`compression.threshold` must be a non-negative number.",
+    ],
+    [
+      { payloadSize: "raw" as "compressed" },
+      '`compression.payloadSize` must be one of "uncompressed" or "compressed".',
+    ],
+  ])("should reject %j", (options, message) => {
+    expect(() => assertCompressionOptions(options)).toThrow(message);
+  });
+});
+
+describe("Compressor", () => {
+  const fakeCompress: Compress = data =>
+    Promise.resolve(new Uint8Array(Math.ceil(data.length / 4)));
+
+  it("should compress bodies above the threshold with gzip by default", async () => {
+    const compress = vi.fn(fakeCompress);
+    const compressor = new Compressor({}, compress, new NoOpLogger());
+
+    expect(compressor.getEncoding()).toBe("gzip");
+    await expect(compressor.compress("a".repeat(1023))).resolves.toBeNull();
+    await expect(compressor.compress("a".repeat(1024))).resolves.toHaveLength(
+      256,
+    );
+    expect(compress).toHaveBeenCalledExactlyOnceWith("a".repeat(1024), "gzip");
+  });
+
+  it("should measure bodies in UTF-8 bytes", async () => {
+    const compressor = new Compressor(
+      { payloadSize: "compressed" },
+      fakeCompress,
+      new NoOpLogger(),
+    );
+
+    await expect(compressor.compress("é".repeat(511))).resolves.toBeNull();
+    await expect(compressor.compress("é".repeat(512))).resolves.toHaveLength(
+      128,
+    );
+    expect(compressor.estimateSize(100)).toBe(13);
+  });
+
+  it("should measure uncompressed sizes by default", async () => {
+    const compressor = new Compressor(
+      { threshold: 0 },
+      fakeCompress,
+      new NoOpLogger(),
+    );
+
+    await compressor.compress(body);
+
+    expect(compressor.estimateSize(100)).toBe(100);
+  });
+
+  it("should estimate compressed sizes from the last ratio", async () => {
+    const compressor = new Compressor(
+      { encoding: "deflate", threshold: 0, payloadSize: "compressed" },
+      fakeCompress,
+      new NoOpLogger(),
+    );
+
+    expect(compressor.getEncoding()).toBe("deflate");
+    expect(compressor.estimateSize(100)).toBe(100);
+
+    await compressor.compress("a".repeat(400));
+
+    expect(compressor.estimateSize(100)).toBe(25);
+    expect(compressor.estimateSize(101)).toBe(26);
+  });
+
+  it("should send uncompressed after a failure", async () => {
+    const error = new Error("unsupported");
+    const compress = vi.fn<Compress>().mockRejectedValue(error);
+    const logger = new NoOpLogger();
+    const warnSpy = vi.spyOn(logger, "warn");
+    const compressor = new Compressor({ threshold: 0 }, compress, logger);
+
+    await expect(compressor.compress(body)).resolves.toBeNull();
+    await expect(compressor.compress(body)).resolves.toBeNull();
+    expect(compress).toHaveBeenCalledOnce();
+    expect(warnSpy).toHaveBeenCalledExactlyOnceWith(
+      "Failed to compress batch, sending uncompressed",
+      error,
+    );
+  });
+});
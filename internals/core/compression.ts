@@ -0,0 +1,169 @@
+import type { LoggerAdapter } from "./adapters/logger-adapter.ts";
+import { byteLength } from "./utils.ts";
+
+/**
+ * Content encoding of compressed request bodies.
+ */
+export type CompressionEncoding = "gzip" | "deflate";
+
+/**
+ * Options of the request body compression.
+ */
+export type CompressionOptions = {
+  /**
+   * Content encoding of compressed bodies (default: `"gzip"`).
+   */
+  encoding?: CompressionEncoding;
+  /**
+   * Minimum serialized body size in bytes to compress (default: `1024`).
+   * Smaller bodies are sent uncompressed.
+   */
+  threshold?: number;
+  /**
+   * Size counted against `batchOptions.maxPayloadSize` (default:
+   * `"uncompressed"`). With `"compressed"`, the size of each event is scaled by
+   * the compression ratio of the last compressed batch.
+   */
+  payloadSize?: "uncompressed" | "compressed";
+};
+
+/**
+ * Compression function.
+ */
+export type Compress = (
+  data: string,
+  encoding: CompressionEncoding,
+) => Promise<Uint8Array<ArrayBuffer>>;
+
+/**
+ * Compress a string using the Compression Streams API.
+ *
+ * @param data The string to compress
+ * @param encoding The compression format
+ * @returns The compressed bytes
+ */
+export const compressWithStream: Compress = async (data, encoding) => {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream(encoding));
+
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Check that compression options are well-formed.
+ *
+ * @param options The options to check
+ * @throws {Error} When an option is malformed
+ */
+export const assertCompressionOptions = (options: CompressionOptions): void => {
+  if (
+    options?.encoding !== undefined &&
+    !["gzip", "deflate"].includes(options.encoding)
+  ) {
+    throw new Error(
+      '`compression.encoding` must be one of "gzip" or "deflate".',
+    );
+  }
+
+  if (
+    options.threshold !== undefined &&
+    (typeof options.threshold !== "number" || !(options.threshold >= 0))
+  ) {
+    throw new Error("`compression.threshold` must be a non-negative number.");
+  }
+
+  if (
+    options.payloadSize !== undefined &&
+    !["uncompressed", "compressed"].includes(options.payloadSize)
+  ) {
+    throw new Error(
+      '`compression.payloadSize` must be one of "uncompressed" or "compressed".',
+    );
+  }
+};
+
+/**
+ * Compresses request bodies above a size threshold and tracks the compression
+ * ratio used to estimate compressed payload sizes.
+ */
+export class Compressor {
+  readonly #encoding: CompressionEncoding;
+  readonly #threshold: number;
+  readonly #payloadSize: "uncompressed" | "compressed";
+  readonly #compress: Compress;
+  readonly #logger: LoggerAdapter;
+
+  #ratio = 1;
+  #failed = false;
+
+  /**
+   * Create a new Compressor instance.
+   *
+   * @param options The compression options
+   * @param compress Platform compression function
+   * @param logger Logger reporting compression failures
+   */
+  constructor(
+    options: CompressionOptions,
+    compress: Compress,
+    logger: LoggerAdapter,
+  ) {
+    this.#encoding = options.encoding ?? "gzip";
+    this.#threshold = options.threshold ?? 1024;
+    this.#payloadSize = options.payloadSize ?? "uncompressed";
+    this.#compress = compress;
+    this.#logger = logger;
+  }
+
+  /**
+   * Get the content encoding of compressed bodies.
+   *
+   * @returns The encoding
+   */
+  public getEncoding(): CompressionEncoding {
+    return this.#encoding;
+  }
+
+  /**
+   * Estimate the size of a serialized value counted against the maximum
+   * payload size.
+   *
+   * @param size The serialized size
+   * @returns The size, scaled by the last compression ratio when payloads are
+   * measured compressed
+   */
+  public estimateSize(size: number): number {
+    if (this.#payloadSize === "uncompressed") return size;
+
+    return Math.ceil(size * this.#ratio);
+  }
+
+  /**
+   * Compress a request body. After a failure, for instance when the platform
+   * doesn't support compression, bodies are sent uncompressed.
+   *
+   * @param body The serialized body
+   * @returns The compressed body, or null to send it uncompressed
+   */
+  public async compress(body: string): Promise<Uint8Array<ArrayBuffer> | null> {
+    if (this.#failed) return null;
+
+    const size = byteLength(body);
+
+    if (size < this.#threshold) return null;
+
+    try {
+      const compressed = await this.#compress(body, this.#encoding);
+
+      this.#ratio = compressed.byteLength / size;
+
+      return compressed;
+    } catch (err) {
+      this.#failed = true;
+      this.#logger.warn("Failed to compress batch, sending uncompressed", err);
+
+      return null;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { ConsentManager } from "./consent-manager.ts";
+import type { Event } from "./types.ts";
+
+const createEvent = (eventId: string): Event => ({
+  eventId,
+  anonymousId: "anon-1",
+  userId: null,
+  groupId: null,
+  sessionId: null,
+  sessionSequence: null,
+  name: "test_event",
+  schemaVersion: null,
+  payload: null,
+  issuedAt: 1000,
+  metadata: null,
+  sdk: { name: "test-sdk", version: "1.0.0" },
+  platform: null,
+});
+
+describe("ConsentManager", () => {
+  describe("getStatus", () => {
+    it("should start with the default status", () => {
+      expect(new ConsentManager("pending", 10).getStatus()).toBe("pending");
+      expect(new ConsentManager("granted", 10).getStatus()).toBe("granted");
+    });
+  });
+
+  describe("set", () => {
+    it("should grant consent when analytics is allowed", () => {
+      const manager = new ConsentManager("pending", 10);
+
+      manager.set({ analytics: true, marketing: false });
+
+      expect(manager.getStatus()).toBe("granted");
+      expect(manager.getPreferences()).toEqual({
+        analytics: true,
+        marketing: false,
+      });
+    });
+
+    it("should deny consent when analytics is not allowed", () => {
+      const manager = new ConsentManager("granted", 10);
+
+      manager.set({ analytics: false });
+
+      expect(manager.getStatus()).toBe("denied");
+    });
+
+    it("should drain pending events in FIFO order", () => {
+      const manager = new ConsentManager("pending", 10);
+
+      manager.hold(createEvent("1"));
+      manager.hold(createEvent("2"));
+
+      const pending = manager.set({ analytics: true });
+
+      expect(pending.map(e => e.eventId)).toEqual(["1", "2"]);
+      expect(manager.pendingCount()).toBe(0);
+    });
+  });
+
+  describe("hold", () => {
+    it("should evict oldest events when full", () => {
+      const manager = new ConsentManager("pending", 2);
+
+      expect(manager.hold(createEvent("1"))).toBeNull();
+      expect(manager.hold(createEvent("2"))).toBeNull();
+      expect(manager.hold(createEvent("3"))?.eventId).toBe("1");
+
+      expect(manager.pendingCount()).toBe(2);
+      expect(manager.set({ analytics: true }).map(e => e.eventId)).toEqual([
+        "2",
+        "3",
+      ]);
+    });
+  });
+
+  describe("clear", () => {
+    it("should reset to default status and discard pending events", () => {
+      const manager = new ConsentManager("pending", 10);
+
+      manager.hold(createEvent("1"));
+      manager.set({ analytics: false });
+      manager.hold(createEvent("2"));
+      manager.clear();
+
+      expect(manager.getStatus()).toBe("pending");
+      expect(manager.getPreferences()).toBeNull();
+      expect(manager.pendingCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { Buffer } from "./buffer.ts";
+import type { Event } from "./types.ts";
+
+/**
+ * Tracking consent status.
+ * - `"granted"` — events are dispatched normally
+ * - `"pending"` — events are held in memory until consent is decided
+ * - `"denied"` — events are dropped
+ */
+export type ConsentStatus = "granted" | "pending" | "denied";
+
+/**
+ * Consent preferences per purpose.
+ * Only `analytics` gates event tracking; other purposes are kept for reference.
+ */
+export type ConsentPreferences = {
+  /**
+   * Whether the user consents to analytics event tracking.
+   */
+  analytics: boolean;
+  [purpose: string]: boolean;
+};
+
+/**
+ * Manages tracking consent and the pending queue of events awaiting a decision.
+ * Pending events live in memory only and never reach the storage adapter.
+ *
+ * @template TMetadata The type of metadata attached to events
+ */
+export class ConsentManager<
+  TMetadata extends Record<string, unknown> = Record<string, unknown>,
+> {
+  readonly #defaultStatus: ConsentStatus;
+  readonly #pending: Buffer<Event<TMetadata>>;
+
+  #status: ConsentStatus;
+  #preferences: ConsentPreferences | null = null;
+
+  /**
+   * Create a new ConsentManager instance.
+   *
+   * @param defaultStatus Status applied before consent is known
+   * @param maxPendingEvents Maximum number of events held while pending.
+   * When exceeded, oldest events are evicted using FIFO policy.
+   */
+  constructor(defaultStatus: ConsentStatus, maxPendingEvents: number) {
+    this.#defaultStatus = defaultStatus;
+    this.#status = defaultStatus;
+    this.#pending = new Buffer<Event<TMetadata>>(maxPendingEvents);
+  }
+
+  /**
+   * Get the current consent status.
+   *
+   * @returns The consent status
+   */
+  public getStatus(): ConsentStatus {
+    return this.#status;
+  }
+
+  /**
+   * Get the last consent preferences set.
+   *
+   * @returns The consent preferences or null if consent is not yet known
+   */
+  public getPreferences(): ConsentPreferences | null {
+    return this.#preferences;
+  }
+
+  /**
+   * Update consent preferences and drain the pending queue.
+   * The caller decides whether drained events are released or purged based
+   * on the resulting status.
+   *
+   * @param preferences The user's consent preferences
+   * @returns Events that were pending, in FIFO order
+   */
+  public set(preferences: ConsentPreferences): Event<TMetadata>[] {
+    this.#preferences = { ...preferences };
+    this.#status = preferences.analytics ? "granted" : "denied";
+
+    const pending = this.#pending.toArray();
+
+    this.#pending.clear();
+
+    return pending;
+  }
+
+  /**
+   * Hold an event until consent is decided.
+   *
+   * @param event The event to hold
+   * @returns The oldest pending event if it was evicted, otherwise null
+   */
+  public hold(event: Event<TMetadata>): Event<TMetadata> | null {
+    return this.#pending.enqueue(event);
+  }
+
+  /**
+   * Get the number of pending events.
+   *
+   * @returns The pending queue size
+   */
+  public pendingCount(): number {
+    return this.#pending.size();
+  }
+
+  /**
+   * Reset to the default status and discard pending events.
+   */
+  public clear(): void {
+    this.#status = this.#defaultStatus;
+    this.#preferences = null;
+    this.#pending.clear();
+  }
+}
@@ -0,0 +1,238 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  assertDeadLetterQueueOptions,
+  DeadLetterQueue,
+  type DeadLetterQueueOptions,
+} from "./dead-letter-queue.ts";
+import { NoOpLogger } from "./logger.ts";
+import type { Event } from "./types.ts";
+
+const createMemoryStorage = (): DeadLetterQueueOptions["storage"] => {
+  const items = new Map<string, string>();
+
+  return {
+    init: vi.fn().mockResolvedValue(undefined),
+    save: vi.fn().mockResolvedValue(undefined),
+    load: vi.fn().mockResolvedValue([]),
+    clear: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    saveItem: vi.fn((key: string, value: string) => {
+      items.set(key, value);
+
+      return Promise.resolve();
+    }),
+    loadItem: vi.fn((key: string) => Promise.resolve(items.get(key) ?? null)),
+  };
+};
+
+const createEvent = (name: string): Event => ({
+  name,
+  payload: null,
+  metadata: null,
+  issuedAt: 1000,
+  eventId: `evt-${name}`,
+  anonymousId: "anon-1",
+  userId: null,
+  groupId: null,
+  sessionId: null,
+  sessionSequence: null,
+  schemaVersion: null,
+  sdk: { name: "test", version: "1.0" },
+  platform: null,
+});
+
+describe("assertDeadLetterQueueOptions", () => {
+  it("should accept well-formed options", () => {
+    expect(() =>
+      assertDeadLetterQueueOptions({
+        storage: createMemoryStorage(),
+        maxSize: 10,
+        maxAge: 1000,
+      }),
+    ).not.toThrow();
+  });
+
+  it.each<[Partial<DeadLetterQueueOptions>, string]>([
+    [
+      {},
+      "`deadLetterQueue.storage` must be a storage adapter with `saveItem()` and `loadItem()`.",
+    ],
+    [
+      {
+        storage: {
+          saveItem: vi.fn(),
+        } as unknown as DeadLetterQueueOptions["storage"],
+      },
+      "`deadLetterQueue.storage` must be a storage adapter with `saveItem()` and `loadItem()`.",
+    ],
+    [
+      { storage: createMemoryStorage(), maxSize: 0 },
+      "`deadLetterQueue.maxSize` must be a positive number.",
+    ],
+    [
+      { storage: createMemoryStorage(), maxAge: "1d" as unknown as number },
+      "`deadLetterQueue.maxAge` must be a positive number.",
+    ],
+  ])("should reject %j", (options, message) => {
+    expect(() =>
+      assertDeadLetterQueueOptions(options as DeadLetterQueueOptions),
+    ).toThrow(message);
+  });
+});
+
+describe("DeadLetterQueue", () => {
+  it("should keep dropped batches with their response", async () => {
+    const storage = createMemoryStorage();
+    const queue = new DeadLetterQueue({ storage }, new NoOpLogger());
+    const events = [createEvent("a"), createEvent("b")];
+
+    await queue.add(events, { status: 400, data: { error: "bad" } }, 5000);
+    await queue.add([createEvent("c")], { status: 413 }, 6000);
+
+    const letters = await queue.list(7000);
+
+    expect(letters).toEqual([
+      {
+        id: expect.any(String) as string,
+        status: 400,
+        response: { error: "bad" },
+        droppedAt: 5000,
+        events,
+      },
+      {
+        id: expect.any(String) as string,
+        status: 413,
+        response: null,
+        droppedAt: 6000,
+        events: [createEvent("c")],
+      },
+    ]);
+    expect(letters[0]!.id).not.toBe(letters[1]!.id);
+  });
+
+  it("should persist each dead letter once with its events", async () => {
+    const storage = createMemoryStorage();
+    const queue = new DeadLetterQueue({ storage }, new NoOpLogger());
+
+    await queue.add(
+      [createEvent("a"), createEvent("b")],
+      { status: 400 },
+      5000,
+    );
+
+    expect(storage.saveItem).toHaveBeenCalledOnce();
+
+    const [key, value] = vi.mocked(storage.saveItem).mock.calls[0]!;
+
+    expect(key).toBe("dead_letters");
+    expect(JSON.parse(value)).toEqual([
+      {
+        id: expect.any(String) as string,
+        status: 400,
+        response: null,
+        droppedAt: 5000,
+        events: [createEvent("a"), createEvent("b")],
+      },
+    ]);
+    expect(storage.save).not.toHaveBeenCalled();
+  });
+
+  it("should forget dead letters older than the age cap", async () => {
+    const storage = createMemoryStorage();
+    const queue = new DeadLetterQueue(
+      { storage, maxAge: 1000 },
+      new NoOpLogger(),
+    );
+
+    await queue.add([createEvent("a")], { status: 400 }, 5000);
+    await queue.add([createEvent("b")], { status: 400 }, 5500);
+
+    expect(await queue.list(6000)).toHaveLength(2);
+
+    const [letter] = await queue.list(6001);
+
+    expect(letter!.events).toEqual([createEvent("b")]);
+  });
+
+  it("should evict the oldest dead letters beyond the size cap", async () => {
+    const storage = createMemoryStorage();
+    const queue = new DeadLetterQueue(
+      { storage, maxSize: 3 },
+      new NoOpLogger(),
+    );
+
+    await queue.add([createEvent("a")], { status: 400 }, 5000);
+    await queue.add(
+      [createEvent("b"), createEvent("c")],
+      { status: 400 },
+      5001,
+    );
+    await queue.add([createEvent("d")], { status: 400 }, 5002);
+
+    const letters = await queue.list(5003);
+
+    expect(letters.map(letter => letter.events.map(e => e.name))).toEqual([
+      ["b", "c"],
+      ["d"],
+    ]);
+  });
+
+  it("should remove dead letters by id", async () => {
+    const storage = createMemoryStorage();
+    const queue = new DeadLetterQueue({ storage }, new NoOpLogger());
+
+    await queue.add([createEvent("a")], { status: 400 }, 5000);
+    await queue.add([createEvent("b")], { status: 400 }, 5001);
+
+    const [first, second] = await queue.list(5002);
+    const removed = await queue.remove([first!.id, "unknown"], 5002);
+
+    expect(removed).toEqual([first]);
+    expect(await queue.list(5002)).toEqual([second]);
+  });
+
+  it("should remove every dead letter without ids", async () => {
+    const storage = createMemoryStorage();
+    const queue = new DeadLetterQueue({ storage }, new NoOpLogger());
+
+    await queue.add([createEvent("a")], { status: 400 }, 5000);
+
+    expect(await queue.remove(undefined, 5001)).toHaveLength(1);
+    expect(await queue.list(5001)).toEqual([]);
+  });
+
+  it("should log storage failures instead of throwing", async () => {
+    const storage = createMemoryStorage();
+    const logger = new NoOpLogger();
+    const errorSpy = vi.spyOn(logger, "error");
+    const queue = new DeadLetterQueue({ storage }, logger);
+
+    vi.mocked(storage.saveItem)
+      .mockRejectedValueOnce(new Error("disk full"))
+      .mockRejectedValueOnce("unknown");
+
+    for (let i = 0; i < 2; i++) {
+      await expect(
+        queue.add([createEvent("a")], { status: 400 }),
+      ).resolves.toBeUndefined();
+    }
+
+    expect(errorSpy).toHaveBeenCalledWith("Failed to save dead letters", {
+      error: "disk full",
+    });
+    expect(errorSpy).toHaveBeenCalledWith("Failed to save dead letters", {
+      error: "unknown",
+    });
+  });
+
+  it("should init and close the storage adapter", async () => {
+    const storage = createMemoryStorage();
+    const queue = new DeadLetterQueue({ storage }, new NoOpLogger());
+
+    await queue.init();
+    await queue.close();
+
+    expect(storage.init).toHaveBeenCalledOnce();
+    expect(storage.close).toHaveBeenCalledOnce();
+  });
+});
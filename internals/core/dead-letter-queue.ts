@@ -0,0 +1,216 @@
+import type { LoggerAdapter } from "./adapters/logger-adapter.ts";
+import type { StorageAdapter } from "./adapters/storage-adapter.ts";
+import { Mutex } from "./mutex.ts";
+import type { Event, HttpResponse } from "./types.ts";
+import { IdGenerator } from "./utils.ts";
+
+const STORAGE_KEY = "dead_letters";
+
+/**
+ * Storage adapter able to persist string items, holding the dead letters.
+ */
+type ItemStorageAdapter = StorageAdapter &
+  Required<Pick<StorageAdapter, "saveItem" | "loadItem">>;
+
+/**
+ * Options of the dead-letter queue keeping batches dropped on 4xx responses.
+ */
+export type DeadLetterQueueOptions = {
+  /**
+   * Storage adapter holding the dead letters, through `saveItem()` and
+   * `loadItem()`. Must be a different instance, with a different key or
+   * location, from the `storageAdapter` of the client.
+   */
+  storage: ItemStorageAdapter;
+  /**
+   * Maximum number of dead-lettered events (default: `1000`). The oldest
+   * dead letters are evicted first.
+   */
+  maxSize?: number;
+  /**
+   * Time in milliseconds a dead letter is kept (default: `604800000`, 7 days).
+   */
+  maxAge?: number;
+};
+
+/**
+ * A batch dropped on a 4xx response.
+ */
+export type DeadLetter<TMetadata = Record<string, unknown>> = {
+  /**
+   * Unique ID of the dead letter
+   */
+  id: string;
+  /**
+   * HTTP status code of the response
+   */
+  status: number;
+  /**
+   * Response data, or null if none
+   */
+  response: unknown;
+  /**
+   * UNIX timestamp in milliseconds when the batch was dropped
+   */
+  droppedAt: number;
+  /**
+   * The events of the batch
+   */
+  events: Event<TMetadata>[];
+};
+
+/**
+ * Check that dead-letter queue options are well-formed.
+ *
+ * @param options The options to check
+ * @throws {Error} When an option is malformed
+ */
+export const assertDeadLetterQueueOptions = (
+  options: DeadLetterQueueOptions,
+): void => {
+  if (
+    typeof options?.storage?.saveItem !== "function" ||
+    typeof options.storage.loadItem !== "function"
+  ) {
+    throw new Error(
+      "`deadLetterQueue.storage` must be a storage adapter with `saveItem()` and `loadItem()`.",
+    );
+  }
+
+  for (const key of ["maxSize", "maxAge"] as const) {
+    const value = options[key];
+
+    if (value !== undefined && (typeof value !== "number" || !(value > 0))) {
+      throw new Error(`\`deadLetterQueue.${key}\` must be a positive number.`);
+    }
+  }
+};
+
+/**
+ * Keeps the batches dropped on 4xx responses in a storage adapter, within a
+ * size and age cap, so they can be inspected, replayed or purged.
+ */
+export class DeadLetterQueue {
+  readonly #storage: ItemStorageAdapter;
+  readonly #maxSize: number;
+  readonly #maxAge: number;
+  readonly #logger: LoggerAdapter;
+  readonly #mutex = new Mutex();
+
+  /**
+   * Create a new DeadLetterQueue instance.
+   *
+   * @param options The dead-letter queue options
+   * @param logger Logger reporting storage failures
+   */
+  constructor(options: DeadLetterQueueOptions, logger: LoggerAdapter) {
+    this.#storage = options.storage;
+    this.#maxSize = options.maxSize ?? 1000;
+    this.#maxAge = options.maxAge ?? 7 * 24 * 60 * 60 * 1000;
+    this.#logger = logger;
+  }
+
+  /**
+   * Initialize the storage adapter.
+   */
+  public async init(): Promise<void> {
+    await this.#storage.init();
+  }
+
+  /**
+   * Keep a dropped batch. Storage failures are logged, not thrown.
+   *
+   * @param events The events of the batch
+   * @param response The response the batch was dropped on
+   * @param now Current UNIX timestamp in milliseconds
+   */
+  public async add(
+    events: Event[],
+    response: HttpResponse,
+    now: number = Date.now(),
+  ): Promise<void> {
+    try {
+      await this.#mutex.runAtomic(async () => {
+        const letters = await this.#load(now);
+
+        letters.push({
+          id: IdGenerator.generate(),
+          status: response.status,
+          response: response.data ?? null,
+          droppedAt: now,
+          events,
+        });
+
+        await this.#save(this.#prune(letters, now));
+      });
+    } catch (err) {
+      this.#logger.error("Failed to save dead letters", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * Get the dead letters, oldest first.
+   *
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns The dead letters within the age cap
+   */
+  public async list(now: number = Date.now()): Promise<DeadLetter[]> {
+    return await this.#mutex.runAtomic(() => this.#load(now));
+  }
+
+  /**
+   * Remove dead letters.
+   *
+   * @param ids IDs of the dead letters to remove, all of them if omitted
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns The removed dead letters
+   */
+  public async remove(
+    ids?: string[],
+    now: number = Date.now(),
+  ): Promise<DeadLetter[]> {
+    return await this.#mutex.runAtomic(async () => {
+      const letters = await this.#load(now);
+      const removed = ids
+        ? letters.filter(letter => ids.includes(letter.id))
+        : letters;
+
+      await this.#save(letters.filter(letter => !removed.includes(letter)));
+
+      return removed;
+    });
+  }
+
+  /**
+   * Close the storage adapter.
+   */
+  public async close(): Promise<void> {
+    await this.#storage.close();
+  }
+
+  async #load(now: number): Promise<DeadLetter[]> {
+    const saved = await this.#storage.loadItem(STORAGE_KEY);
+    const letters = saved ? (JSON.parse(saved) as DeadLetter[]) : [];
+
+    return this.#prune(letters, now);
+  }
+
+  async #save(letters: DeadLetter[]): Promise<void> {
+    await this.#storage.saveItem(STORAGE_KEY, JSON.stringify(letters));
+  }
+
+  #prune(letters: DeadLetter[], now: number): DeadLetter[] {
+    const fresh = letters.filter(
+      letter => now - letter.droppedAt <= this.#maxAge,
+    );
+
+    let size = fresh.reduce((total, letter) => total + letter.events.length, 0);
+    let start = 0;
+
+    while (size > this.#maxSize) size -= fresh[start++]!.events.length;
+
+    return fresh.slice(start);
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { DedupWindow, defaultDedupKey } from "./dedup-window.ts";
+
+describe("defaultDedupKey", () => {
+  it("should prefix the serialized payload with the event name", () => {
+    expect(defaultDedupKey("clicked", { elementId: "a" })).toBe(
+      'clicked:{"elementId":"a"}',
+    );
+  });
+
+  it("should ignore the key order of nested objects", () => {
+    expect(defaultDedupKey("e", { a: 1, b: { c: [1, { d: 2, e: 3 }] } })).toBe(
+      defaultDedupKey("e", { b: { c: [1, { e: 3, d: 2 }] }, a: 1 }),
+    );
+  });
+
+  it("should differ by name and payload", () => {
+    const key = defaultDedupKey("e", { a: 1 });
+
+    expect(defaultDedupKey("f", { a: 1 })).not.toBe(key);
+    expect(defaultDedupKey("e", { a: 2 })).not.toBe(key);
+    expect(defaultDedupKey("e", null)).not.toBe(key);
+  });
+});
+
+describe("DedupWindow", () => {
+  it("should report repeats within the window", () => {
+    const dedup = new DedupWindow(1000, 10);
+
+    expect(dedup.has("a", 0)).toBe(false);
+
+    dedup.add("a", 0);
+
+    expect(dedup.has("a", 500)).toBe(true);
+    expect(dedup.has("b", 500)).toBe(false);
+  });
+
+  it("should not extend the window on repeats", () => {
+    const dedup = new DedupWindow(1000, 10);
+
+    dedup.add("a", 0);
+    dedup.add("a", 900);
+
+    expect(dedup.has("a", 999)).toBe(true);
+    expect(dedup.has("a", 1000)).toBe(false);
+  });
+
+  it("should forget expired keys", () => {
+    const dedup = new DedupWindow(1000, 10);
+
+    dedup.add("a", 0);
+    dedup.add("b", 600);
+    dedup.add("c", 1200);
+
+    expect(dedup.serialize()).toEqual({ b: 600, c: 1200 });
+  });
+
+  it("should forget the oldest keys beyond maxKeys", () => {
+    const dedup = new DedupWindow(1000, 2);
+
+    dedup.add("a", 0);
+    dedup.add("b", 1);
+    dedup.add("c", 2);
+
+    expect(dedup.serialize()).toEqual({ b: 1, c: 2 });
+    expect(dedup.has("a", 3)).toBe(false);
+  });
+
+  it("should restore serialized keys in first-seen order", () => {
+    const dedup = new DedupWindow(1000, 10);
+
+    dedup.restore({ late: 800, early: 100 });
+
+    expect(dedup.has("late", 900)).toBe(true);
+
+    dedup.add("x", 1100);
+
+    expect(dedup.serialize()).toEqual({ late: 800, x: 1100 });
+  });
+
+  it("should forget all keys on clear", () => {
+    const dedup = new DedupWindow(1000, 10);
+
+    dedup.add("a", 0);
+    dedup.clear();
+
+    expect(dedup.has("a", 1)).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import type { EventPayload } from "./types.ts";
+
+/**
+ * Options of the client-side deduplication stage.
+ */
+export type DedupOptions = {
+  /**
+   * Time window in milliseconds, starting at the first occurrence of a key,
+   * during which repeats are suppressed.
+   */
+  window: number;
+  /**
+   * Compute the dedup key of events tracked without an idempotency key
+   * (default: name plus the serialized payload). Keys are scoped by the
+   * user's identity, so different users never dedupe each other's events.
+   */
+  key?: (name: string, payload: EventPayload | null) => string;
+  /**
+   * Maximum number of keys remembered (default: `1000`).
+   * When exceeded, the oldest keys are forgotten first.
+   */
+  maxKeys?: number;
+};
+
+/**
+ * Serializable snapshot of remembered dedup keys and when they were first seen.
+ */
+export type DedupSnapshot = Record<string, number>;
+
+const sortKeys = (_key: string, value: unknown): unknown => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+
+  return Object.fromEntries(
+    Object.keys(record)
+      .sort()
+      .map(key => [key, record[key]]),
+  );
+};
+
+/**
+ * Compute the default dedup key of an event: its name plus its payload
+ * serialized with sorted keys.
+ *
+ * @param name The event name
+ * @param payload The event payload
+ * @returns The dedup key
+ */
+export const defaultDedupKey = (
+  name: string,
+  payload: EventPayload | null,
+): string => `${name}:${JSON.stringify(payload, sortKeys)}`;
+
+/**
+ * Remembers recently seen dedup keys to suppress repeats within a time window.
+ */
+export class DedupWindow {
+  readonly #window: number;
+  readonly #maxKeys: number;
+
+  #seen = new Map<string, number>();
+
+  /**
+   * Create a new DedupWindow instance.
+   *
+   * @param window Time window in milliseconds
+   * @param maxKeys Maximum number of keys remembered
+   */
+  constructor(window: number, maxKeys: number) {
+    this.#window = window;
+    this.#maxKeys = maxKeys;
+  }
+
+  /**
+   * Check whether a key was seen within the window.
+   *
+   * @param key The dedup key
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns Whether the key is a duplicate
+   */
+  public has(key: string, now: number = Date.now()): boolean {
+    this.#prune(now);
+
+    return this.#seen.has(key);
+  }
+
+  /**
+   * Remember a key, unless already seen within the window. Repeats don't
+   * extend the window of the first occurrence.
+   *
+   * @param key The dedup key
+   * @param now Current UNIX timestamp in milliseconds
+   */
+  public add(key: string, now: number = Date.now()): void {
+    this.#prune(now);
+
+    if (this.#seen.has(key)) return;
+
+    this.#seen.set(key, now);
+
+    if (this.#seen.size > this.#maxKeys) {
+      this.#seen.delete(this.#seen.keys().next().value!);
+    }
+  }
+
+  /**
+   * Serialize remembered keys.
+   *
+   * @returns A snapshot of keys and when they were first seen
+   */
+  public serialize(): DedupSnapshot {
+    return Object.fromEntries(this.#seen);
+  }
+
+  /**
+   * Replace remembered keys with a previously serialized snapshot.
+   *
+   * @param snapshot Snapshot created by `serialize()`
+   */
+  public restore(snapshot: DedupSnapshot): void {
+    this.#seen = new Map(
+      Object.entries(snapshot).sort(([, a], [, b]) => a - b),
+    );
+  }
+
+  /**
+   * Forget all keys.
+   */
+  public clear(): void {
+    this.#seen.clear();
+  }
+
+  #prune(now: number): void {
+    for (const [key, seenAt] of this.#seen) {
+      if (now - seenAt < this.#window) return;
+
+      this.#seen.delete(key);
+    }
+  }
+}
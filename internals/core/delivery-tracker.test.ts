@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { DeliveryTracker, EventDeliveryError } from "./delivery-tracker.ts";
+
+describe("DeliveryTracker", () => {
+  describe("resolve", () => {
+    it("should resolve waiters of delivered events", async () => {
+      const tracker = new DeliveryTracker();
+      const delivery = tracker.wait("evt-1");
+
+      tracker.resolve([{ eventId: "evt-1" }]);
+
+      await expect(delivery).resolves.toBeUndefined();
+    });
+
+    it("should resolve every waiter of the same event", async () => {
+      const tracker = new DeliveryTracker();
+      const first = tracker.wait("evt-1");
+      const second = tracker.wait("evt-1");
+
+      tracker.resolve([{ eventId: "evt-1" }]);
+
+      await expect(Promise.all([first, second])).resolves.toEqual([
+        undefined,
+        undefined,
+      ]);
+    });
+
+    it("should ignore events nobody waits for", () => {
+      const tracker = new DeliveryTracker();
+
+      expect(() => tracker.resolve([{ eventId: "evt-1" }])).not.toThrow();
+    });
+
+    it("should settle a waiter only once", async () => {
+      const tracker = new DeliveryTracker();
+      const delivery = tracker.wait("evt-1");
+
+      void tracker.wait("evt-2");
+      tracker.resolve([{ eventId: "evt-1" }]);
+      tracker.reject([{ eventId: "evt-1" }], "client_error");
+
+      await expect(delivery).resolves.toBeUndefined();
+    });
+  });
+
+  describe("reject", () => {
+    it("should reject waiters with an EventDeliveryError", async () => {
+      const tracker = new DeliveryTracker();
+      const delivery = tracker.wait("evt-1");
+
+      tracker.reject([{ eventId: "evt-1" }], "client_error");
+
+      const error = await delivery.catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(EventDeliveryError);
+      expect(error).toMatchObject({
+        name: "EventDeliveryError",
+        message: "Event was not delivered: client_error",
+        reason: "client_error",
+        eventId: "evt-1",
+      });
+    });
+
+    it("should ignore events nobody waits for", () => {
+      const tracker = new DeliveryTracker();
+
+      expect(() =>
+        tracker.reject([{ eventId: "evt-1" }], "expired"),
+      ).not.toThrow();
+    });
+  });
+
+  describe("rejectAll", () => {
+    it("should reject every waiter", async () => {
+      const tracker = new DeliveryTracker();
+      const first = tracker.wait("evt-1");
+      const second = tracker.wait("evt-2");
+
+      tracker.rejectAll("disposed");
+
+      await expect(first).rejects.toMatchObject({ reason: "disposed" });
+      await expect(second).rejects.toMatchObject({ reason: "disposed" });
+    });
+  });
+
+  describe("EventDeliveryError", () => {
+    it("should default eventId to null", () => {
+      expect(new EventDeliveryError("disposed").eventId).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import type { DropReason } from "./telemetry.ts";
+import type { Event } from "./types.ts";
+
+/**
+ * Reason an awaited event was not delivered.
+ * - `DropReason` — the event was dropped (e.g., sampled, 4xx, expired)
+ * - `"evicted"` — the event was evicted from a full buffer
+ * - `"max_retries"` — sending failed after all retries (the event stays queued)
+ * - `"disposed"` — the client was disposed before delivery
+ */
+export type DeliveryFailureReason =
+  | DropReason
+  | "evicted"
+  | "max_retries"
+  | "disposed";
+
+/**
+ * Error rejected by `trackAndConfirm()` when the event is not delivered.
+ */
+export class EventDeliveryError extends Error {
+  /**
+   * Why the event was not delivered.
+   */
+  public readonly reason: DeliveryFailureReason;
+  /**
+   * ID of the undelivered event, or null if it was never created.
+   */
+  public readonly eventId: string | null;
+
+  constructor(reason: DeliveryFailureReason, eventId: string | null = null) {
+    super(`Event was not delivered: ${reason}`);
+
+    this.name = "EventDeliveryError";
+    this.reason = reason;
+    this.eventId = eventId;
+  }
+}
+
+type Waiter = {
+  resolve: () => void;
+  reject: (err: EventDeliveryError) => void;
+};
+
+/**
+ * Tracks events awaiting delivery acknowledgement.
+ * Settles a promise per awaited event once its batch is acknowledged or the
+ * event is dropped.
+ */
+export class DeliveryTracker {
+  readonly #waiters = new Map<string, Waiter[]>();
+
+  /**
+   * Wait for an event to be delivered.
+   * Must be called before the event is enqueued.
+   *
+   * @param eventId ID of the event to wait for
+   * @returns A promise resolved on delivery and rejected with an
+   * `EventDeliveryError` when the event is dropped
+   */
+  public wait(eventId: string): Promise<void> {
+    const promise = new Promise<void>((resolve, reject) => {
+      const waiters = this.#waiters.get(eventId) ?? [];
+
+      waiters.push({ resolve, reject });
+      this.#waiters.set(eventId, waiters);
+    });
+
+    // Settlement may happen before the caller attaches its own handlers
+    promise.catch(() => {});
+
+    return promise;
+  }
+
+  /**
+   * Resolve waiters of delivered events.
+   *
+   * @param events Events acknowledged by the server
+   */
+  public resolve(events: Pick<Event, "eventId">[]): void {
+    if (this.#waiters.size === 0) return;
+
+    for (const { eventId } of events) {
+      for (const waiter of this.#take(eventId)) waiter.resolve();
+    }
+  }
+
+  /**
+   * Reject waiters of dropped events.
+   *
+   * @param events Events that will not be delivered
+   * @param reason Why the events were not delivered
+   */
+  public reject(
+    events: Pick<Event, "eventId">[],
+    reason: DeliveryFailureReason,
+  ): void {
+    if (this.#waiters.size === 0) return;
+
+    for (const { eventId } of events) {
+      for (const waiter of this.#take(eventId)) {
+        waiter.reject(new EventDeliveryError(reason, eventId));
+      }
+    }
+  }
+
+  /**
+   * Reject every waiter.
+   *
+   * @param reason Why the events will not be delivered
+   */
+  public rejectAll(reason: DeliveryFailureReason): void {
+    for (const eventId of [...this.#waiters.keys()]) {
+      this.reject([{ eventId }], reason);
+    }
+  }
+
+  #take(eventId: string): Waiter[] {
+    const waiters = this.#waiters.get(eventId) ?? [];
+
+    this.#waiters.delete(eventId);
+
+    return waiters;
+  }
+}
@@ -1,12 +1,24 @@
+import { gunzipSync } from "node:zlib";
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import type { HttpAdapter } from "./adapters/http-adapter.ts";
+import type {
+  HttpAdapter,
+  HttpAdapterContext,
+} from "./adapters/http-adapter.ts";
 import {
   StorageQuotaExceededError,
   type StorageAdapter,
 } from "./adapters/storage-adapter.ts";
+import { ClockSync } from "./clock-sync.ts";
+import { Compressor, compressWithStream } from "./compression.ts";
+import { DeadLetterQueue } from "./dead-letter-queue.ts";
+import {
+  DeliveryTracker,
+  type EventDeliveryError,
+} from "./delivery-tracker.ts";
 import { Dispatcher, type DispatcherConfig } from "./dispatcher.ts";
 import { NoOpLogger } from "./logger.ts";
-import type { Event } from "./types.ts";
+import { jsonSerializer, ndjsonSerializer } from "./serializer.ts";
+import type { Event, HttpResponse } from "./types.ts";
 
 type TestMetadata = { userId: string };
 
@@ -35,10 +47,17 @@ const createConfig = (
     maxDelay: 360000,
     backoffFactor: 2,
   },
+  priorityInterval: 0,
   maxBufferSize: 50,
   eventTtl: null,
   hooks: {},
   logger: new NoOpLogger(),
+  delivery: new DeliveryTracker(),
+  clock: null,
+  circuitBreaker: null,
+  compressor: null,
+  serializer: jsonSerializer,
+  deadLetters: null,
   ...overrides,
 });
 
@@ -50,6 +69,9 @@ const createEvent = (name: string, issuedAt?: number): Event<TestMetadata> => ({
   eventId: `evt-${name}`,
   anonymousId: "anon-1",
   userId: "user-1",
+  groupId: null,
+  sessionId: null,
+  sessionSequence: null,
   schemaVersion: null,
   sdk: { name: "test", version: "1.0" },
   platform: null,
@@ -96,6 +118,56 @@ describe("Dispatcher", () => {
           ),
       ).not.toThrow();
     });
+
+    it("applies batch options replaced at runtime", async () => {
+      const http = createMockHttp();
+      const d = new Dispatcher(createConfig(), http, createMockStorage());
+
+      d.configure(
+        { interval: 5000, size: 2, maxPayloadSize: 65536 },
+        createConfig().retryOptions,
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.enqueue(createEvent("e2"));
+
+      expect(http.send).toHaveBeenCalledOnce();
+    });
+
+    it("applies retry options replaced at runtime", async () => {
+      const http = createMockHttp();
+
+      vi.mocked(http.send).mockResolvedValue({ status: 500 });
+
+      const d = new Dispatcher(createConfig(), http, createMockStorage());
+
+      d.configure(createConfig().batchOptions, {
+        maxAttempts: 0,
+        minDelay: 1000,
+        maxDelay: 360000,
+        backoffFactor: 2,
+      });
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      expect(http.send).toHaveBeenCalledOnce();
+    });
+
+    it("rejects runtime batch sizes above maxBufferSize", () => {
+      const d = new Dispatcher(
+        createConfig(),
+        createMockHttp(),
+        createMockStorage(),
+      );
+
+      expect(() =>
+        d.configure(
+          { interval: 5000, size: 100, maxPayloadSize: 65536 },
+          createConfig().retryOptions,
+        ),
+      ).toThrow("maxBufferSize");
+    });
   });
 
   describe("enqueue", () => {
@@ -111,6 +183,127 @@ describe("Dispatcher", () => {
       ]);
     });
 
+    it("stamps batches with sentAt and updates the clock", async () => {
+      const now = vi.spyOn(Date, "now").mockReturnValue(1000);
+      const clock = new ClockSync();
+      const http: HttpAdapter = {
+        send: vi.fn().mockImplementation(() => {
+          now.mockReturnValue(1200);
+
+          return Promise.resolve({ status: 200, data: { serverTime: 5100 } });
+        }),
+      };
+
+      const d = new Dispatcher(
+        createConfig({ clock }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      expect(http.send).toHaveBeenCalledWith(
+        expect.objectContaining({ sentAt: 1000 }),
+      );
+      expect(clock.getOffset()).toBe(4000);
+
+      now.mockRestore();
+    });
+
+    it("encodes batches with the configured serializer", async () => {
+      const http = createMockHttp();
+      const d = new Dispatcher(
+        createConfig({ serializer: ndjsonSerializer }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      const [context] = vi.mocked(http.send).mock.calls[0]!;
+
+      expect(context.headers["Content-Type"]).toBe("application/x-ndjson");
+      expect(context.body).toBe(
+        ndjsonSerializer.serialize(context.events, {
+          batchId: context.batchId,
+          sentAt: context.sentAt,
+          attempt: context.attempt,
+        }),
+      );
+    });
+
+    it("sends compressed bodies above the threshold", async () => {
+      const http = createMockHttp();
+      const compressor = new Compressor(
+        { threshold: 1500 },
+        compressWithStream,
+        new NoOpLogger(),
+      );
+
+      const d = new Dispatcher(
+        createConfig({ compressor }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      const [small] = vi.mocked(http.send).mock.calls[0]!;
+
+      expect(typeof small.body).toBe("string");
+      expect(small.headers).not.toHaveProperty("Content-Encoding");
+
+      for (let i = 0; i < 10; i++) await d.enqueue(createEvent(`e${i}`));
+
+      const [large] = vi.mocked(http.send).mock.calls[1]!;
+
+      expect(large.headers["Content-Encoding"]).toBe("gzip");
+      expect(JSON.parse(gunzipSync(large.body).toString())).toEqual({
+        batchId: large.batchId,
+        sentAt: large.sentAt,
+        attempt: 0,
+        events: large.events,
+      });
+    });
+
+    it("measures payloads compressed when configured", async () => {
+      const http = createMockHttp();
+      const eventSize = JSON.stringify(createEvent("e0")).length;
+      const compressor = new Compressor(
+        { threshold: 0, payloadSize: "compressed" },
+        data => Promise.resolve(new Uint8Array(Math.ceil(data.length / 4))),
+        new NoOpLogger(),
+      );
+
+      const d = new Dispatcher(
+        createConfig({
+          batchOptions: {
+            interval: 5000,
+            size: 10,
+            maxPayloadSize: eventSize * 2,
+          },
+          compressor,
+        }),
+        http,
+        createMockStorage(),
+      );
+
+      for (let i = 0; i < 4; i++) await d.enqueue(createEvent(`e${i}`));
+      await d.flush();
+
+      // The first batch is sized uncompressed, until a ratio is known
+      expect(http.send).toHaveBeenCalledTimes(2);
+
+      for (let i = 4; i < 9; i++) await d.enqueue(createEvent(`e${i}`));
+      await d.flush();
+
+      expect(http.send).toHaveBeenCalledTimes(3);
+      expect(vi.mocked(http.send).mock.calls[2]![0].events).toHaveLength(5);
+    });
+
     it("triggers auto-flush when batch size reached", async () => {
       const http = createMockHttp();
       const config = createConfig({
@@ -251,6 +444,34 @@ describe("Dispatcher", () => {
       expect(http.send).toHaveBeenCalledTimes(2);
     });
 
+    it("measures event sizes in UTF-8 bytes", async () => {
+      const http = createMockHttp();
+      const createWideEvent = (name: string): Event<TestMetadata> => ({
+        ...createEvent(name),
+        payload: { test: "د".repeat(100) },
+      });
+
+      const length = JSON.stringify(createWideEvent("e1")).length;
+      const d = new Dispatcher(
+        createConfig({
+          batchOptions: {
+            interval: 5000,
+            size: 50,
+            maxPayloadSize: length * 2,
+          },
+        }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createWideEvent("e1"));
+      await d.enqueue(createWideEvent("e2"));
+      await d.flush();
+
+      // Each event holds 100 more bytes than characters
+      expect(http.send).toHaveBeenCalledTimes(2);
+    });
+
     it("requeues failed batch + remaining events on mid-flush failure", async () => {
       const http = createMockHttp();
       const storage = createMockStorage();
@@ -520,6 +741,37 @@ describe("Dispatcher", () => {
       });
     });
 
+    it("keeps events dropped on 4xx in the dead-letter queue", async () => {
+      const http = createMockHttp();
+      const deadLetters = new DeadLetterQueue(
+        {
+          storage: {
+            ...createMockStorage(),
+            saveItem: vi.fn().mockResolvedValue(undefined),
+            loadItem: vi.fn().mockResolvedValue(null),
+          },
+        },
+        new NoOpLogger(),
+      );
+
+      const addSpy = vi.spyOn(deadLetters, "add");
+      const response = { status: 400, data: { error: "invalid" } };
+      const event = createEvent("e1");
+
+      vi.mocked(http.send).mockResolvedValue(response);
+
+      const d = new Dispatcher(
+        createConfig({ deadLetters }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(event);
+      await d.flush();
+
+      expect(addSpy).toHaveBeenCalledExactlyOnceWith([event], response);
+    });
+
     it("drops events on unexpected status (3xx)", async () => {
       const http = createMockHttp();
       const logger = new NoOpLogger();
@@ -588,88 +840,1186 @@ describe("Dispatcher", () => {
     });
   });
 
-  describe("concurrency", () => {
-    it("enqueue during flush — new event is consumed by flush loop", async () => {
+  describe("partial success", () => {
+    const rejectedResponse = (
+      ...rejected: { eventId: string; reason?: string; retryable?: boolean }[]
+    ): HttpResponse => ({ status: 200, data: { accepted: 0, rejected } });
+
+    it("drops permanently rejected events with their reasons", async () => {
       const http = createMockHttp();
-      const config = createConfig({
-        batchOptions: { interval: 5000, size: 2, maxPayloadSize: 65536 },
-      });
+      const storage = createMockStorage();
+      const onDrop = vi.fn();
+      const onSendSuccess = vi.fn();
+      const logger = new NoOpLogger();
+      const warnSpy = vi.spyOn(logger, "warn");
+      const delivery = new DeliveryTracker();
+
+      vi.mocked(http.send).mockResolvedValueOnce(
+        rejectedResponse(
+          { eventId: "evt-e1", reason: "invalid_payload" },
+          { eventId: "evt-e2", reason: "invalid_payload" },
+          { eventId: "evt-e3" },
+        ),
+      );
 
-      const d = new Dispatcher(config, http, createMockStorage());
+      const d = new Dispatcher(
+        createConfig({ hooks: { onDrop, onSendSuccess }, logger, delivery }),
+        http,
+        storage,
+      );
 
-      // Enqueue 1 event, then flush. While flush awaits send, enqueue another.
-      let sendCount = 0;
+      const outcomes = ["e1", "e3", "e4"].map(name =>
+        delivery.wait(`evt-${name}`).then(
+          () => "delivered",
+          (err: EventDeliveryError) => err.reason,
+        ),
+      );
 
-      vi.mocked(http.send).mockImplementation(async () => {
-        sendCount++;
-        if (sendCount === 1) {
-          // During first send, enqueue another event
-          await d.enqueue(createEvent("mid-flush"));
-        }
+      for (const name of ["e1", "e2", "e3", "e4"]) {
+        await d.enqueue(createEvent(name));
+      }
 
-        return { status: 200 };
+      await d.flush();
+
+      expect(http.send).toHaveBeenCalledOnce();
+      expect(onSendSuccess).toHaveBeenCalledWith({ batchSize: 4, status: 200 });
+      expect(onDrop).toHaveBeenCalledTimes(2);
+      expect(onDrop).toHaveBeenCalledWith({
+        eventCount: 2,
+        reason: "rejected",
+        detail: "invalid_payload",
       });
+      expect(onDrop).toHaveBeenCalledWith({
+        eventCount: 1,
+        reason: "rejected",
+      });
+      expect(warnSpy).toHaveBeenCalledWith(
+        "Events rejected by the server, dropping",
+        { eventsCount: 3, reasons: ["invalid_payload"] },
+      );
+      await expect(Promise.all(outcomes)).resolves.toEqual([
+        "rejected",
+        "rejected",
+        "delivered",
+      ]);
+      expect(storage.save).toHaveBeenLastCalledWith([]);
+    });
 
-      await d.enqueue(createEvent("e1"));
-      await d.flush();
+    it("retries retryable events as a new batch with backoff", async () => {
+      vi.useFakeTimers();
 
-      // e1 sent in first batch. "mid-flush" enqueued during send,
-      // but flush already drained buffer before send. It should be picked up
-      // by auto-flush or next manual flush.
-      // The key: no data loss.
-      const allSentEvents = vi
-        .mocked(http.send)
-        .mock.calls.flatMap(c => c[0].events as Array<{ name: string }>);
+      const http = createMockHttp();
+      const onDrop = vi.fn();
+      const onRetry = vi.fn();
 
-      const names = allSentEvents.map(e => e.name);
+      vi.mocked(http.send).mockResolvedValueOnce(
+        rejectedResponse(
+          { eventId: "evt-e1", retryable: true },
+          { eventId: "evt-e2", reason: "too_large" },
+        ),
+      );
 
-      expect(names).toContain("e1");
-      // mid-flush was enqueued after buffer drain, triggers its own auto-flush
-      // (size=2 won't be reached, so scheduled flush handles it later)
-      // Verify it's at least in the buffer by flushing again
-      await d.flush();
-      const allEvents = vi
-        .mocked(http.send)
-        .mock.calls.flatMap(c => c[0].events as Array<{ name: string }>);
+      const d = new Dispatcher(
+        createConfig({ hooks: { onDrop, onRetry } }),
+        http,
+        createMockStorage(),
+      );
 
-      expect(allEvents.map(e => e.name)).toContain("mid-flush");
+      for (const name of ["e1", "e2", "e3"]) {
+        await d.enqueue(createEvent(name));
+      }
+
+      const p = d.flush();
+
+      await vi.runAllTimersAsync();
+      await p;
+
+      const [[first], [second]] = vi.mocked(http.send).mock.calls as [
+        [HttpAdapterContext],
+        [HttpAdapterContext],
+      ];
+
+      expect(onDrop).toHaveBeenCalledExactlyOnceWith({
+        eventCount: 1,
+        reason: "rejected",
+        detail: "too_large",
+      });
+      expect(onRetry).toHaveBeenCalledExactlyOnceWith({
+        attempt: 1,
+        delay: expect.any(Number) as number,
+      });
+      expect(second.events.map(event => event.name)).toEqual(["e1"]);
+      expect(second.batchId).not.toBe(first.batchId);
+      expect(second.attempt).toBe(1);
+
+      d.dispose();
     });
 
-    it("enqueue after flush succeeds preserves new event in storage", async () => {
+    it("reports a send failure once retryable events run out of retries", async () => {
       const http = createMockHttp();
-      const storage = createMockStorage();
-      const d = new Dispatcher(createConfig(), http, storage);
+      const onSendFailure = vi.fn();
+      const delivery = new DeliveryTracker();
 
-      await d.enqueue(createEvent("e1"));
-      await d.flush();
+      vi.mocked(http.send).mockResolvedValueOnce(
+        rejectedResponse(
+          { eventId: "evt-e1", retryable: true },
+          { eventId: "evt-e2", retryable: true },
+        ),
+      );
 
-      // Now enqueue a new event after flush completed
-      await d.enqueue(createEvent("e2"));
-      await tick();
+      const d = new Dispatcher(
+        createConfig({
+          hooks: { onSendFailure },
+          delivery,
+          retryOptions: {
+            maxAttempts: 0,
+            minDelay: 1000,
+            maxDelay: 360000,
+            backoffFactor: 2,
+          },
+        }),
+        http,
+        createMockStorage(),
+      );
 
-      // The last persist should include e2
-      const lastSave = vi.mocked(storage.save).mock.lastCall![0] as Array<{
-        name: string;
-      }>;
+      const outcome = delivery
+        .wait("evt-e1")
+        .catch((err: EventDeliveryError) => err.reason);
 
-      expect(lastSave).toEqual([expect.objectContaining({ name: "e2" })]);
+      for (const name of ["e1", "e2", "e3"]) {
+        await d.enqueue(createEvent(name));
+      }
+
+      await d.flush();
+
+      expect(onSendFailure).toHaveBeenCalledExactlyOnceWith({
+        batchSize: 2,
+        error: "200: Events rejected by the server",
+        attempt: 0,
+      });
+      await expect(outcome).resolves.toBe("max_retries");
+
+      d.dispose();
     });
-  });
 
-  describe("restore", () => {
-    it("loads persisted events and schedules flush", async () => {
+    it("requeues retryable events out of retries and flushes them again", async () => {
       vi.useFakeTimers();
+
       const http = createMockHttp();
       const storage = createMockStorage();
 
-      vi.mocked(storage.load).mockResolvedValue([
-        createEvent("e1"),
-        createEvent("e2"),
-      ]);
+      vi.mocked(http.send).mockResolvedValueOnce(
+        rejectedResponse({ eventId: "evt-e1", retryable: true }),
+      );
 
-      const config = createConfig({
-        batchOptions: { interval: 100, size: 10, maxPayloadSize: 65536 },
-      });
+      const d = new Dispatcher(
+        createConfig({
+          retryOptions: {
+            maxAttempts: 0,
+            minDelay: 1000,
+            maxDelay: 360000,
+            backoffFactor: 2,
+          },
+        }),
+        http,
+        storage,
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.enqueue(createEvent("e2"));
+      await d.flush();
+
+      expect(http.send).toHaveBeenCalledOnce();
+      expect(storage.save).toHaveBeenLastCalledWith([
+        expect.objectContaining({ name: "e1" }),
+      ]);
+
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(http.send).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(http.send).mock.calls[1]![0].events).toEqual([
+        expect.objectContaining({ name: "e1" }),
+      ]);
+
+      d.dispose();
+    });
+
+    it("ignores rejections of events outside the batch", async () => {
+      const http = createMockHttp();
+      const onDrop = vi.fn();
+
+      vi.mocked(http.send).mockResolvedValueOnce(
+        rejectedResponse({ eventId: "unknown" }),
+      );
+
+      const d = new Dispatcher(
+        createConfig({ hooks: { onDrop } }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      expect(onDrop).not.toHaveBeenCalled();
+    });
+
+    it("ignores response data of non-2xx responses", async () => {
+      const http = createMockHttp();
+      const onDrop = vi.fn();
+
+      vi.mocked(http.send).mockResolvedValueOnce({
+        status: 400,
+        data: { rejected: [{ eventId: "evt-e1", retryable: true }] },
+      });
+
+      const d = new Dispatcher(
+        createConfig({ hooks: { onDrop } }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      expect(onDrop).toHaveBeenCalledExactlyOnceWith({
+        eventCount: 1,
+        reason: "client_error",
+      });
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("retries on 429 and succeeds", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+
+      vi.mocked(http.send)
+        .mockResolvedValueOnce({ status: 429 })
+        .mockResolvedValueOnce({ status: 200 });
+
+      const d = new Dispatcher(createConfig(), http, createMockStorage());
+
+      await d.enqueue(createEvent("e1"));
+      const p = d.flush();
+
+      await vi.runAllTimersAsync();
+      await p;
+
+      expect(http.send).toHaveBeenCalledTimes(2);
+    });
+
+    it("waits for Retry-After seconds instead of the backoff", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const onRetry = vi.fn();
+
+      vi.mocked(http.send)
+        .mockResolvedValueOnce({
+          status: 429,
+          headers: { "Retry-After": "20" },
+        })
+        .mockResolvedValueOnce({ status: 200 });
+
+      const d = new Dispatcher(
+        createConfig({ hooks: { onRetry } }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      const p = d.flush();
+
+      await vi.advanceTimersByTimeAsync(19999);
+
+      expect(http.send).toHaveBeenCalledOnce();
+
+      await vi.advanceTimersByTimeAsync(1);
+      await p;
+
+      expect(http.send).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledExactlyOnceWith({
+        attempt: 1,
+        delay: 20000,
+      });
+    });
+
+    it("honors a Retry-After HTTP date on 503", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.parse("Wed, 21 Oct 2015 07:28:00 GMT"));
+
+      const http = createMockHttp();
+      const onRetry = vi.fn();
+
+      vi.mocked(http.send)
+        .mockResolvedValueOnce({
+          status: 503,
+          headers: { "retry-after": "Wed, 21 Oct 2015 07:28:30 GMT" },
+        })
+        .mockResolvedValueOnce({ status: 200 });
+
+      const d = new Dispatcher(
+        createConfig({ hooks: { onRetry } }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      const p = d.flush();
+
+      await vi.runAllTimersAsync();
+      await p;
+
+      expect(onRetry).toHaveBeenCalledExactlyOnceWith({
+        attempt: 1,
+        delay: 30000,
+      });
+    });
+
+    it("falls back to the backoff on unparsable Retry-After values", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const onRetry = vi.fn();
+
+      vi.mocked(http.send)
+        .mockResolvedValueOnce({
+          status: 503,
+          headers: { "Retry-After": "later" },
+        })
+        .mockResolvedValueOnce({ status: 200 });
+
+      const d = new Dispatcher(
+        createConfig({ hooks: { onRetry } }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      const p = d.flush();
+
+      await vi.runAllTimersAsync();
+      await p;
+
+      const [{ delay }] = onRetry.mock.calls[0] as [{ delay: number }];
+
+      expect(delay).toBeGreaterThanOrEqual(1000);
+      expect(delay).toBeLessThan(2000);
+    });
+
+    it("pauses all sends until Retry-After has passed", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+
+      vi.mocked(http.send).mockResolvedValueOnce({
+        status: 429,
+        headers: { "Retry-After": "5" },
+      });
+
+      const d = new Dispatcher(createConfig(), http, createMockStorage());
+
+      await d.enqueue(createEvent("e1"));
+      // The flush returns without holding the lane while paused
+      await d.flush();
+
+      void d.enqueue({ ...createEvent("high"), priority: "high" });
+      await vi.advanceTimersByTimeAsync(4999);
+
+      expect(http.send).toHaveBeenCalledOnce();
+
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(http.send).toHaveBeenCalledTimes(3);
+
+      const retried = vi
+        .mocked(http.send)
+        .mock.calls.slice(1)
+        .find(([context]) => context.events[0]!.name === "e1")!;
+
+      expect(retried[0].attempt).toBe(1);
+
+      d.dispose();
+    });
+
+    it("starts over with a new series of retries after max attempts", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+
+      vi.mocked(http.send).mockResolvedValue({
+        status: 429,
+        headers: { "Retry-After": "1" },
+      });
+
+      const d = new Dispatcher(
+        createConfig({
+          retryOptions: {
+            maxAttempts: 1,
+            minDelay: 1000,
+            maxDelay: 360000,
+            backoffFactor: 2,
+          },
+        }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(
+        vi.mocked(http.send).mock.calls.map(([context]) => context.attempt),
+      ).toEqual([0, 1, 0]);
+
+      d.dispose();
+    });
+
+    it("caps Retry-After by the max retry delay", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const onRetry = vi.fn();
+
+      vi.mocked(http.send).mockResolvedValueOnce({
+        status: 503,
+        headers: { "Retry-After": "3600" },
+      });
+
+      const d = new Dispatcher(
+        createConfig({
+          retryOptions: {
+            maxAttempts: 3,
+            minDelay: 1000,
+            maxDelay: 10000,
+            backoffFactor: 2,
+          },
+          hooks: { onRetry },
+        }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(onRetry).toHaveBeenCalledExactlyOnceWith({
+        attempt: 1,
+        delay: 10000,
+      });
+      expect(http.send).toHaveBeenCalledTimes(2);
+
+      d.dispose();
+    });
+
+    it("stops retrying Retry-After responses after max attempts", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const onSendFailure = vi.fn();
+
+      vi.mocked(http.send).mockResolvedValue({
+        status: 429,
+        headers: { "Retry-After": "1" },
+      });
+
+      const d = new Dispatcher(
+        createConfig({ hooks: { onSendFailure } }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(http.send).toHaveBeenCalledTimes(4);
+      expect(onSendFailure).toHaveBeenCalledExactlyOnceWith({
+        batchSize: 1,
+        error: "429: Too Many Requests",
+        attempt: 3,
+      });
+
+      d.dispose();
+    });
+  });
+
+  describe("circuit breaker", () => {
+    const createBreakerConfig = (overrides?: Partial<DispatcherConfig>) =>
+      createConfig({
+        retryOptions: {
+          maxAttempts: 1,
+          minDelay: 1000,
+          maxDelay: 360000,
+          backoffFactor: 2,
+        },
+        circuitBreaker: { failureThreshold: 2, cooldown: 10000 },
+        ...overrides,
+      });
+
+    it("opens after repeated failures and keeps events buffered", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const storage = createMockStorage();
+      const onCircuitStateChange = vi.fn();
+
+      vi.mocked(http.send).mockResolvedValue({ status: 503 });
+
+      const d = new Dispatcher(
+        createBreakerConfig({ hooks: { onCircuitStateChange } }),
+        http,
+        storage,
+      );
+
+      const e1 = createEvent("e1");
+      const e2 = createEvent("e2");
+
+      await d.enqueue(e1);
+      const p = d.flush();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await p;
+
+      expect(http.send).toHaveBeenCalledTimes(2);
+      expect(onCircuitStateChange).toHaveBeenCalledExactlyOnceWith({
+        state: "open",
+        previousState: "closed",
+      });
+
+      await d.enqueue(e2);
+      await d.flush();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(http.send).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(storage.save).mock.lastCall?.[0]).toEqual([
+        { ...e1, batchId: expect.any(String) as string },
+        e2,
+      ]);
+
+      d.dispose();
+    });
+
+    it("counts network errors as failures", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const onCircuitStateChange = vi.fn();
+
+      vi.mocked(http.send).mockRejectedValue(new Error("offline"));
+
+      const d = new Dispatcher(
+        createBreakerConfig({ hooks: { onCircuitStateChange } }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      const p = d.flush();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await p;
+
+      expect(onCircuitStateChange).toHaveBeenCalledExactlyOnceWith({
+        state: "open",
+        previousState: "closed",
+      });
+
+      d.dispose();
+    });
+
+    it("closes after a successful probe and sends the backlog", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const onCircuitStateChange = vi.fn();
+
+      vi.mocked(http.send)
+        .mockResolvedValueOnce({ status: 503 })
+        .mockResolvedValueOnce({ status: 503 });
+
+      const d = new Dispatcher(
+        createBreakerConfig({
+          batchOptions: { interval: 5000, size: 1, maxPayloadSize: 65536 },
+          hooks: { onCircuitStateChange },
+        }),
+        http,
+        createMockStorage(),
+      );
+
+      const e1 = createEvent("e1");
+      const e2 = createEvent("e2");
+      const p = d.enqueue(e1);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await p;
+      await d.enqueue(e2);
+
+      expect(http.send).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(http.send).toHaveBeenCalledTimes(4);
+      expect(vi.mocked(http.send).mock.calls[2]?.[0].events).toEqual([e1]);
+      expect(vi.mocked(http.send).mock.calls[3]?.[0].events).toEqual([e2]);
+      expect(onCircuitStateChange.mock.calls).toEqual([
+        [{ state: "open", previousState: "closed" }],
+        [{ state: "half_open", previousState: "open" }],
+        [{ state: "closed", previousState: "half_open" }],
+      ]);
+
+      d.dispose();
+    });
+
+    it("reopens when the probe fails", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const onCircuitStateChange = vi.fn();
+
+      vi.mocked(http.send).mockResolvedValue({ status: 503 });
+
+      const d = new Dispatcher(
+        createBreakerConfig({ hooks: { onCircuitStateChange } }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      const p = d.flush();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await p;
+      await vi.advanceTimersByTimeAsync(10000);
+
+      // A single probe, its retry is skipped
+      expect(http.send).toHaveBeenCalledTimes(3);
+      expect(onCircuitStateChange).toHaveBeenLastCalledWith({
+        state: "open",
+        previousState: "half_open",
+      });
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(http.send).toHaveBeenCalledTimes(4);
+
+      d.dispose();
+    });
+
+    it("holds the other lane while the probe is in flight", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      let resolveProbe: (response: HttpResponse) => void = () => {};
+
+      vi.mocked(http.send)
+        .mockResolvedValueOnce({ status: 503 })
+        .mockResolvedValueOnce({ status: 503 })
+        .mockReturnValueOnce(
+          new Promise(resolve => {
+            resolveProbe = resolve;
+          }),
+        );
+
+      const d = new Dispatcher(
+        createBreakerConfig(),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      const p = d.flush();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await p;
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(http.send).toHaveBeenCalledTimes(3);
+
+      const high: Event<TestMetadata> = {
+        ...createEvent("high"),
+        priority: "high",
+      };
+
+      await d.enqueue(high);
+
+      expect(http.send).toHaveBeenCalledTimes(3);
+
+      resolveProbe({ status: 200 });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(http.send).toHaveBeenCalledTimes(4);
+      expect(vi.mocked(http.send).mock.calls[3]?.[0].events).toEqual([high]);
+
+      d.dispose();
+    });
+
+    it("reschedules the held lane when the probe fails", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      let resolveProbe: (response: HttpResponse) => void = () => {};
+
+      vi.mocked(http.send)
+        .mockResolvedValueOnce({ status: 503 })
+        .mockResolvedValueOnce({ status: 503 })
+        .mockReturnValueOnce(
+          new Promise(resolve => {
+            resolveProbe = resolve;
+          }),
+        );
+
+      const d = new Dispatcher(
+        createBreakerConfig(),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      const p = d.flush();
+
+      await vi.advanceTimersByTimeAsync(12000);
+      await p;
+
+      const high: Event<TestMetadata> = {
+        ...createEvent("high"),
+        priority: "high",
+      };
+
+      await d.enqueue(high);
+      resolveProbe({ status: 503 });
+      await vi.advanceTimersByTimeAsync(9999);
+
+      expect(http.send).toHaveBeenCalledTimes(3);
+
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(http.send).toHaveBeenCalledTimes(5);
+      expect(vi.mocked(http.send).mock.calls[3]?.[0].events).toEqual([high]);
+
+      d.dispose();
+    });
+
+    it("closes when the probe is rejected as a client error", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const onDrop = vi.fn();
+
+      vi.mocked(http.send)
+        .mockResolvedValueOnce({ status: 503 })
+        .mockResolvedValueOnce({ status: 503 })
+        .mockResolvedValueOnce({ status: 400 });
+
+      const d = new Dispatcher(
+        createBreakerConfig({ hooks: { onDrop } }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      const p = d.flush();
+
+      await vi.advanceTimersByTimeAsync(12000);
+      await p;
+      await d.enqueue(createEvent("e2"));
+      await d.flush();
+
+      expect(onDrop).toHaveBeenCalledExactlyOnceWith({
+        eventCount: 1,
+        reason: "client_error",
+      });
+      expect(http.send).toHaveBeenCalledTimes(4);
+
+      d.dispose();
+    });
+
+    it("closes the circuit on restore", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+
+      vi.mocked(http.send)
+        .mockResolvedValueOnce({ status: 503 })
+        .mockResolvedValueOnce({ status: 503 });
+
+      const d = new Dispatcher(
+        createBreakerConfig(),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      const p = d.flush();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await p;
+
+      d.dispose();
+      await d.restore();
+      await d.enqueue(createEvent("e2"));
+      await d.flush();
+
+      expect(http.send).toHaveBeenCalledTimes(3);
+
+      d.dispose();
+    });
+  });
+
+  describe("idempotency", () => {
+    const retryOptions = {
+      maxAttempts: 1,
+      minDelay: 1,
+      maxDelay: 1,
+      backoffFactor: 1,
+    };
+
+    it("keeps the batch id across retries", async () => {
+      const http = createMockHttp();
+
+      vi.mocked(http.send)
+        .mockResolvedValueOnce({ status: 503 })
+        .mockResolvedValueOnce({ status: 200 });
+
+      const d = new Dispatcher(
+        createConfig({ retryOptions }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      const [[first], [second]] = vi.mocked(http.send).mock.calls as [
+        [HttpAdapterContext],
+        [HttpAdapterContext],
+      ];
+
+      expect(first.batchId).toEqual(expect.any(String));
+      expect(second.batchId).toBe(first.batchId);
+      expect(first.headers["Idempotency-Key"]).toBe(first.batchId);
+      expect(second.headers["Idempotency-Key"]).toBe(first.batchId);
+      expect([first.attempt, second.attempt]).toEqual([0, 1]);
+      expect(JSON.parse(second.body as string)).toEqual({
+        batchId: first.batchId,
+        sentAt: second.sentAt,
+        attempt: 1,
+        events: second.events,
+      });
+    });
+
+    it("sends events without their batch id", async () => {
+      const http = createMockHttp();
+      const d = new Dispatcher(createConfig(), http, createMockStorage());
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      const [context] = vi.mocked(http.send).mock.calls[0]!;
+
+      expect(context.events[0]).not.toHaveProperty("batchId");
+    });
+
+    it("resends a requeued batch with its id, apart from newer events", async () => {
+      const http = createMockHttp();
+      const d = new Dispatcher(
+        createConfig({ retryOptions: { ...retryOptions, maxAttempts: 0 } }),
+        http,
+        createMockStorage(),
+      );
+
+      vi.mocked(http.send).mockResolvedValueOnce({ status: 500 });
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+      await d.enqueue(createEvent("e2"));
+      await d.flush();
+
+      const [[failed], [resent], [next]] = vi.mocked(http.send).mock.calls as [
+        [HttpAdapterContext],
+        [HttpAdapterContext],
+        [HttpAdapterContext],
+      ];
+
+      expect(resent.batchId).toBe(failed.batchId);
+      expect(resent.events.map(event => event.name)).toEqual(["e1"]);
+      expect(next.batchId).not.toBe(failed.batchId);
+      expect(next.events.map(event => event.name)).toEqual(["e2"]);
+    });
+
+    it("keeps the batch id of persisted events after a restart", async () => {
+      const http = createMockHttp();
+      const storage = createMockStorage();
+      const config = createConfig({
+        retryOptions: { ...retryOptions, maxAttempts: 0 },
+      });
+
+      vi.mocked(http.send).mockResolvedValueOnce({ status: 500 });
+
+      const d = new Dispatcher(config, http, storage);
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+      d.dispose();
+
+      const [[failed]] = vi.mocked(http.send).mock.calls as [
+        [HttpAdapterContext],
+      ];
+
+      const persisted = vi.mocked(storage.save).mock.lastCall![0];
+
+      expect(persisted).toEqual([
+        expect.objectContaining({ name: "e1", batchId: failed.batchId }),
+      ]);
+
+      vi.mocked(storage.load).mockResolvedValue(persisted);
+
+      const restored = new Dispatcher(config, http, storage);
+
+      await restored.restore();
+      await restored.flush();
+
+      expect(http.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({ batchId: failed.batchId }),
+      );
+    });
+  });
+
+  describe("concurrency", () => {
+    it("enqueue during flush — new event is consumed by flush loop", async () => {
+      const http = createMockHttp();
+      const config = createConfig({
+        batchOptions: { interval: 5000, size: 2, maxPayloadSize: 65536 },
+      });
+
+      const d = new Dispatcher(config, http, createMockStorage());
+
+      // Enqueue 1 event, then flush. While flush awaits send, enqueue another.
+      let sendCount = 0;
+
+      vi.mocked(http.send).mockImplementation(async () => {
+        sendCount++;
+        if (sendCount === 1) {
+          // During first send, enqueue another event
+          await d.enqueue(createEvent("mid-flush"));
+        }
+
+        return { status: 200 };
+      });
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      // e1 sent in first batch. "mid-flush" enqueued during send,
+      // but flush already drained buffer before send. It should be picked up
+      // by auto-flush or next manual flush.
+      // The key: no data loss.
+      const allSentEvents = vi
+        .mocked(http.send)
+        .mock.calls.flatMap(c => c[0].events as Array<{ name: string }>);
+
+      const names = allSentEvents.map(e => e.name);
+
+      expect(names).toContain("e1");
+      // mid-flush was enqueued after buffer drain, triggers its own auto-flush
+      // (size=2 won't be reached, so scheduled flush handles it later)
+      // Verify it's at least in the buffer by flushing again
+      await d.flush();
+      const allEvents = vi
+        .mocked(http.send)
+        .mock.calls.flatMap(c => c[0].events as Array<{ name: string }>);
+
+      expect(allEvents.map(e => e.name)).toContain("mid-flush");
+    });
+
+    it("enqueue after flush succeeds preserves new event in storage", async () => {
+      const http = createMockHttp();
+      const storage = createMockStorage();
+      const d = new Dispatcher(createConfig(), http, storage);
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      // Now enqueue a new event after flush completed
+      await d.enqueue(createEvent("e2"));
+      await tick();
+
+      // The last persist should include e2
+      const lastSave = vi.mocked(storage.save).mock.lastCall![0] as Array<{
+        name: string;
+      }>;
+
+      expect(lastSave).toEqual([expect.objectContaining({ name: "e2" })]);
+    });
+  });
+
+  describe("priority lanes", () => {
+    const createHighEvent = (name: string): Event<TestMetadata> => ({
+      ...createEvent(name),
+      priority: "high",
+    });
+
+    it("flushes high-priority events immediately", async () => {
+      const http = createMockHttp();
+      const d = new Dispatcher(createConfig(), http, createMockStorage());
+
+      await d.enqueue(createEvent("bulk"));
+      await d.enqueue(createHighEvent("high"));
+
+      expect(http.send).toHaveBeenCalledExactlyOnceWith(
+        expect.objectContaining({
+          events: [expect.objectContaining({ name: "high" })],
+        }),
+      );
+
+      d.dispose();
+    });
+
+    it("flushes high-priority events on their own interval", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const d = new Dispatcher(
+        createConfig({ priorityInterval: 100 }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("bulk"));
+      await d.enqueue(createHighEvent("high"));
+      await vi.advanceTimersByTimeAsync(99);
+
+      expect(http.send).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(http.send).toHaveBeenCalledExactlyOnceWith(
+        expect.objectContaining({
+          events: [expect.objectContaining({ name: "high" })],
+        }),
+      );
+
+      d.dispose();
+    });
+
+    it("sends high-priority events while bulk batches are retrying", async () => {
+      const http = createMockHttp();
+
+      vi.mocked(http.send).mockResolvedValueOnce({ status: 500 });
+
+      const d = new Dispatcher(
+        createConfig({
+          batchOptions: { interval: 5000, size: 1, maxPayloadSize: 65536 },
+        }),
+        http,
+        createMockStorage(),
+      );
+
+      const bulk = d.enqueue(createEvent("bulk"));
+
+      await tick();
+      await d.enqueue(createHighEvent("high"));
+
+      expect(http.send).toHaveBeenCalledTimes(2);
+      expect(http.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          events: [expect.objectContaining({ name: "high" })],
+        }),
+      );
+
+      d.dispose();
+      await bulk;
+    });
+
+    it("splits high-priority batches by payload size", async () => {
+      vi.useFakeTimers();
+
+      const http = createMockHttp();
+      const eventSize = JSON.stringify(createHighEvent("h1")).length;
+      const d = new Dispatcher(
+        createConfig({
+          priorityInterval: 100,
+          batchOptions: {
+            interval: 5000,
+            size: 10,
+            maxPayloadSize: eventSize + 1,
+          },
+        }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createHighEvent("h1"));
+      await d.enqueue(createHighEvent("h2"));
+      await d.flush();
+
+      expect(http.send).toHaveBeenCalledTimes(2);
+
+      d.dispose();
+    });
+
+    it("persists both lanes and restores events to their lane", async () => {
+      vi.useFakeTimers();
+
+      const storage = createMockStorage();
+      const d = new Dispatcher(
+        createConfig({ priorityInterval: 100 }),
+        createMockHttp(),
+        storage,
+      );
+
+      await d.enqueue(createEvent("bulk"));
+      await d.enqueue(createHighEvent("high"));
+      await vi.advanceTimersByTimeAsync(0);
+
+      const { calls } = vi.mocked(storage.save).mock;
+
+      expect(calls[calls.length - 1]![0]).toEqual([
+        expect.objectContaining({ name: "bulk" }),
+        expect.objectContaining({ name: "high" }),
+      ]);
+
+      d.dispose();
+
+      const restoredHttp = createMockHttp();
+      const restored = new Dispatcher(createConfig(), restoredHttp, storage);
+
+      vi.mocked(storage.load).mockResolvedValue([
+        createEvent("bulk"),
+        createHighEvent("high"),
+      ]);
+
+      await restored.restore();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(restoredHttp.send).toHaveBeenCalledExactlyOnceWith(
+        expect.objectContaining({
+          events: [expect.objectContaining({ name: "high" })],
+        }),
+      );
+
+      restored.dispose();
+    });
+  });
+
+  describe("restore", () => {
+    it("loads persisted events and schedules flush", async () => {
+      vi.useFakeTimers();
+      const http = createMockHttp();
+      const storage = createMockStorage();
+
+      vi.mocked(storage.load).mockResolvedValue([
+        createEvent("e1"),
+        createEvent("e2"),
+      ]);
+
+      const config = createConfig({
+        batchOptions: { interval: 100, size: 10, maxPayloadSize: 65536 },
+      });
 
       const d = new Dispatcher(config, http, storage);
 
@@ -992,4 +2342,197 @@ describe("Dispatcher", () => {
       expect(sentEvents[2]?.name).toBe("p5");
     });
   });
+
+  describe("delivery", () => {
+    const createRetrylessConfig = (
+      overrides?: Partial<DispatcherConfig>,
+    ): DispatcherConfig =>
+      createConfig({
+        retryOptions: {
+          maxAttempts: 0,
+          minDelay: 1,
+          maxDelay: 1,
+          backoffFactor: 1,
+        },
+        ...overrides,
+      });
+
+    it("resolves delivered events on 2xx", async () => {
+      const delivery = new DeliveryTracker();
+      const resolveSpy = vi.spyOn(delivery, "resolve");
+      const d = new Dispatcher(
+        createConfig({ delivery }),
+        createMockHttp(),
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.flush();
+
+      expect(resolveSpy).toHaveBeenCalledWith([
+        expect.objectContaining({ eventId: "evt-e1" }),
+      ]);
+    });
+
+    it.each([400, 301])(
+      "rejects dropped events with client_error on %i",
+      async status => {
+        const http = createMockHttp();
+        const delivery = new DeliveryTracker();
+        const rejectSpy = vi.spyOn(delivery, "reject");
+
+        vi.mocked(http.send).mockResolvedValue({ status });
+
+        const d = new Dispatcher(
+          createConfig({ delivery }),
+          http,
+          createMockStorage(),
+        );
+
+        await d.enqueue(createEvent("e1"));
+        await d.flush();
+
+        expect(rejectSpy).toHaveBeenCalledWith(
+          [expect.objectContaining({ eventId: "evt-e1" })],
+          "client_error",
+        );
+      },
+    );
+
+    it("rejects expired events", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(10000);
+
+      const delivery = new DeliveryTracker();
+      const rejectSpy = vi.spyOn(delivery, "reject");
+      const d = new Dispatcher(
+        createConfig({ eventTtl: 5000, delivery }),
+        createMockHttp(),
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("old", 3000));
+      await d.flush();
+
+      expect(rejectSpy).toHaveBeenCalledWith(
+        [expect.objectContaining({ eventId: "evt-old" })],
+        "expired",
+      );
+    });
+
+    it.each([
+      ["5xx", { status: 500 }],
+      ["network error", new Error("Network")],
+    ])(
+      "rejects events with max_retries after retries are exhausted (%s)",
+      async (_, outcome) => {
+        const http = createMockHttp();
+        const delivery = new DeliveryTracker();
+        const rejectSpy = vi.spyOn(delivery, "reject");
+
+        if (outcome instanceof Error) {
+          vi.mocked(http.send).mockRejectedValue(outcome);
+        } else {
+          vi.mocked(http.send).mockResolvedValue(outcome);
+        }
+
+        const d = new Dispatcher(
+          createRetrylessConfig({ delivery }),
+          http,
+          createMockStorage(),
+        );
+
+        await d.enqueue(createEvent("e1"));
+        await d.flush();
+
+        expect(rejectSpy).toHaveBeenCalledWith(
+          [expect.objectContaining({ eventId: "evt-e1" })],
+          "max_retries",
+        );
+
+        // The events stay queued for the next flush
+        vi.mocked(http.send).mockReset().mockResolvedValue({ status: 200 });
+        await d.flush();
+
+        expect(http.send).toHaveBeenCalledWith(
+          expect.objectContaining({
+            events: [expect.objectContaining({ eventId: "evt-e1" })],
+          }),
+        );
+      },
+    );
+
+    it("rejects events evicted from a full buffer", async () => {
+      const http = createMockHttp();
+      const delivery = new DeliveryTracker();
+      const rejectSpy = vi.spyOn(delivery, "reject");
+
+      vi.mocked(http.send).mockResolvedValue({ status: 500 });
+
+      const d = new Dispatcher(
+        createRetrylessConfig({
+          batchOptions: { interval: 5000, size: 2, maxPayloadSize: 65536 },
+          maxBufferSize: 2,
+          delivery,
+        }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+      await d.enqueue(createEvent("e2"));
+      await d.enqueue(createEvent("e3"));
+
+      expect(rejectSpy).toHaveBeenCalledWith(
+        [expect.objectContaining({ eventId: "evt-e1" })],
+        "evicted",
+      );
+    });
+
+    it("rejects events evicted when requeueing a failed batch", async () => {
+      const http = createMockHttp();
+      const delivery = new DeliveryTracker();
+      const rejectSpy = vi.spyOn(delivery, "reject");
+
+      let failSend: () => void = () => {};
+
+      vi.mocked(http.send).mockReturnValueOnce(
+        new Promise(resolve => {
+          failSend = () => resolve({ status: 500 });
+        }),
+      );
+
+      const d = new Dispatcher(
+        createRetrylessConfig({
+          batchOptions: { interval: 5000, size: 2, maxPayloadSize: 65536 },
+          maxBufferSize: 2,
+          delivery,
+        }),
+        http,
+        createMockStorage(),
+      );
+
+      await d.enqueue(createEvent("e1"));
+
+      // Auto-flush of [e1, e2] stays in flight while e3 and e4 are buffered
+      const inFlight = d.enqueue(createEvent("e2"));
+
+      await tick();
+      await d.enqueue(createEvent("e3"));
+
+      const nextFlush = d.enqueue(createEvent("e4"));
+
+      failSend();
+      await inFlight;
+      await nextFlush;
+
+      expect(rejectSpy).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ eventId: "evt-e1" }),
+          expect.objectContaining({ eventId: "evt-e2" }),
+        ],
+        "evicted",
+      );
+    });
+  });
 });
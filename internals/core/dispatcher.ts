@@ -5,10 +5,33 @@ import {
   type StorageAdapter,
 } from "./adapters/storage-adapter.ts";
 import { Buffer } from "./buffer.ts";
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+} from "./circuit-breaker.ts";
+import type { ClockSync } from "./clock-sync.ts";
+import type { Compressor } from "./compression.ts";
+import type { DeadLetterQueue } from "./dead-letter-queue.ts";
+import type { DeliveryTracker } from "./delivery-tracker.ts";
 import { Mutex, MutexDisposedError } from "./mutex.ts";
+import type { Serializer } from "./serializer.ts";
 import type { TelemetryHooks } from "./telemetry.ts";
-import type { Event } from "./types.ts";
-import { calculateBackoff, delay, DelayAbortedError } from "./utils.ts";
+import type {
+  Event,
+  EventPriority,
+  HttpResponse,
+  RejectedEvent,
+} from "./types.ts";
+import {
+  byteLength,
+  calculateBackoff,
+  delay,
+  DelayAbortedError,
+  IdGenerator,
+  parseRejectedEvents,
+  parseRetryAfter,
+} from "./utils.ts";
 
 /**
  * Batching configuration.
@@ -41,7 +64,8 @@ export type RetryOptions = {
    */
   minDelay?: number;
   /**
-   * Maximum delay in milliseconds between retries (default: `360000`).
+   * Maximum delay in milliseconds between retries, `Retry-After` delays
+   * included (default: `360000`).
    */
   maxDelay?: number;
   /**
@@ -50,6 +74,22 @@ export type RetryOptions = {
   backoffFactor?: number;
 };
 
+/**
+ * Priority lane configuration.
+ */
+export type PriorityOptions = {
+  /**
+   * Priority per event name (default: `"normal"`). High-priority events skip
+   * the bulk buffer and its flush interval.
+   */
+  events?: Record<string, EventPriority>;
+  /**
+   * Interval in milliseconds between automatic flushes of the high-priority
+   * lane (default: `0`, flush as soon as an event is enqueued).
+   */
+  interval?: number;
+};
+
 /**
  * Configuration for the Dispatcher.
  */
@@ -74,6 +114,11 @@ export type DispatcherConfig = {
    * Retry options
    */
   retryOptions: Required<RetryOptions>;
+  /**
+   * Interval in milliseconds between automatic flushes of the high-priority
+   * lane. `0` flushes as soon as an event is enqueued.
+   */
+  priorityInterval: number;
   /**
    * Logger for internal logging
    */
@@ -93,25 +138,157 @@ export type DispatcherConfig = {
    * Telemetry hooks for monitoring.
    */
   hooks: TelemetryHooks;
+  /**
+   * Tracker notified when events are delivered or dropped.
+   */
+  delivery: DeliveryTracker;
+  /**
+   * Clock offset estimator updated from the server time of responses.
+   * `null` disables clock-skew correction.
+   */
+  clock: ClockSync | null;
+  /**
+   * Circuit breaker options. `null` disables the circuit breaker.
+   */
+  circuitBreaker: CircuitBreakerOptions | null;
+  /**
+   * Request body compressor. `null` sends bodies uncompressed.
+   */
+  compressor: Compressor | null;
+  /**
+   * Wire encoding of request bodies.
+   */
+  serializer: Serializer;
+  /**
+   * Store keeping the batches dropped on 4xx responses. `null` drops them.
+   */
+  deadLetters: DeadLetterQueue | null;
+};
+
+/**
+ * Validate the batch size against the buffer size.
+ *
+ * @param maxBufferSize The maximum buffer size
+ * @param batchOptions The batching options
+ * @throws {Error} When the batch size exceeds the buffer size
+ */
+const assertBatchSize = (
+  maxBufferSize: number,
+  batchOptions: Required<BatchOptions>,
+): void => {
+  if (maxBufferSize < batchOptions.size) {
+    throw new Error(
+      `Invalid configuration: maxBufferSize (${maxBufferSize}) must be >= batchOptions.size (${batchOptions.size}). ` +
+        `The batch size will never be reached and events will be dropped unnecessarily.`,
+    );
+  }
+};
+
+/**
+ * A queued event, stamped with the id of the batch it was first sent in so
+ * the batch keeps its id across retries, requeues and restarts.
+ */
+type QueuedEvent<TMetadata extends Record<string, unknown>> =
+  Event<TMetadata> & {
+    batchId?: string;
+    attempt?: number;
+  };
+
+/**
+ * Get the id of a batch, stamping its events with a new one on the first send.
+ * Stamped copies replace the events in the array, the tracked events are left
+ * untouched.
+ *
+ * @param batch The events of the batch
+ * @returns The batch id
+ */
+const stampBatch = <TMetadata extends Record<string, unknown>>(
+  batch: QueuedEvent<TMetadata>[],
+): string => {
+  const batchId = batch[0]?.batchId ?? IdGenerator.generate();
+
+  batch.forEach((event, index) => {
+    if (event.batchId !== batchId) batch[index] = { ...event, batchId };
+  });
+
+  return batchId;
+};
+
+/**
+ * Stamp the events of a batch with the retry attempt to resume from once
+ * they're requeued. The stamp is removed to start over from the first one.
+ *
+ * @param batch The events of the batch
+ * @param attempt The next retry attempt
+ */
+const stampAttempt = <TMetadata extends Record<string, unknown>>(
+  batch: QueuedEvent<TMetadata>[],
+  attempt: number,
+): void => {
+  batch.forEach(({ attempt: _, ...event }, index) => {
+    batch[index] = attempt > 0 ? { ...event, attempt } : event;
+  });
 };
 
+/**
+ * Remove the batch stamps of a queued event before it's sent.
+ *
+ * @param event The queued event
+ * @returns The event without its batch id and retry attempt
+ */
+const unstamp = <TMetadata extends Record<string, unknown>>({
+  batchId: _,
+  attempt: __,
+  ...event
+}: QueuedEvent<TMetadata>): Event<TMetadata> => event;
+
+/**
+ * A queue of events flushed independently of the others, so a batch stuck in
+ * retries doesn't hold back the events of another lane.
+ */
+type Lane<TMetadata extends Record<string, unknown>> = {
+  buffer: Buffer<QueuedEvent<TMetadata>>;
+  flushMutex: Mutex;
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+/**
+ * Create an empty lane.
+ *
+ * @param maxBufferSize Maximum number of events the lane's buffer can hold
+ * @returns The lane
+ */
+const createLane = <TMetadata extends Record<string, unknown>>(
+  maxBufferSize: number,
+): Lane<TMetadata> => ({
+  buffer: new Buffer<QueuedEvent<TMetadata>>(maxBufferSize),
+  flushMutex: new Mutex(),
+  timer: null,
+});
+
 /**
  * Manages event queuing, batching, flushing, and retry logic.
  * Automatically flushes events based on batch size or time interval.
  * Implements exponential backoff with jitter for retries.
+ * High-priority events go through a separate lane with its own interval.
  *
  * @template TMetadata The type of metadata attached to events
  */
 export class Dispatcher<
   TMetadata extends Record<string, unknown> = Record<string, unknown>,
 > {
-  #buffer!: Buffer<Event<TMetadata>>;
-  #flushMutex = new Mutex();
+  readonly #bulk: Lane<TMetadata>;
+  readonly #priority: Lane<TMetadata>;
+  readonly #breaker: CircuitBreaker | null;
+
   #storageMutex = new Mutex();
   #retryAbortController = new AbortController();
 
-  #timer: ReturnType<typeof setTimeout> | null = null;
-
+  /**
+   * UNIX timestamp in milliseconds until which all sends are paused, as
+   * requested by the server's `Retry-After` header.
+   */
+  #pausedUntil = 0;
   #disposed = false;
 
   readonly #config: DispatcherConfig;
@@ -131,19 +308,37 @@ export class Dispatcher<
     httpClient: HttpAdapter,
     storage: StorageAdapter,
   ) {
-    // Validate configuration
-    if (config.maxBufferSize < config.batchOptions.size) {
-      throw new Error(
-        `Invalid configuration: maxBufferSize (${config.maxBufferSize}) must be >= batchOptions.size (${config.batchOptions.size}). ` +
-          `The batch size will never be reached and events will be dropped unnecessarily.`,
-      );
-    }
+    assertBatchSize(config.maxBufferSize, config.batchOptions);
 
-    this.#config = config;
+    this.#config = { ...config };
     this.#httpClient = httpClient;
     this.#storage = storage;
     this.#logger = config.logger;
-    this.#buffer = new Buffer<Event<TMetadata>>(config.maxBufferSize);
+    this.#bulk = createLane<TMetadata>(config.maxBufferSize);
+    this.#priority = createLane<TMetadata>(config.maxBufferSize);
+    this.#breaker = config.circuitBreaker
+      ? new CircuitBreaker(config.circuitBreaker, (state, previousState) =>
+          this.#onCircuitStateChange(state, previousState),
+        )
+      : null;
+  }
+
+  /**
+   * Replace the batching and retry options at runtime.
+   * Takes effect from the next flush or retry.
+   *
+   * @param batchOptions The batching options
+   * @param retryOptions The retry options
+   * @throws {Error} When the batch size exceeds the buffer size
+   */
+  public configure(
+    batchOptions: Required<BatchOptions>,
+    retryOptions: Required<RetryOptions>,
+  ): void {
+    assertBatchSize(this.#config.maxBufferSize, batchOptions);
+
+    this.#config.batchOptions = batchOptions;
+    this.#config.retryOptions = retryOptions;
   }
 
   /**
@@ -159,40 +354,70 @@ export class Dispatcher<
       return;
     }
 
-    this.#buffer.enqueue(event);
-    this.#config.hooks.onEnqueue?.({ bufferSize: this.#buffer.size() });
+    const lane = event.priority === "high" ? this.#priority : this.#bulk;
+    const evicted = lane.buffer.enqueue(event);
+
+    if (evicted) this.#config.delivery.reject([evicted], "evicted");
+
+    this.#config.hooks.onEnqueue?.({ bufferSize: this.#size() });
 
     // Fire-and-forget: the in-memory buffer is the source of truth here.
     // Persistence is a best-effort durability snapshot; callers shouldn't
     // block on disk I/O in the hot path.
     void this.#persistBuffer();
 
-    if (this.#buffer.size() >= this.#config.batchOptions.size) {
-      await this.flush();
+    if (
+      lane.buffer.size() >= this.#config.batchOptions.size ||
+      (lane === this.#priority && this.#config.priorityInterval === 0)
+    ) {
+      await this.#flushLane(lane);
     } else {
-      this.#scheduleFlush();
+      this.#scheduleFlush(lane);
     }
   }
 
   /**
-   * Immediately flush all queued events.
+   * Immediately flush all queued events of both lanes.
    * Cancels any scheduled flush.
-   * Uses mutex to prevent concurrent flush operations.
    */
   public async flush(): Promise<void> {
+    await Promise.all([
+      this.#flushLane(this.#priority),
+      this.#flushLane(this.#bulk),
+    ]);
+  }
+
+  /**
+   * Flush all queued events of a lane.
+   * Uses the lane's mutex to prevent concurrent flush operations.
+   *
+   * @param lane The lane to flush
+   */
+  async #flushLane(lane: Lane<TMetadata>): Promise<void> {
     /*
       Drains the buffer incrementally via dequeue(), building and sending one
       batch at a time. This streaming approach avoids allocating intermediate
       arrays (no toArray + filterExpired + createBatches), keeping peak memory
       at ~1 batch size regardless of total buffer contents.
     */
-    await this.#flushMutex.runAtomic(async () => {
-      if (this.#timer) {
-        clearTimeout(this.#timer);
-        this.#timer = null;
+    await lane.flushMutex.runAtomic(async () => {
+      if (lane.timer) {
+        clearTimeout(lane.timer);
+        lane.timer = null;
       }
 
-      if (this.#buffer.isEmpty()) return;
+      if (lane.buffer.isEmpty()) return;
+
+      // Open circuit or paused by the server: keep the events buffered
+      // without touching the network, nor holding the mutex while waiting
+      if (
+        (this.#breaker && !this.#breaker.canSend()) ||
+        this.#pausedUntil > Date.now()
+      ) {
+        this.#deferFlush(lane);
+
+        return;
+      }
 
       const { size, maxPayloadSize } = this.#config.batchOptions;
       const ttl = this.#config.eventTtl;
@@ -202,31 +427,38 @@ export class Dispatcher<
       let totalBatches = 0;
       let droppedCount = 0;
 
-      let batch: Event<TMetadata>[] = [];
+      let batch: QueuedEvent<TMetadata>[] = [];
       let batchPayloadSize = 0;
 
       // Drain the buffer one event at a time. For each event:
       // 1. Filter expired events inline (no separate pass)
       // 2. Check if adding it would overflow the current batch
       // 3. If overflow: send the current batch, then start a new one
-      while (!this.#buffer.isEmpty()) {
-        const event = this.#buffer.dequeue()!;
+      while (!lane.buffer.isEmpty()) {
+        const event = lane.buffer.dequeue()!;
 
         // Inline TTL filtering — skip expired events without allocating a filtered array
         if (ttl !== null && now - event.issuedAt > ttl) {
           droppedCount++;
+          this.#config.delivery.reject([event], "expired");
 
           continue;
         }
 
-        const eventSize = JSON.stringify(event).length;
+        const serializedSize = byteLength(JSON.stringify(event));
+        const eventSize =
+          this.#config.compressor?.estimateSize(serializedSize) ??
+          serializedSize;
 
         // Batch boundary: send current batch when adding this event would
-        // exceed either the count limit or payload size limit
+        // exceed either the count limit or payload size limit. Events of a
+        // batch already sent once stay together, so it's resent with its id.
         if (
           batch.length > 0 &&
-          (batch.length >= size ||
-            batchPayloadSize + eventSize > maxPayloadSize)
+          (event.batchId !== batch[0]!.batchId ||
+            (event.batchId === undefined &&
+              (batch.length >= size ||
+                batchPayloadSize + eventSize > maxPayloadSize)))
         ) {
           totalEvents += batch.length;
           totalBatches++;
@@ -237,7 +469,8 @@ export class Dispatcher<
             // On failure, requeue the failed batch + the current event (already
             // dequeued but not yet in any batch). Remaining buffer events are
             // preserved since they haven't been dequeued yet.
-            await this.#requeueBatch([...batch, event]);
+            await this.#requeueBatch(lane, [...batch, event]);
+            this.#deferFlush(lane);
 
             return;
           }
@@ -270,7 +503,8 @@ export class Dispatcher<
         const success = await this.#sendWithRetry(batch);
 
         if (!success) {
-          await this.#requeueBatch(batch);
+          await this.#requeueBatch(lane, batch);
+          this.#deferFlush(lane);
 
           return;
         }
@@ -280,34 +514,104 @@ export class Dispatcher<
 
   /**
    * Send events with exponential backoff retry logic.
+   * Every attempt carries the same batch id as its idempotency key.
    *
-   * @param events Events to send
-   * @param attempt Current retry attempt number
+   * @param events Events to send, narrowed down to the events to requeue when
+   * the server rejects part of the batch
+   * @param attempt Current retry attempt number, resumed from the requeued
+   * events
    * @returns Whether the send was successful (or non-retryable)
    */
   async #sendWithRetry(
-    events: Event<TMetadata>[],
-    attempt: number = 0,
+    events: QueuedEvent<TMetadata>[],
+    attempt: number = events[0]?.attempt ?? 0,
   ): Promise<boolean> {
+    if (this.#breaker && !this.#breaker.tryAcquire()) {
+      this.#logger.debug("Circuit open, skipping send", {
+        eventsCount: events.length,
+      });
+
+      return false;
+    }
+
     try {
+      const sentAt = Date.now();
+      const batchId = stampBatch(events);
+      const payload = events.map(unstamp);
+      const { compressor, serializer } = this.#config;
+      const headers: Record<string, string> = {
+        [this.#config.apiKeyHeader]: this.#config.apiKey,
+        "Content-Type": serializer.contentType,
+        "Idempotency-Key": batchId,
+      };
+
+      const encoded = serializer.serialize(payload, {
+        batchId,
+        sentAt,
+        attempt,
+      });
+
+      const compressed = compressor && (await compressor.compress(encoded));
+
+      if (compressor && compressed) {
+        headers["Content-Encoding"] = compressor.getEncoding();
+      }
+
       const response = await this.#httpClient.send({
-        events,
+        events: payload,
+        batchId,
+        sentAt,
+        attempt,
         endpoint: this.#config.endpoint,
-        headers: {
-          [this.#config.apiKeyHeader]: this.#config.apiKey,
-          "Content-Type": "application/json",
-        },
+        headers,
         apiKeyHeader: this.#config.apiKeyHeader,
+        body: compressed || encoded,
       });
 
+      this.#config.clock?.update(response, sentAt, Date.now());
+
+      if (response.status === 429 || response.status >= 500) {
+        this.#breaker?.recordFailure();
+      } else {
+        this.#breaker?.recordSuccess();
+      }
+
       return await this.#handleResponse(response, events, attempt);
     } catch (err) {
       return await this.#handleNetworkError(err, events, attempt);
     }
   }
 
+  /**
+   * Read the `Retry-After` header of a response and pause all sends until then.
+   * The delay is capped by `retryOptions.maxDelay`.
+   *
+   * @param response HTTP response
+   * @returns The requested delay in milliseconds, or null if none
+   */
+  #readRetryAfter(response: HttpResponse): number | null {
+    const { headers = {} } = response;
+    const header = Object.keys(headers).find(
+      name => name.toLowerCase() === "retry-after",
+    );
+
+    if (header === undefined) return null;
+
+    const parsed = parseRetryAfter(headers[header]!);
+
+    if (parsed === null) return null;
+
+    const retryAfter = Math.min(parsed, this.#config.retryOptions.maxDelay);
+
+    this.#pausedUntil = Math.max(this.#pausedUntil, Date.now() + retryAfter);
+
+    return retryAfter;
+  }
+
   /**
    * Handle HTTP response based on status code.
+   * 429 and 5xx are retried; other 4xx are dropped, to the dead-letter queue
+   * if any.
    *
    * @param response HTTP response
    * @param events Events that were sent
@@ -315,11 +619,23 @@ export class Dispatcher<
    * @returns Whether the request was successful (or non-retryable)
    */
   async #handleResponse(
-    response: { status: number },
-    events: Event<TMetadata>[],
+    response: HttpResponse,
+    events: QueuedEvent<TMetadata>[],
     attempt: number,
   ): Promise<boolean> {
-    if (response.status >= 200 && response.status < 300) {
+    const rejected =
+      response.status >= 200 && response.status < 300
+        ? parseRejectedEvents(response.data)
+        : [];
+
+    if (rejected.length > 0) {
+      return await this.#handlePartialSuccess(
+        response,
+        events,
+        rejected,
+        attempt,
+      );
+    } else if (response.status >= 200 && response.status < 300) {
       // Awaited: storage must reflect the drained buffer before flush
       // completes, otherwise a crash + restore would re-send these events.
       await this.#persistBuffer();
@@ -329,13 +645,18 @@ export class Dispatcher<
         status: response.status,
       });
 
+      this.#config.delivery.resolve(events);
+
       return true;
+    } else if (response.status === 429 || response.status >= 500) {
+      return await this.#handleServerError(response, events, attempt);
     } else if (response.status >= 400 && response.status < 500) {
       this.#logger.warn("4xx client error, dropping events", {
         status: response.status,
         eventsCount: events.length,
       });
 
+      await this.#config.deadLetters?.add(events.map(unstamp), response);
       await this.#persistBuffer();
 
       this.#config.hooks.onDrop?.({
@@ -343,9 +664,9 @@ export class Dispatcher<
         reason: "client_error",
       });
 
+      this.#config.delivery.reject(events, "client_error");
+
       return true;
-    } else if (response.status >= 500) {
-      return await this.#handleServerError(response.status, events, attempt);
     } else {
       // 1xx, 3xx: Unexpected status codes, treat as client error and drop
       this.#logger.warn("Unexpected status code, dropping events", {
@@ -355,55 +676,149 @@ export class Dispatcher<
 
       await this.#persistBuffer();
 
+      this.#config.delivery.reject(events, "client_error");
+
       return true;
     }
   }
 
   /**
-   * Handle 5xx server errors with retry logic.
+   * Handle a 2xx response rejecting part of the batch. Permanently rejected
+   * events are dropped and the rest of the batch counts as delivered.
+   * Retryable events are retried with backoff as a new batch, the server
+   * already holds the current one, and left in `events` to be requeued once
+   * out of retries.
    *
-   * @param status HTTP status code
+   * @param response HTTP response
+   * @param events Events that were sent
+   * @param rejected Events the server rejected
+   * @param attempt Current retry attempt
+   * @returns Whether the retryable events were eventually delivered
+   */
+  async #handlePartialSuccess(
+    response: HttpResponse,
+    events: QueuedEvent<TMetadata>[],
+    rejected: RejectedEvent[],
+    attempt: number,
+  ): Promise<boolean> {
+    const rejections = new Map(rejected.map(entry => [entry.eventId, entry]));
+    const delivered: Event<TMetadata>[] = [];
+    const dropped: Event<TMetadata>[] = [];
+    const retryable: QueuedEvent<TMetadata>[] = [];
+    const reasons = new Map<string | null, number>();
+
+    for (const event of events) {
+      const rejection = rejections.get(event.eventId);
+
+      if (!rejection) {
+        delivered.push(event);
+      } else if (rejection.retryable) {
+        retryable.push(unstamp(event));
+      } else {
+        const reason = rejection.reason ?? null;
+
+        dropped.push(event);
+        reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+      }
+    }
+
+    this.#config.hooks.onSendSuccess?.({
+      batchSize: events.length,
+      status: response.status,
+    });
+
+    if (dropped.length > 0) {
+      this.#logger.warn("Events rejected by the server, dropping", {
+        eventsCount: dropped.length,
+        reasons: [...reasons.keys()].filter(reason => reason !== null),
+      });
+
+      for (const [reason, eventCount] of reasons) {
+        this.#config.hooks.onDrop?.({
+          eventCount,
+          reason: "rejected",
+          ...(reason !== null && { detail: reason }),
+        });
+      }
+
+      this.#config.delivery.reject(dropped, "rejected");
+    }
+
+    this.#config.delivery.resolve(delivered);
+
+    if (retryable.length === 0) {
+      await this.#persistBuffer();
+
+      return true;
+    }
+
+    events.splice(0, events.length, ...retryable);
+
+    if (attempt < this.#config.retryOptions.maxAttempts) {
+      this.#logger.warn("Events rejected by the server, retrying", {
+        eventsCount: events.length,
+        attempt: attempt + 1,
+        maxRetries: this.#config.retryOptions.maxAttempts,
+      });
+
+      return await this.#retryWithBackoff(events, attempt);
+    }
+
+    this.#logger.error("Events rejected by the server, max retries reached", {
+      maxRetries: this.#config.retryOptions.maxAttempts,
+      eventsCount: events.length,
+    });
+
+    this.#config.hooks.onSendFailure?.({
+      batchSize: events.length,
+      error: `${response.status}: Events rejected by the server`,
+      attempt,
+    });
+
+    this.#config.delivery.reject(events, "max_retries");
+
+    return false;
+  }
+
+  /**
+   * Handle 429 and 5xx responses with retry logic.
+   * A `Retry-After` header overrides the backoff delay and pauses all sends:
+   * the batch is requeued to be retried once the pause is over.
+   *
+   * @param response HTTP response
    * @param events Events to retry
    * @param attempt Current retry attempt
    * @returns Whether the retry eventually succeeded
    */
   async #handleServerError(
-    status: number,
-    events: Event<TMetadata>[],
+    response: HttpResponse,
+    events: QueuedEvent<TMetadata>[],
     attempt: number,
   ): Promise<boolean> {
+    const { status } = response;
+    const label = status === 429 ? "429 too many requests" : "5xx server error";
+    const retryAfter = this.#readRetryAfter(response);
+
     if (attempt < this.#config.retryOptions.maxAttempts) {
-      this.#logger.warn("5xx server error, retrying", {
+      this.#logger.warn(`${label}, retrying`, {
         status,
         attempt: attempt + 1,
         maxRetries: this.#config.retryOptions.maxAttempts,
       });
 
-      try {
-        const backoffDelay = calculateBackoff(
-          attempt,
-          this.#config.retryOptions.minDelay,
-          this.#config.retryOptions.maxDelay,
-          this.#config.retryOptions.backoffFactor,
-        );
-
+      if (retryAfter !== null) {
         this.#config.hooks.onRetry?.({
           attempt: attempt + 1,
-          delay: backoffDelay,
+          delay: retryAfter,
         });
+        stampAttempt(events, attempt + 1);
 
-        await delay(backoffDelay, this.#retryAbortController.signal);
-
-        return await this.#sendWithRetry(events, attempt + 1);
-      } catch (err) {
-        /* v8 ignore next -- @preserve */
-        if (err instanceof DelayAbortedError) return false;
-
-        /* v8 ignore next -- @preserve */
-        throw err;
+        return false;
       }
+
+      return await this.#retryWithBackoff(events, attempt);
     } else {
-      this.#logger.error("5xx server error, max retries reached", {
+      this.#logger.error(`${label}, max retries reached`, {
         status,
         maxRetries: this.#config.retryOptions.maxAttempts,
         eventsCount: events.length,
@@ -411,14 +826,54 @@ export class Dispatcher<
 
       this.#config.hooks.onSendFailure?.({
         batchSize: events.length,
-        error: `5xx: ${status}`,
+        error: status === 429 ? "429: Too Many Requests" : `5xx: ${status}`,
         attempt,
       });
 
+      // The next flush starts over with a new series of retries
+      stampAttempt(events, 0);
+      this.#config.delivery.reject(events, "max_retries");
+
       return false;
     }
   }
 
+  /**
+   * Wait for the backoff delay of a retry attempt, then send the events again.
+   *
+   * @param events Events to retry
+   * @param attempt Current retry attempt
+   * @returns Whether the retry eventually succeeded
+   */
+  async #retryWithBackoff(
+    events: QueuedEvent<TMetadata>[],
+    attempt: number,
+  ): Promise<boolean> {
+    try {
+      const backoffDelay = calculateBackoff(
+        attempt,
+        this.#config.retryOptions.minDelay,
+        this.#config.retryOptions.maxDelay,
+        this.#config.retryOptions.backoffFactor,
+      );
+
+      this.#config.hooks.onRetry?.({
+        attempt: attempt + 1,
+        delay: backoffDelay,
+      });
+
+      await delay(backoffDelay, this.#retryAbortController.signal);
+
+      return await this.#sendWithRetry(events, attempt + 1);
+    } catch (err) {
+      /* v8 ignore next -- @preserve */
+      if (err instanceof DelayAbortedError) return false;
+
+      /* v8 ignore next -- @preserve */
+      throw err;
+    }
+  }
+
   /**
    * Handle network errors with retry logic.
    *
@@ -429,12 +884,13 @@ export class Dispatcher<
    */
   async #handleNetworkError(
     err: unknown,
-    events: Event<TMetadata>[],
+    events: QueuedEvent<TMetadata>[],
     attempt: number,
   ): Promise<boolean> {
     /* v8 ignore next -- @preserve */
     if (err instanceof DelayAbortedError) return false;
 
+    this.#breaker?.recordFailure();
     this.#logger.error("Network error occurred", { err });
 
     if (attempt < this.#config.retryOptions.maxAttempts) {
@@ -444,29 +900,7 @@ export class Dispatcher<
         error: err instanceof Error ? err.message : String(err),
       });
 
-      try {
-        const backoffDelay = calculateBackoff(
-          attempt,
-          this.#config.retryOptions.minDelay,
-          this.#config.retryOptions.maxDelay,
-          this.#config.retryOptions.backoffFactor,
-        );
-
-        this.#config.hooks.onRetry?.({
-          attempt: attempt + 1,
-          delay: backoffDelay,
-        });
-
-        await delay(backoffDelay, this.#retryAbortController.signal);
-
-        return await this.#sendWithRetry(events, attempt + 1);
-      } catch (delayErr) {
-        /* v8 ignore next -- @preserve */
-        if (delayErr instanceof DelayAbortedError) return false;
-
-        /* v8 ignore next -- @preserve */
-        throw delayErr;
-      }
+      return await this.#retryWithBackoff(events, attempt);
     } else {
       this.#logger.error("Network error, max retries reached", {
         maxRetries: this.#config.retryOptions.maxAttempts,
@@ -482,18 +916,98 @@ export class Dispatcher<
         attempt,
       });
 
+      // The next flush starts over with a new series of retries
+      stampAttempt(events, 0);
+      this.#config.delivery.reject(events, "max_retries");
+
       return false;
     }
   }
 
   /**
-   * Persist current buffer state to storage.
+   * Report a circuit state transition and reschedule the flushes of the
+   * lanes holding events: after the cool-down when the circuit opens, on the
+   * regular interval when it closes.
+   *
+   * @param state The new state
+   * @param previousState The state before the transition
+   */
+  #onCircuitStateChange(
+    state: CircuitState,
+    previousState: CircuitState,
+  ): void {
+    if (state === "open") {
+      this.#logger.warn("Circuit opened, pausing sends", {
+        previousState,
+        cooldown: this.#breaker!.getRemainingCooldown(),
+      });
+    } else if (state === "half_open") {
+      this.#logger.info("Circuit half-open, sending a probe batch");
+    } else {
+      this.#logger.info("Circuit closed, resuming sends");
+    }
+
+    this.#config.hooks.onCircuitStateChange?.({ state, previousState });
+
+    if (state === "half_open") return;
+
+    for (const lane of [this.#priority, this.#bulk]) {
+      if (lane.buffer.isEmpty()) continue;
+
+      if (state === "open") this.#deferFlush(lane);
+      else this.#scheduleFlush(lane);
+    }
+  }
+
+  /**
+   * Schedule a flush of a lane for when the server's pause is over and the
+   * open circuit lets a probe through, or after the lane's interval while the
+   * circuit is closed. While a probe is in flight, lanes are rescheduled on
+   * the next transition.
+   *
+   * @param lane The lane to flush
+   */
+  #deferFlush(lane: Lane<TMetadata>): void {
+    const pause = this.#pausedUntil - Date.now();
+    const state = this.#breaker?.getState() ?? "closed";
+
+    if (state === "half_open") return;
+
+    if (state === "closed" && pause <= 0) {
+      this.#scheduleFlush(lane);
+
+      return;
+    }
+
+    this.#scheduleFlush(
+      lane,
+      Math.max(
+        pause,
+        state === "open" ? this.#breaker!.getRemainingCooldown() : 0,
+      ),
+    );
+  }
+
+  /**
+   * Count the events queued in both lanes.
+   *
+   * @returns The number of queued events
+   */
+  #size(): number {
+    return this.#bulk.buffer.size() + this.#priority.buffer.size();
+  }
+
+  /**
+   * Persist current buffer state of both lanes to storage.
    * Serialized via mutex to prevent stale overwrites.
    */
   async #persistBuffer(): Promise<void> {
     try {
       await this.#storageMutex.runAtomic(async () => {
-        await this.#storage.save(this.#buffer.toArray());
+        await this.#storage.save([
+          ...this.#bulk.buffer.toArray(),
+          ...this.#priority.buffer.toArray(),
+        ]);
       });
     } catch (err) {
       /* v8 ignore next -- @preserve */
@@ -504,36 +1018,55 @@ export class Dispatcher<
       } else {
         this.#logger.error("Failed to persist events to storage", {
           error: err instanceof Error ? err.message : String(err),
-          queueSize: this.#buffer.size(),
+          queueSize: this.#size(),
         });
       }
     }
   }
 
   /**
-   * Re-queue a failed batch plus any remaining buffered events and persist to storage.
+   * Re-queue a failed batch plus any remaining buffered events of its lane
+   * and persist to storage.
    *
+   * @param lane The lane the batch was taken from
    * @param batch The failed batch to re-queue
-   * @param errorMessage Error message to log if save fails
    */
-  async #requeueBatch(batch: Event<TMetadata>[]): Promise<void> {
-    const merged = [...batch, ...this.#buffer.toArray()];
+  async #requeueBatch(
+    lane: Lane<TMetadata>,
+    batch: QueuedEvent<TMetadata>[],
+  ): Promise<void> {
+    const merged = [...batch, ...lane.buffer.toArray()];
+    const overflow = merged.length - this.#config.maxBufferSize;
+
+    // `fromArray()` keeps the newest events, the oldest ones are evicted
+    if (overflow > 0) {
+      this.#config.delivery.reject(merged.slice(0, overflow), "evicted");
+    }
 
-    this.#buffer.fromArray(merged);
+    lane.buffer.fromArray(merged);
 
     await this.#persistBuffer();
   }
 
   /**
-   * Schedule an automatic flush after the configured interval.
+   * Schedule an automatic flush of a lane after its configured interval.
    * Does nothing if a flush is already scheduled.
+   *
+   * @param lane The lane to flush
+   * @param interval Delay in milliseconds overriding the lane's interval
    */
-  #scheduleFlush(): void {
-    if (this.#disposed || this.#timer) return;
-
-    this.#timer = setTimeout(() => {
-      void this.flush();
-    }, this.#config.batchOptions.interval);
+  #scheduleFlush(lane: Lane<TMetadata>, interval?: number): void {
+    if (this.#disposed || lane.timer) return;
+
+    const timeout =
+      interval ??
+      (lane === this.#priority
+        ? this.#config.priorityInterval
+        : this.#config.batchOptions.interval);
+
+    lane.timer = setTimeout(() => {
+      void this.#flushLane(lane);
+    }, timeout);
   }
 
   /**
@@ -541,8 +1074,10 @@ export class Dispatcher<
    */
   #reset(): void {
     this.#disposed = false;
-    this.#flushMutex.reset();
+    this.#bulk.flushMutex.reset();
+    this.#priority.flushMutex.reset();
     this.#storageMutex.reset();
+    this.#breaker?.reset();
     this.#retryAbortController = new AbortController();
   }
 
@@ -554,12 +1089,17 @@ export class Dispatcher<
     this.#reset();
 
     try {
-      const stored = await this.#storage.load();
+      const stored = (await this.#storage.load()) as QueuedEvent<TMetadata>[];
 
-      this.#buffer.fromArray(stored as Event<TMetadata>[]);
+      this.#bulk.buffer.fromArray(
+        stored.filter(event => event.priority !== "high"),
+      );
+      this.#priority.buffer.fromArray(
+        stored.filter(event => event.priority === "high"),
+      );
 
-      if (this.#buffer.size() > 0) {
-        this.#scheduleFlush();
+      for (const lane of [this.#priority, this.#bulk]) {
+        if (lane.buffer.size() > 0) this.#scheduleFlush(lane);
       }
     } catch (err) {
       this.#logger.error("Failed to restore events from storage", {
@@ -576,13 +1116,16 @@ export class Dispatcher<
     this.#disposed = true;
     this.#retryAbortController.abort();
 
-    if (this.#timer) {
-      clearTimeout(this.#timer);
-      this.#timer = null;
+    for (const lane of [this.#priority, this.#bulk]) {
+      if (lane.timer) {
+        clearTimeout(lane.timer);
+        lane.timer = null;
+      }
+
+      lane.buffer.clear();
+      lane.flushMutex.release();
     }
 
-    this.#buffer.clear();
-    this.#flushMutex.release();
     this.#storageMutex.release();
     void this.#storage.close();
   }
@@ -7,6 +7,7 @@ import type {
   Checkout,
   Coupon,
   Filter,
+  GroupTraits,
   Incentive,
   Money,
   Order,
@@ -40,6 +41,34 @@ export type UserIdentifiedPayload = {
   traits: UserTraits;
 };
 
+/**
+ * Payload for group event.
+ */
+export type GroupIdentifiedPayload = {
+  /**
+   * The known database ID of the group/account.
+   */
+  groupId: string;
+  /**
+   * Group profile attributes.
+   */
+  traits: GroupTraits;
+};
+
+/**
+ * Payload for alias event.
+ */
+export type UserAliasedPayload = {
+  /**
+   * The identifier the user was previously known by (e.g., an anonymous ID).
+   */
+  previousId: string;
+  /**
+   * The new identifier to associate with the previous one.
+   */
+  newId: string;
+};
+
 /**
  * Payload for screen event.
  */
@@ -92,6 +121,30 @@ export type AppStateChangedPayload = {
   previousState?: AppState;
 };
 
+/**
+ * Payload for session started events.
+ */
+export type SessionStartedPayload = {
+  /**
+   * The ID of the session that ended before this one, if any.
+   */
+  previousSessionId?: string;
+};
+
+/**
+ * Payload for session ended events.
+ */
+export type SessionEndedPayload = {
+  /**
+   * Milliseconds between the first and the last event of the session.
+   */
+  durationMs: number;
+  /**
+   * Number of events tracked during the session.
+   */
+  eventCount: number;
+};
+
 /**
  * Payload for click event.
  */
@@ -880,8 +933,12 @@ export type ChallengeStepCompletedPayload = {
  */
 export type PredefinedEvents = {
   user_identified: UserIdentifiedPayload;
+  user_aliased: UserAliasedPayload;
+  group_identified: GroupIdentifiedPayload;
   screened: ScreenPayload;
   app_state_changed: AppStateChangedPayload;
+  session_started: SessionStartedPayload;
+  session_ended: SessionEndedPayload;
   clicked: ClickedPayload;
   viewed: ViewedPayload;
 
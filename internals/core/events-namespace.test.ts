@@ -341,17 +341,20 @@ describe("EventsNamespace", () => {
       ],
     ];
 
+    const context = { userId: "user-1", anonymousId: "anon-1" };
+
     for (const [method, eventName, payload] of methods) {
       vi.mocked(client.track).mockClear();
 
       // @ts-expect-error for test
       // eslint-disable-next-line @typescript-eslint/no-unsafe-call
-      await events[method](payload);
+      await events[method](payload, context);
 
       expect(client.track).toHaveBeenCalledWith(
         eventName,
         payload,
         PREDEFINED_SCHEMA_VERSION,
+        context,
       );
     }
   });
@@ -41,347 +41,525 @@ import {
   type ReferralAppliedPayload,
   type ReferralSharedPayload,
 } from "./event-specs.ts";
+import type { EventContext, EventPayload } from "./types.ts";
 
 /**
  * Typed namespace for predefined CDP events.
- * All methods auto-attach `PREDEFINED_SCHEMA_VERSION`.
+ * All methods auto-attach `PREDEFINED_SCHEMA_VERSION` and accept an optional
+ * per-call context applied to that event only.
+ *
+ * @template TMetadata The type definition for metadata
  */
-export class EventsNamespace {
-  readonly #client: Client;
+export class EventsNamespace<
+  TMetadata extends Record<string, unknown> = Record<string, unknown>,
+> {
+  readonly #client: Pick<
+    Client<Record<string, EventPayload>, TMetadata>,
+    "track"
+  >;
 
-  constructor(client: Client) {
+  constructor(
+    client: Pick<Client<Record<string, EventPayload>, TMetadata>, "track">,
+  ) {
     this.#client = client;
   }
 
   // App State
-  appStateChanged(payload: AppStateChangedPayload) {
+  appStateChanged(
+    payload: AppStateChangedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "app_state_changed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Product Discovery
-  productClicked(payload: ProductClickedPayload) {
+  productClicked(
+    payload: ProductClickedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "product_clicked",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  productViewed(payload: ProductViewedPayload) {
+  productViewed(
+    payload: ProductViewedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "product_viewed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  productShared(payload: ProductSharedPayload) {
+  productShared(
+    payload: ProductSharedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "product_shared",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  productsSearched(payload: ProductsSearchedPayload) {
+  productsSearched(
+    payload: ProductsSearchedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "products_searched",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  productListViewed(payload: ProductListViewedPayload) {
+  productListViewed(
+    payload: ProductListViewedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "product_list_viewed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  productListFiltered(payload: ProductListFilteredPayload) {
+  productListFiltered(
+    payload: ProductListFilteredPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "product_list_filtered",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  productReviewed(payload: ProductReviewedPayload) {
+  productReviewed(
+    payload: ProductReviewedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "product_reviewed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Wishlist
-  productAddedToWishlist(payload: ProductWishlistPayload) {
+  productAddedToWishlist(
+    payload: ProductWishlistPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "product_added_to_wishlist",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  productRemovedFromWishlist(payload: ProductWishlistPayload) {
+  productRemovedFromWishlist(
+    payload: ProductWishlistPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "product_removed_from_wishlist",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Cart
-  productAddedToCart(payload: CartModificationPayload) {
+  productAddedToCart(
+    payload: CartModificationPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "product_added_to_cart",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  productRemovedFromCart(payload: CartModificationPayload) {
+  productRemovedFromCart(
+    payload: CartModificationPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "product_removed_from_cart",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  cartViewed(payload: CartViewedPayload) {
+  cartViewed(payload: CartViewedPayload, context?: EventContext<TMetadata>) {
     return this.#client.track(
       "cart_viewed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  cartEmptied(payload: CartEmptiedPayload) {
+  cartEmptied(payload: CartEmptiedPayload, context?: EventContext<TMetadata>) {
     return this.#client.track(
       "cart_emptied",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Checkout
-  checkoutStarted(payload: CheckoutStartedPayload) {
+  checkoutStarted(
+    payload: CheckoutStartedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "checkout_started",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  checkoutStepViewed(payload: CheckoutStepPayload) {
+  checkoutStepViewed(
+    payload: CheckoutStepPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "checkout_step_viewed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  checkoutStepCompleted(payload: CheckoutStepPayload) {
+  checkoutStepCompleted(
+    payload: CheckoutStepPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "checkout_step_completed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Orders
-  orderCompleted(payload: OrderCompletedPayload) {
+  orderCompleted(
+    payload: OrderCompletedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "order_completed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  orderFailed(payload: OrderFailedPayload) {
+  orderFailed(payload: OrderFailedPayload, context?: EventContext<TMetadata>) {
     return this.#client.track(
       "order_failed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  orderCancelled(payload: OrderCancelledPayload) {
+  orderCancelled(
+    payload: OrderCancelledPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "order_cancelled",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  orderShipped(payload: OrderShippedPayload) {
+  orderShipped(
+    payload: OrderShippedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "order_shipped",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  orderRefunded(payload: OrderRefundedPayload) {
+  orderRefunded(
+    payload: OrderRefundedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "order_refunded",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  orderUpdated(payload: OrderUpdatedPayload) {
+  orderUpdated(
+    payload: OrderUpdatedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "order_updated",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  orderProductFulfilled(payload: OrderProductFulfilledPayload) {
+  orderProductFulfilled(
+    payload: OrderProductFulfilledPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "order_product_fulfilled",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  orderProductReturned(payload: OrderProductReturnedPayload) {
+  orderProductReturned(
+    payload: OrderProductReturnedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "order_product_returned",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  orderFulfillmentStatusUpdated(payload: OrderFulfillmentStatusUpdatedPayload) {
+  orderFulfillmentStatusUpdated(
+    payload: OrderFulfillmentStatusUpdatedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "order_fulfillment_status_updated",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Coupons
-  couponEntered(payload: CouponEnteredRemovedPayload) {
+  couponEntered(
+    payload: CouponEnteredRemovedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "coupon_entered",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  couponRemoved(payload: CouponEnteredRemovedPayload) {
+  couponRemoved(
+    payload: CouponEnteredRemovedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "coupon_removed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  couponDenied(payload: CouponDeniedPayload) {
+  couponDenied(
+    payload: CouponDeniedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "coupon_denied",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Promotions
-  promotionViewed(payload: PromotionPayload) {
+  promotionViewed(
+    payload: PromotionPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "promotion_viewed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  promotionClicked(payload: PromotionPayload) {
+  promotionClicked(
+    payload: PromotionPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "promotion_clicked",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Payments
-  paymentAuthorized(payload: PaymentAuthorizedPayload) {
+  paymentAuthorized(
+    payload: PaymentAuthorizedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "payment_authorized",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  paymentCaptured(payload: PaymentCapturedPayload) {
+  paymentCaptured(
+    payload: PaymentCapturedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "payment_captured",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  paymentFailed(payload: PaymentFailedPayload) {
+  paymentFailed(
+    payload: PaymentFailedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "payment_failed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  paymentRefunded(payload: PaymentRefundedPayload) {
+  paymentRefunded(
+    payload: PaymentRefundedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "payment_refunded",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Referral
-  referralShared(payload: ReferralSharedPayload) {
+  referralShared(
+    payload: ReferralSharedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "referral_shared",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  referralApplied(payload: ReferralAppliedPayload) {
+  referralApplied(
+    payload: ReferralAppliedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "referral_applied",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Incentives
-  incentiveGranted(payload: IncentiveGrantedPayload) {
+  incentiveGranted(
+    payload: IncentiveGrantedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "incentive_granted",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  incentiveRedeemed(payload: IncentiveRedeemedPayload) {
+  incentiveRedeemed(
+    payload: IncentiveRedeemedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "incentive_redeemed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  incentiveClaimed(payload: IncentiveClaimedPayload) {
+  incentiveClaimed(
+    payload: IncentiveClaimedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "incentive_claimed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  incentiveExpired(payload: IncentiveExpiredPayload) {
+  incentiveExpired(
+    payload: IncentiveExpiredPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "incentive_expired",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
   // Gamification Challenges
-  challengeStarted(payload: ChallengeStartedPayload) {
+  challengeStarted(
+    payload: ChallengeStartedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "challenge_started",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  challengeCompleted(payload: ChallengeCompletedPayload) {
+  challengeCompleted(
+    payload: ChallengeCompletedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "challenge_completed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
-  challengeStepCompleted(payload: ChallengeStepCompletedPayload) {
+  challengeStepCompleted(
+    payload: ChallengeStepCompletedPayload,
+    context?: EventContext<TMetadata>,
+  ) {
     return this.#client.track(
       "challenge_step_completed",
       payload,
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 }
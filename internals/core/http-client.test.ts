@@ -10,6 +10,7 @@ describe("HttpClient", () => {
   let endpoint: string;
   let apiKeyHeader: string;
   let headers: Record<string, string>;
+  let sentAt: number;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -18,6 +19,7 @@ describe("HttpClient", () => {
 
     endpoint = "https://api.test.com/events";
     apiKeyHeader = "X-API-Key";
+    sentAt = 1700000000000;
     headers = {
       "Content-Type": "application/json",
       [apiKeyHeader]: "test-key",
@@ -33,6 +35,9 @@ describe("HttpClient", () => {
           version: "x.y.z",
         },
         userId: "user-123",
+        groupId: null,
+        sessionId: null,
+        sessionSequence: null,
         payload: { key: "value" },
         issuedAt: Date.now(),
         schemaVersion: null,
@@ -52,62 +57,130 @@ describe("HttpClient", () => {
     it("should send events using fetch", async () => {
       const mockResponse = {
         status: 200,
-        headers: { get: vi.fn().mockReturnValue(null) },
+        headers: new Headers(),
         json: vi.fn().mockResolvedValue({}),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       const result = await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         endpoint,
         headers,
         apiKeyHeader,
         events: mockEvents,
+        body: JSON.stringify({ events: mockEvents, sentAt }),
       });
 
       expect(fetch).toHaveBeenCalledWith(endpoint, {
         method: "POST",
         headers,
-        body: JSON.stringify({ events: mockEvents }),
+        body: JSON.stringify({ events: mockEvents, sentAt }),
         keepalive: true,
       });
 
       expect(result.status).toBe(200);
     });
 
+    it("should send compressed bodies as-is", async () => {
+      const mockResponse = {
+        status: 200,
+        headers: new Headers(),
+        json: vi.fn().mockResolvedValue({}),
+      };
+
+      const body = new Uint8Array([1, 2, 3]);
+      const compressedHeaders = { ...headers, "Content-Encoding": "gzip" };
+
+      vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
+
+      await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
+        endpoint,
+        headers: compressedHeaders,
+        apiKeyHeader,
+        events: mockEvents,
+        body,
+      });
+
+      expect(fetch).toHaveBeenCalledWith(endpoint, {
+        method: "POST",
+        headers: compressedHeaders,
+        body,
+        keepalive: true,
+      });
+    });
+
     it("should handle successful response", async () => {
       const mockResponse = {
         status: 200,
-        headers: { get: vi.fn().mockReturnValue(null) },
+        headers: new Headers(),
         json: vi.fn().mockResolvedValue({}),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       const result = await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         endpoint,
         apiKeyHeader,
         headers,
         events: mockEvents,
+        body: JSON.stringify({ events: mockEvents, sentAt }),
       });
 
       expect(result.status).toBe(200);
     });
 
+    it("should return response headers", async () => {
+      const mockResponse = {
+        status: 200,
+        headers: new Headers({ Date: "Tue, 14 Nov 2023 22:13:20 GMT" }),
+        json: vi.fn().mockResolvedValue({}),
+      };
+
+      vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
+
+      const result = await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
+        endpoint,
+        apiKeyHeader,
+        headers,
+        events: mockEvents,
+        body: JSON.stringify({ events: mockEvents, sentAt }),
+      });
+
+      expect(result.headers).toEqual({
+        date: "Tue, 14 Nov 2023 22:13:20 GMT",
+      });
+    });
+
     it("should handle failed response", async () => {
       const mockResponse = {
         status: 500,
-        headers: { get: vi.fn().mockReturnValue(null) },
+        headers: new Headers(),
         json: vi.fn().mockResolvedValue({}),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       const result = await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         endpoint,
         apiKeyHeader,
         headers,
         events: mockEvents,
+        body: JSON.stringify({ events: mockEvents, sentAt }),
       });
 
       expect(result.status).toBe(500);
@@ -116,17 +189,21 @@ describe("HttpClient", () => {
     it("should handle JSON parsing error", async () => {
       const mockResponse = {
         status: 200,
-        headers: { get: vi.fn().mockReturnValue(null) },
+        headers: new Headers(),
         json: vi.fn().mockRejectedValue(new Error("Invalid JSON")),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       const result = await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         endpoint,
         apiKeyHeader,
         headers,
         events: mockEvents,
+        body: JSON.stringify({ events: mockEvents, sentAt }),
       });
 
       expect(result.status).toBe(200);
@@ -136,17 +213,21 @@ describe("HttpClient", () => {
     it("should skip JSON parsing for 204 No Content", async () => {
       const mockResponse = {
         status: 204,
-        headers: { get: vi.fn().mockReturnValue(null) },
+        headers: new Headers(),
         json: vi.fn(),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       const result = await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         endpoint,
         apiKeyHeader,
         headers,
         events: mockEvents,
+        body: JSON.stringify({ events: mockEvents, sentAt }),
       });
 
       expect(result.status).toBe(204);
@@ -157,17 +238,21 @@ describe("HttpClient", () => {
     it("should skip JSON parsing when content-length is 0", async () => {
       const mockResponse = {
         status: 200,
-        headers: { get: vi.fn().mockReturnValue("0") },
+        headers: new Headers({ "content-length": "0" }),
         json: vi.fn(),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       const result = await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         endpoint,
         apiKeyHeader,
         headers,
         events: mockEvents,
+        body: JSON.stringify({ events: mockEvents, sentAt }),
       });
 
       expect(result.status).toBe(200);
@@ -178,17 +263,21 @@ describe("HttpClient", () => {
     it("should use keepalive flag", async () => {
       const mockResponse = {
         status: 200,
-        headers: { get: vi.fn().mockReturnValue(null) },
+        headers: new Headers(),
         json: vi.fn().mockResolvedValue({}),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         endpoint,
         apiKeyHeader,
         headers,
         events: mockEvents,
+        body: JSON.stringify({ events: mockEvents, sentAt }),
       });
 
       expect(fetch).toHaveBeenCalledWith(
@@ -202,43 +291,73 @@ describe("HttpClient", () => {
     it("should handle empty events array", async () => {
       const mockResponse = {
         status: 200,
-        headers: { get: vi.fn().mockReturnValue(null) },
+        headers: new Headers(),
         json: vi.fn().mockResolvedValue({}),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         endpoint,
         apiKeyHeader,
         headers,
         events: [],
+        body: JSON.stringify({ events: [], sentAt }),
       });
 
       expect(fetch).toHaveBeenCalledWith(
         endpoint,
         expect.objectContaining({
-          body: JSON.stringify({ events: [] }),
+          body: JSON.stringify({ events: [], sentAt }),
         }),
       );
     });
   });
 
+  describe("get", () => {
+    it("should fetch a JSON document using fetch", async () => {
+      const mockResponse = {
+        status: 200,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: vi.fn().mockResolvedValue({ disabled: true }),
+      };
+
+      vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
+
+      const url = "https://api.test.com/config";
+      const result = await adapter.get({ url, headers });
+
+      expect(fetch).toHaveBeenCalledWith(url, { method: "GET", headers });
+      expect(result).toEqual({
+        status: 200,
+        data: { disabled: true },
+        headers: { "content-type": "application/json" },
+      });
+    });
+  });
+
   describe("edge cases", () => {
     it("should handle empty headers", async () => {
       const mockResponse = {
         status: 200,
-        headers: { get: vi.fn().mockReturnValue(null) },
+        headers: new Headers(),
         json: vi.fn().mockResolvedValue({}),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       const result = await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         endpoint,
         apiKeyHeader,
         headers,
         events: [],
+        body: JSON.stringify({ events: [], sentAt }),
       });
 
       expect(result.status).toBe(200);
@@ -252,16 +371,20 @@ describe("HttpClient", () => {
 
       const mockResponse = {
         status: 200,
-        headers: { get: vi.fn().mockReturnValue(null) },
+        headers: new Headers(),
         json: vi.fn().mockResolvedValue({}),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         endpoint,
         apiKeyHeader,
         events: mockEvents,
+        body: JSON.stringify({ events: mockEvents, sentAt }),
         headers: customHeaders,
       });
 
@@ -278,17 +401,21 @@ describe("HttpClient", () => {
 
       const mockResponse = {
         status: 200,
-        headers: { get: vi.fn().mockReturnValue(null) },
+        headers: new Headers(),
         json: vi.fn().mockResolvedValue({}),
       };
 
       vi.mocked(fetch).mockResolvedValue(mockResponse as unknown as Response);
 
       await adapter.send({
+        batchId: "batch-1",
+        sentAt,
+        attempt: 0,
         headers,
         apiKeyHeader,
         endpoint: specialEndpoint,
         events: mockEvents,
+        body: JSON.stringify({ events: mockEvents, sentAt }),
       });
 
       expect(fetch).toHaveBeenCalledWith(
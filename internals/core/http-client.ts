@@ -1,6 +1,7 @@
 import type {
   HttpAdapter,
   HttpAdapterContext,
+  HttpGetContext,
 } from "./adapters/http-adapter.ts";
 import type { HttpResponse } from "./types.ts";
 
@@ -17,8 +18,7 @@ export class HttpClient implements HttpAdapter {
    * @returns Promise resolving to HTTP response
    */
   public async send(context: HttpAdapterContext): Promise<HttpResponse> {
-    const { events, endpoint, headers } = context;
-    const body = JSON.stringify({ events });
+    const { body, endpoint, headers } = context;
 
     const response = await fetch(endpoint, {
       method: "POST",
@@ -27,6 +27,24 @@ export class HttpClient implements HttpAdapter {
       keepalive: true,
     });
 
+    return await this.#toHttpResponse(response);
+  }
+
+  /**
+   * Fetch a JSON document using the Fetch API.
+   *
+   * @param context Request context including the URL and headers
+   * @returns Promise resolving to HTTP response
+   */
+  public async get(context: HttpGetContext): Promise<HttpResponse> {
+    const { url, headers } = context;
+
+    const response = await fetch(url, { method: "GET", headers });
+
+    return await this.#toHttpResponse(response);
+  }
+
+  async #toHttpResponse(response: Response): Promise<HttpResponse> {
     let data: unknown;
 
     // Skip JSON parsing for 204 No Content or explicitly empty bodies
@@ -45,9 +63,16 @@ export class HttpClient implements HttpAdapter {
       }
     }
 
+    const responseHeaders: Record<string, string> = {};
+
+    response.headers.forEach((value, name) => {
+      responseHeaders[name] = value;
+    });
+
     return {
       status: response.status,
       data,
+      headers: responseHeaders,
     };
   }
 }
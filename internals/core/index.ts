@@ -1,11 +1,30 @@
 export * from "./adapters/http-adapter.ts";
 export * from "./adapters/logger-adapter.ts";
 export * from "./adapters/storage-adapter.ts";
+export * from "./circuit-breaker.ts";
 export * from "./client.ts";
+export * from "./clock-sync.ts";
+export * from "./compression.ts";
+export * from "./consent-manager.ts";
+export * from "./dead-letter-queue.ts";
+export * from "./dedup-window.ts";
+export * from "./delivery-tracker.ts";
 export * from "./event-specs.ts";
 export * from "./events-namespace.ts";
 export * from "./http-client.ts";
+export * from "./json-schema.ts";
 export * from "./logger.ts";
+export * from "./middleware.ts";
+export * from "./payload-schemas.ts";
+export * from "./payload-validator.ts";
+export * from "./rate-limiter.ts";
+export * from "./redactor.ts";
+export * from "./remote-config.ts";
+export * from "./sampling.ts";
+export * from "./serializer.ts";
+export * from "./session-manager.ts";
 export * from "./telemetry.ts";
+export * from "./timer-manager.ts";
+export * from "./tracking-plan.ts";
 export * from "./types.ts";
 export { IdGenerator } from "./utils.ts";
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { PREDEFINED_SCHEMA_VERSION } from "./event-specs.ts";
+import { getEventJsonSchemas, JSON_SCHEMA_DIALECT } from "./json-schema.ts";
+import {
+  ISO_4217_CURRENCIES,
+  PREDEFINED_PAYLOAD_SCHEMAS,
+} from "./payload-schemas.ts";
+
+const getSchemas = () => {
+  const schemas = getEventJsonSchemas();
+
+  if (!schemas) throw new Error("Expected schemas for the current version");
+
+  return schemas;
+};
+
+describe("getEventJsonSchemas", () => {
+  it("should default to the current predefined schema version", () => {
+    expect(getSchemas().schemaVersion).toBe(PREDEFINED_SCHEMA_VERSION);
+    expect(getEventJsonSchemas(PREDEFINED_SCHEMA_VERSION)).toEqual(
+      getSchemas(),
+    );
+  });
+
+  it("should return null for unknown schema versions", () => {
+    expect(getEventJsonSchemas("999")).toBeNull();
+    expect(getEventJsonSchemas("toString")).toBeNull();
+  });
+
+  it("should return fresh documents on each call", () => {
+    const first = getSchemas();
+
+    first.events.clicked["title"] = "changed";
+
+    expect(getSchemas().events.clicked["title"]).toBe("clicked");
+  });
+
+  it("should generate a document for every predefined event", () => {
+    const { events } = getSchemas();
+
+    expect(Object.keys(events).sort()).toEqual(
+      Object.keys(PREDEFINED_PAYLOAD_SCHEMAS).sort(),
+    );
+
+    for (const [name, document] of Object.entries(events)) {
+      expect(document).toMatchObject({
+        $schema: JSON_SCHEMA_DIALECT,
+        title: name,
+        type: "object",
+      });
+    }
+  });
+
+  it("should mark non-optional properties as required", () => {
+    const { events } = getSchemas();
+
+    expect(events.products_searched).toMatchObject({
+      properties: {
+        query: { type: "string" },
+        customProperties: {
+          type: "object",
+          additionalProperties: { type: ["string", "number", "boolean"] },
+        },
+      },
+      required: ["query"],
+    });
+  });
+
+  it("should omit `required` when every property is optional", () => {
+    const order = getSchemas().events.order_completed["properties"] as Record<
+      string,
+      { properties: Record<string, { properties: Record<string, unknown> }> }
+    >;
+
+    const arrival = order["order"]!.properties["shipping"]!.properties[
+      "arrival"
+    ] as Record<string, unknown>;
+
+    expect(arrival).not.toHaveProperty("required");
+    expect(arrival["properties"]).toEqual({
+      absoluteArriveAt: { type: "number" },
+      rangeArriveAt: {
+        type: "array",
+        prefixItems: [{ type: "number" }, { type: "number" }],
+        items: false,
+        minItems: 2,
+      },
+    });
+  });
+
+  it("should convert enums and arrays", () => {
+    const { events } = getSchemas();
+
+    expect(events.product_list_filtered).toMatchObject({
+      properties: {
+        sorts: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              key: { type: "string" },
+              value: { type: "string", enum: ["asc", "dsc"] },
+            },
+            required: ["key", "value"],
+          },
+        },
+      },
+    });
+  });
+
+  it("should reference a shared definition for currencies", () => {
+    const { events } = getSchemas();
+
+    expect(events.order_completed["$defs"]).toEqual({
+      currency: {
+        description: "ISO 4217 currency code",
+        enum: [...ISO_4217_CURRENCIES],
+      },
+    });
+    expect(JSON.stringify(events.order_completed)).toContain(
+      '"$ref":"#/$defs/currency"',
+    );
+    expect(events.products_searched).not.toHaveProperty("$defs");
+  });
+
+  it("should describe the event envelope", () => {
+    const { envelope } = getSchemas();
+
+    expect(envelope).toMatchObject({
+      $schema: JSON_SCHEMA_DIALECT,
+      title: "Event",
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        payload: { type: ["object", "null"] },
+        userId: { type: ["string", "null"] },
+        durationMs: { type: "number" },
+      },
+    });
+    expect(envelope["required"]).toContain("eventId");
+    expect(envelope["required"]).not.toContain("durationMs");
+    expect(envelope["required"]).not.toContain("sampleRate");
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  PREDEFINED_SCHEMA_VERSION,
+  type PredefinedEvents,
+} from "./event-specs.ts";
+import {
+  ISO_4217_CURRENCIES,
+  PREDEFINED_PAYLOAD_SCHEMAS,
+  type PayloadSchema,
+} from "./payload-schemas.ts";
+import type { Event } from "./types.ts";
+
+/**
+ * Dialect of the generated JSON Schema documents.
+ */
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * A JSON Schema document or subschema.
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * JSON Schema documents describing everything the SDK emits for a schema version.
+ */
+export type EventJsonSchemas = {
+  /**
+   * Schema version the documents describe.
+   */
+  schemaVersion: string;
+  /**
+   * Schema of the `Event` envelope. Its `payload` is validated separately
+   * against the schema of the event named by `name`.
+   */
+  envelope: JsonSchema;
+  /**
+   * Payload schemas of all predefined events, keyed by event name.
+   */
+  events: Record<keyof PredefinedEvents, JsonSchema>;
+};
+
+/**
+ * Convert a payload schema to a JSON Schema subschema.
+ *
+ * @param schema The payload schema to convert
+ * @param defs Collects the names of `$defs` entries referenced by the result
+ * @returns The equivalent JSON Schema
+ */
+const convert = (schema: PayloadSchema, defs: Set<string>): JsonSchema => {
+  const convertChild = (child: PayloadSchema) => convert(child, defs);
+
+  switch (schema.type) {
+    case "string":
+      if (schema.format === "currency") {
+        defs.add("currency");
+
+        return { $ref: "#/$defs/currency" };
+      }
+
+      return {
+        type: "string",
+        ...(schema.enum && { enum: [...schema.enum] }),
+      };
+    case "number":
+      return { type: "number" };
+    case "primitive":
+      return { type: ["string", "number", "boolean"] };
+    case "array":
+      return { type: "array", items: convertChild(schema.items) };
+    case "tuple":
+      return {
+        type: "array",
+        prefixItems: schema.items.map(convertChild),
+        items: false,
+        minItems: schema.items.length,
+      };
+    case "record":
+      return {
+        type: "object",
+        additionalProperties: convertChild(schema.values),
+      };
+    default: {
+      const entries = Object.entries(schema.properties);
+      const required = entries
+        .filter(([, property]) => !property.optional)
+        .map(([key]) => key);
+
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          entries.map(([key, property]) => [key, convertChild(property)]),
+        ),
+        ...(required.length > 0 && { required }),
+      };
+    }
+  }
+};
+
+/**
+ * Build the JSON Schema document of a predefined event payload.
+ *
+ * @param name The event name
+ * @param schema The payload schema of the event
+ * @returns A standalone JSON Schema document
+ */
+const createEventDocument = (
+  name: string,
+  schema: PayloadSchema,
+): JsonSchema => {
+  const defs = new Set<string>();
+  const converted = convert(schema, defs);
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: name,
+    ...converted,
+    ...(defs.has("currency") && {
+      $defs: {
+        currency: {
+          description: "ISO 4217 currency code",
+          enum: [...ISO_4217_CURRENCIES],
+        },
+      },
+    }),
+  };
+};
+
+const platformInfo: JsonSchema = {
+  type: "object",
+  properties: { name: { type: "string" }, version: { type: "string" } },
+  required: ["name", "version"],
+};
+
+const nullable = (type: string): JsonSchema => ({ type: [type, "null"] });
+
+// Typed by `Event` keys so envelope drift fails type-checking
+const envelopeProperties: Record<keyof Event, JsonSchema> = {
+  name: { type: "string" },
+  payload: nullable("object"),
+  metadata: nullable("object"),
+  platform: {
+    oneOf: [
+      { type: "null" },
+      {
+        type: "object",
+        properties: {
+          type: { const: "web" },
+          browser: platformInfo,
+          device: platformInfo,
+          os: platformInfo,
+        },
+        required: ["type", "browser", "device", "os"],
+      },
+      {
+        type: "object",
+        properties: {
+          type: { const: "native" },
+          device: platformInfo,
+          os: platformInfo,
+        },
+        required: ["type", "device", "os"],
+      },
+      {
+        type: "object",
+        properties: { type: { const: "server" } },
+        required: ["type"],
+      },
+    ],
+  },
+  sdk: platformInfo,
+  issuedAt: { type: "number" },
+  correctedIssuedAt: { type: "number" },
+  anonymousId: { type: "string" },
+  eventId: { type: "string" },
+  schemaVersion: nullable("string"),
+  userId: nullable("string"),
+  groupId: nullable("string"),
+  sessionId: nullable("string"),
+  sessionSequence: { type: ["integer", "null"], minimum: 1 },
+  durationMs: { type: "number" },
+  sampleRate: { type: "number", minimum: 0, maximum: 1 },
+  priority: { type: "string", enum: ["normal", "high"] },
+};
+
+const OPTIONAL_ENVELOPE_PROPERTIES: readonly (keyof Event)[] = [
+  "correctedIssuedAt",
+  "durationMs",
+  "sampleRate",
+  "priority",
+];
+
+/**
+ * Build every JSON Schema document for the current predefined schema version.
+ *
+ * @returns The envelope and event payload documents
+ */
+const createEventJsonSchemas = (): EventJsonSchemas => ({
+  schemaVersion: PREDEFINED_SCHEMA_VERSION,
+  envelope: {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: "Event",
+    type: "object",
+    properties: envelopeProperties,
+    required: Object.keys(envelopeProperties).filter(
+      key => !OPTIONAL_ENVELOPE_PROPERTIES.includes(key as keyof Event),
+    ),
+  },
+  events: Object.fromEntries(
+    Object.entries(PREDEFINED_PAYLOAD_SCHEMAS).map(([name, schema]) => [
+      name,
+      createEventDocument(name, schema),
+    ]),
+  ) as Record<keyof PredefinedEvents, JsonSchema>,
+});
+
+const factories: Record<string, () => EventJsonSchemas> = {
+  [PREDEFINED_SCHEMA_VERSION]: createEventJsonSchemas,
+};
+
+/**
+ * Get the JSON Schema (draft 2020-12) documents of the predefined event
+ * catalog and the `Event` envelope for a schema version.
+ *
+ * Documents are generated on each call, so callers may mutate them freely.
+ *
+ * @param schemaVersion The predefined schema version (default: the current one)
+ * @returns The documents, or null if the version is unknown
+ */
+export const getEventJsonSchemas = (
+  schemaVersion: string = PREDEFINED_SCHEMA_VERSION,
+): EventJsonSchemas | null => {
+  if (!Object.prototype.hasOwnProperty.call(factories, schemaVersion)) {
+    return null;
+  }
+
+  return factories[schemaVersion]!();
+};
@@ -0,0 +1,197 @@
+import { describe, expect, it, vi } from "vitest";
+import { NoOpLogger } from "./logger.ts";
+import { MiddlewarePipeline } from "./middleware.ts";
+import type { Event } from "./types.ts";
+
+const createEvent = (overrides: Partial<Event> = {}): Event => ({
+  eventId: "event-1",
+  anonymousId: "anon-1",
+  userId: null,
+  groupId: null,
+  sessionId: null,
+  sessionSequence: null,
+  name: "test_event",
+  schemaVersion: null,
+  payload: null,
+  issuedAt: 1000,
+  metadata: null,
+  sdk: { name: "test-sdk", version: "1.0.0" },
+  platform: null,
+  ...overrides,
+});
+
+describe("MiddlewarePipeline", () => {
+  describe("use", () => {
+    it("should register middleware", () => {
+      const pipeline = new MiddlewarePipeline(new NoOpLogger());
+
+      expect(pipeline.isEmpty()).toBe(true);
+
+      pipeline.use(event => event);
+
+      expect(pipeline.isEmpty()).toBe(false);
+    });
+
+    it("should unregister middleware", () => {
+      const pipeline = new MiddlewarePipeline(new NoOpLogger());
+      const unsubscribe = pipeline.use(event => event);
+
+      unsubscribe();
+      unsubscribe();
+
+      expect(pipeline.isEmpty()).toBe(true);
+    });
+  });
+
+  describe("run", () => {
+    it("should pass the event through an empty chain", async () => {
+      const pipeline = new MiddlewarePipeline(new NoOpLogger());
+      const event = createEvent();
+
+      await expect(pipeline.run(event)).resolves.toEqual({
+        events: [event],
+        dropped: [],
+      });
+    });
+
+    it("should run middlewares in registration order", async () => {
+      const pipeline = new MiddlewarePipeline(new NoOpLogger());
+      const order: string[] = [];
+
+      pipeline.use(event => {
+        order.push("first");
+
+        return { ...event, payload: { step: 1 } };
+      });
+      pipeline.use(async event => {
+        order.push("second");
+
+        await Promise.resolve();
+
+        return {
+          ...event,
+          payload: { ...event.payload, enriched: true },
+        };
+      });
+
+      const { events } = await pipeline.run(createEvent());
+
+      expect(order).toEqual(["first", "second"]);
+      expect(events[0]?.payload).toEqual({ step: 1, enriched: true });
+    });
+
+    it("should keep an event mutated in place when nothing is returned", async () => {
+      const pipeline = new MiddlewarePipeline(new NoOpLogger());
+
+      pipeline.use(event => {
+        event.metadata = { experiment: "b" };
+      });
+
+      const { events } = await pipeline.run(createEvent());
+
+      expect(events[0]?.metadata).toEqual({ experiment: "b" });
+    });
+
+    it("should fan out events to the rest of the chain", async () => {
+      const pipeline = new MiddlewarePipeline(new NoOpLogger());
+      const next = vi.fn((event: Event) => event);
+
+      pipeline.use(event => [
+        event,
+        { ...event, eventId: "event-2", name: "derived_event" },
+      ]);
+      pipeline.use(next);
+
+      const { events } = await pipeline.run(createEvent());
+
+      expect(next).toHaveBeenCalledTimes(2);
+      expect(events.map(e => e.name)).toEqual(["test_event", "derived_event"]);
+    });
+
+    it("should drop an event with a named reason", async () => {
+      const pipeline = new MiddlewarePipeline(new NoOpLogger());
+      const next = vi.fn();
+
+      pipeline.use(() => ({ drop: "internal_traffic" }));
+      pipeline.use(next);
+
+      await expect(pipeline.run(createEvent())).resolves.toEqual({
+        events: [],
+        dropped: ["internal_traffic"],
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should drop an event without a reason on null", async () => {
+      const pipeline = new MiddlewarePipeline(new NoOpLogger());
+
+      pipeline.use(() => null);
+
+      await expect(pipeline.run(createEvent())).resolves.toEqual({
+        events: [],
+        dropped: [null],
+      });
+    });
+
+    it("should drop an event replaced by an empty array", async () => {
+      const pipeline = new MiddlewarePipeline(new NoOpLogger());
+
+      pipeline.use(() => []);
+
+      await expect(pipeline.run(createEvent())).resolves.toEqual({
+        events: [],
+        dropped: [null],
+      });
+    });
+
+    it("should drop and log an event when a middleware throws", async () => {
+      const logger = new NoOpLogger();
+      const errorSpy = vi.spyOn(logger, "error");
+      const pipeline = new MiddlewarePipeline(logger);
+
+      pipeline.use(() => {
+        throw new Error("boom");
+      });
+
+      await expect(pipeline.run(createEvent())).resolves.toEqual({
+        events: [],
+        dropped: [null],
+      });
+      expect(errorSpy).toHaveBeenCalledWith(
+        "Middleware failed, dropping event",
+        { name: "test_event", error: "boom" },
+      );
+    });
+
+    it("should stringify non-Error throws", async () => {
+      const logger = new NoOpLogger();
+      const errorSpy = vi.spyOn(logger, "error");
+      const pipeline = new MiddlewarePipeline(logger);
+
+      // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+      pipeline.use(() => Promise.reject("rejected"));
+
+      await pipeline.run(createEvent());
+
+      expect(errorSpy).toHaveBeenCalledWith(
+        "Middleware failed, dropping event",
+        { name: "test_event", error: "rejected" },
+      );
+    });
+
+    it("should not affect a running chain when middleware is added", async () => {
+      const pipeline = new MiddlewarePipeline(new NoOpLogger());
+      const late = vi.fn();
+
+      pipeline.use(event => {
+        pipeline.use(late);
+
+        return event;
+      });
+
+      await pipeline.run(createEvent());
+
+      expect(late).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import type { LoggerAdapter } from "./adapters/logger-adapter.ts";
+import type { Event } from "./types.ts";
+
+/**
+ * Signals that a middleware dropped the event.
+ */
+export type MiddlewareDrop = {
+  /**
+   * Named reason reported through `TelemetryHooks.onDrop` as `detail`.
+   */
+  drop: string;
+};
+
+/**
+ * Value a middleware resolves with:
+ * - `Event` — continue with this (possibly modified or replaced) event
+ * - `Event[]` — replace the event with several events (empty drops it)
+ * - `MiddlewareDrop` — drop the event with a named reason
+ * - `null` — drop the event without a named reason
+ * - `undefined` — continue with the received event (mutated in place)
+ *
+ * @template TMetadata The type of metadata attached to events
+ */
+export type MiddlewareResult<
+  TMetadata extends Record<string, unknown> = Record<string, unknown>,
+> = Event<TMetadata> | Event<TMetadata>[] | MiddlewareDrop | null | void;
+
+/**
+ * Function that enriches, transforms, or drops events before they are enqueued.
+ *
+ * @template TMetadata The type of metadata attached to events
+ */
+export type Middleware<
+  TMetadata extends Record<string, unknown> = Record<string, unknown>,
+> = (
+  event: Event<TMetadata>,
+) => MiddlewareResult<TMetadata> | Promise<MiddlewareResult<TMetadata>>;
+
+/**
+ * Outcome of running an event through the middleware pipeline.
+ *
+ * @template TMetadata The type of metadata attached to events
+ */
+export type MiddlewareOutcome<
+  TMetadata extends Record<string, unknown> = Record<string, unknown>,
+> = {
+  /**
+   * Events that made it through every middleware, in order.
+   */
+  events: Event<TMetadata>[];
+  /**
+   * Named reasons of dropped events (`null` when no reason was given).
+   */
+  dropped: (string | null)[];
+};
+
+/**
+ * Ordered, async-capable chain of middlewares.
+ * Each event produced by a middleware is passed to the next one in the chain.
+ *
+ * @template TMetadata The type of metadata attached to events
+ */
+export class MiddlewarePipeline<
+  TMetadata extends Record<string, unknown> = Record<string, unknown>,
+> {
+  readonly #middlewares: Middleware<TMetadata>[] = [];
+  readonly #logger: LoggerAdapter;
+
+  /**
+   * Create a new MiddlewarePipeline instance.
+   *
+   * @param logger Logger used to report failing middlewares
+   */
+  constructor(logger: LoggerAdapter) {
+    this.#logger = logger;
+  }
+
+  /**
+   * Append a middleware to the end of the chain.
+   *
+   * @param middleware The middleware to register
+   * @returns A function that removes the middleware from the chain
+   */
+  public use(middleware: Middleware<TMetadata>): () => void {
+    this.#middlewares.push(middleware);
+
+    return () => {
+      const index = this.#middlewares.indexOf(middleware);
+
+      if (index !== -1) this.#middlewares.splice(index, 1);
+    };
+  }
+
+  /**
+   * Check if the chain has no middlewares.
+   *
+   * @returns True if no middleware is registered
+   */
+  public isEmpty(): boolean {
+    return this.#middlewares.length === 0;
+  }
+
+  /**
+   * Run an event through every middleware in registration order.
+   * A middleware that throws drops the event it was handling.
+   *
+   * @param event The event to process
+   * @returns Surviving events and the reasons of dropped ones
+   */
+  public async run(
+    event: Event<TMetadata>,
+  ): Promise<MiddlewareOutcome<TMetadata>> {
+    // Snapshot so `use()`/unsubscribe during a run doesn't affect it
+    const middlewares = [...this.#middlewares];
+    const dropped: (string | null)[] = [];
+
+    let events: Event<TMetadata>[] = [event];
+
+    for (const middleware of middlewares) {
+      const next: Event<TMetadata>[] = [];
+
+      for (const current of events) {
+        let result: MiddlewareResult<TMetadata>;
+
+        try {
+          result = await middleware(current);
+        } catch (err) {
+          this.#logger.error("Middleware failed, dropping event", {
+            name: current.name,
+            error: err instanceof Error ? err.message : String(err),
+          });
+
+          dropped.push(null);
+
+          continue;
+        }
+
+        if (result === undefined) {
+          next.push(current);
+        } else if (result === null) {
+          dropped.push(null);
+        } else if (Array.isArray(result)) {
+          if (result.length === 0) dropped.push(null);
+
+          next.push(...result);
+        } else if ("drop" in result) {
+          dropped.push(result.drop);
+        } else {
+          next.push(result);
+        }
+      }
+
+      events = next;
+
+      if (events.length === 0) break;
+    }
+
+    return { events, dropped };
+  }
+}
@@ -0,0 +1,516 @@
+import type { PredefinedEvents } from "./event-specs.ts";
+import type {
+  Address,
+  Campaign,
+  Cart,
+  Category,
+  Challenge,
+  Checkout,
+  Coupon,
+  Filter,
+  GroupTraits,
+  Incentive,
+  Money,
+  Order,
+  Pagination,
+  Payment,
+  Product,
+  Referral,
+  Reward,
+  Shipping,
+  Sort,
+  UserTraits,
+} from "./types.ts";
+
+/**
+ * Declarative description of a payload value, used for runtime validation.
+ */
+export type PayloadSchema = (
+  | {
+      type: "string";
+      /**
+       * Allowed values, if restricted.
+       */
+      enum?: readonly string[];
+      /**
+       * Named format the value must match.
+       */
+      format?: "currency";
+    }
+  | { type: "number" }
+  | { type: "primitive" }
+  | { type: "array"; items: PayloadSchema }
+  | { type: "tuple"; items: readonly PayloadSchema[] }
+  | { type: "record"; values: PayloadSchema }
+  | { type: "object"; properties: Record<string, PayloadSchema> }
+) & {
+  /**
+   * Whether the property may be omitted from its parent object.
+   */
+  optional?: boolean;
+};
+
+/**
+ * Schema of an object with known properties.
+ */
+export type ObjectSchema<
+  TProperties extends Record<string, PayloadSchema> = Record<
+    string,
+    PayloadSchema
+  >,
+> = {
+  type: "object";
+  properties: TProperties;
+};
+
+type RequiredSchema = PayloadSchema & { optional?: false };
+
+type OptionalSchema = PayloadSchema & { optional: true };
+
+/**
+ * Property schemas of an object type: one per key, optional exactly where the
+ * property is.
+ */
+type PropertySchemas<T> = {
+  [K in keyof T]-?: undefined extends T[K] ? OptionalSchema : RequiredSchema;
+};
+
+/**
+ * Active ISO 4217 currency codes.
+ */
+export const ISO_4217_CURRENCIES: ReadonlySet<string> = new Set(
+  [
+    "AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN",
+    "BHD BIF BMD BND BOB BOV BRL BSD BTN BWP BYN BZD CAD CDF",
+    "CHE CHF CHW CLF CLP CNY COP COU CRC CUC CUP CVE CZK DJF",
+    "DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL GHS GIP GMD",
+    "GNF GTQ GYD HKD HNL HTG HUF IDR ILS INR IQD IRR ISK JMD",
+    "JOD JPY KES KGS KHR KMF KPW KRW KWD KYD KZT LAK LBP LKR",
+    "LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK",
+    "MXN MXV MYR MZN NAD NGN NIO NOK NPR NZD OMR PAB PEN PGK",
+    "PHP PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG SEK",
+    "SGD SHP SLE SLL SOS SRD SSP STN SVC SYP SZL THB TJS TMT",
+    "TND TOP TRY TTD TWD TZS UAH UGX USD USN UYI UYU UYW UZS",
+    "VED VES VND VUV WST XAF XAG XAU XBA XBB XBC XBD XCD XCG",
+    "XDR XOF XPD XPF XPT XSU XTS XUA XXX YER ZAR ZMW ZWG ZWL",
+  ]
+    .join(" ")
+    .split(" "),
+);
+
+const t = {
+  string: (enumValues?: readonly string[]): RequiredSchema => ({
+    type: "string",
+    ...(enumValues && { enum: enumValues }),
+  }),
+  currency: (): RequiredSchema => ({ type: "string", format: "currency" }),
+  number: (): RequiredSchema => ({ type: "number" }),
+  array: (items: PayloadSchema): RequiredSchema => ({ type: "array", items }),
+  tuple: (...items: PayloadSchema[]): RequiredSchema => ({
+    type: "tuple",
+    items,
+  }),
+  object: <TProperties extends Record<string, PayloadSchema>>(
+    properties: TProperties,
+  ): ObjectSchema<TProperties> => ({
+    type: "object",
+    properties,
+  }),
+  optional: (schema: PayloadSchema): OptionalSchema => ({
+    ...schema,
+    optional: true,
+  }),
+};
+
+const customProperties = t.optional({
+  type: "record",
+  values: { type: "primitive" },
+});
+
+const omit = <
+  TProperties extends Record<string, PayloadSchema>,
+  TKey extends keyof TProperties & string,
+>(
+  schema: ObjectSchema<TProperties>,
+  keys: readonly TKey[],
+): ObjectSchema<Omit<TProperties, TKey>> =>
+  t.object(
+    Object.fromEntries(
+      Object.entries(schema.properties).filter(
+        ([key]) => !(keys as readonly string[]).includes(key),
+      ),
+    ) as Omit<TProperties, TKey>,
+  );
+
+const money = t.object({
+  amount: t.number(),
+  currency: t.currency(),
+} satisfies PropertySchemas<Money>);
+
+const category = t.object({
+  id: t.string(),
+  title: t.optional(t.string()),
+} satisfies PropertySchemas<Category>);
+
+const address = t.object({
+  fullAddress: t.string(),
+  city: t.string(),
+  location: t.optional(
+    t.object({
+      lat: t.number(),
+      long: t.number(),
+    } satisfies PropertySchemas<NonNullable<Address["location"]>>),
+  ),
+  customProperties,
+} satisfies PropertySchemas<Address>);
+
+const shipping = t.object({
+  price: money,
+  method: t.string(),
+  origin: t.optional(address),
+  destination: address,
+  arrival: t.optional(
+    t.object({
+      absoluteArriveAt: t.optional(t.number()),
+      rangeArriveAt: t.optional(t.tuple(t.number(), t.number())),
+    } satisfies PropertySchemas<NonNullable<Shipping["arrival"]>>),
+  ),
+  customProperties,
+} satisfies PropertySchemas<Shipping>);
+
+const coupon = t.object({
+  code: t.string(),
+  amount: money,
+  id: t.optional(t.string()),
+  customProperties,
+} satisfies PropertySchemas<Coupon>);
+
+const product = t.object({
+  productId: t.string(),
+  productTitle: t.optional(t.string()),
+  category: t.optional(category),
+  skuId: t.optional(t.string()),
+  vendor: t.optional(t.string()),
+  price: money,
+  discount: t.optional(money),
+  quantity: t.optional(t.number()),
+  position: t.optional(t.number()),
+  customProperties,
+} satisfies PropertySchemas<Product>);
+
+const reward = t.object({
+  amount: t.number(),
+  unit: t.string(),
+} satisfies PropertySchemas<Reward>);
+
+const incentive = t.object({
+  incentiveId: t.string(),
+  incentiveTitle: t.optional(t.string()),
+  type: t.string(),
+  reward,
+  customProperties,
+} satisfies PropertySchemas<Incentive>);
+
+const order = t.object({
+  orderId: t.string(),
+  checkoutId: t.optional(t.string()),
+  transactionId: t.optional(t.string()),
+  cartId: t.optional(t.string()),
+  totalValue: money,
+  totalDiscount: t.optional(money),
+  subtotalValue: t.optional(money),
+  tax: t.optional(money),
+  shipping: t.optional(shipping),
+  paymentMethod: t.optional(t.string()),
+  incentives: t.optional(t.array(incentive)),
+  products: t.array(product),
+  customProperties,
+} satisfies PropertySchemas<Order>);
+
+const checkout = t.object({
+  checkoutId: t.optional(t.string()),
+  order: omit(order, ["orderId", "transactionId", "checkoutId"]),
+  step: t.string(),
+  customProperties,
+} satisfies PropertySchemas<Checkout>);
+
+const pagination = t.object({
+  page: t.number(),
+  limit: t.number(),
+} satisfies PropertySchemas<Pagination>);
+
+const filter = t.object({
+  key: t.string(),
+  value: t.string(),
+} satisfies PropertySchemas<Filter>);
+
+const sort = t.object({
+  key: t.string(),
+  value: t.string(["asc", "dsc"]),
+} satisfies PropertySchemas<Sort>);
+
+const payment = t.object({
+  paymentId: t.string(),
+  gateway: t.optional(t.string()),
+  method: t.string(),
+  value: money,
+  order: t.optional(order),
+  customProperties,
+} satisfies PropertySchemas<Payment>);
+
+const campaign = t.object({
+  source: t.string(),
+  medium: t.string(),
+  name: t.optional(t.string()),
+  term: t.optional(t.string()),
+  content: t.optional(t.string()),
+} satisfies PropertySchemas<Campaign>);
+
+const cart = t.object({
+  cartId: t.optional(t.string()),
+  products: t.array(product),
+  customProperties,
+} satisfies PropertySchemas<Cart>);
+
+const challenge = t.object({
+  challengeId: t.string(),
+  challengeTitle: t.optional(t.string()),
+  category: t.optional(category),
+  customProperties,
+} satisfies PropertySchemas<Challenge>);
+
+const referral = t.object({
+  referralCode: t.string(),
+  referrerId: t.optional(t.string()),
+  customProperties,
+} satisfies PropertySchemas<Referral>);
+
+const appState = t.string(["opened", "closed", "foreground", "background"]);
+
+const userTraits = t.object({
+  firstName: t.optional(t.string()),
+  lastName: t.optional(t.string()),
+  fullName: t.optional(t.string()),
+  username: t.optional(t.string()),
+  age: t.optional(t.number()),
+  email: t.optional(t.string()),
+  phone: t.optional(t.string()),
+  gender: t.optional(t.string(["male", "female", "other"])),
+  birthday: t.optional(t.number()),
+  registeredAt: t.optional(t.number()),
+  address: t.optional(address),
+  customProperties,
+} satisfies PropertySchemas<UserTraits>);
+
+const groupTraits = t.object({
+  name: t.optional(t.string()),
+  industry: t.optional(t.string()),
+  employees: t.optional(t.number()),
+  plan: t.optional(t.string()),
+  website: t.optional(t.string()),
+  email: t.optional(t.string()),
+  phone: t.optional(t.string()),
+  createdAt: t.optional(t.number()),
+  address: t.optional(address),
+  customProperties,
+} satisfies PropertySchemas<GroupTraits>);
+
+const element = t.object({
+  elementId: t.string(),
+  elementType: t.optional(t.string()),
+  elementTitle: t.optional(t.string()),
+  customProperties,
+});
+
+const productWishlist = t.object({
+  wishlistId: t.optional(t.string()),
+  referrer: t.optional(t.string()),
+  product,
+  customProperties,
+});
+
+const cartModification = t.object({
+  cart,
+  referrer: t.optional(t.string()),
+  product,
+  customProperties,
+});
+
+const checkoutStep = t.object({ checkout, customProperties });
+
+const couponEnteredRemoved = t.object({ coupon, checkout, customProperties });
+
+const promotion = t.object({
+  promotionId: t.string(),
+  promotionTitle: t.optional(t.string()),
+  customProperties,
+});
+
+const review = {
+  reviewId: t.string(),
+  rating: t.number(),
+  title: t.optional(t.string()),
+  body: t.optional(t.string()),
+  customProperties,
+};
+
+const incentiveSource = t.object({
+  incentive,
+  sourceId: t.optional(t.string()),
+  sourceTitle: t.optional(t.string()),
+  customProperties,
+});
+
+/**
+ * Payload schemas of all predefined events, mirroring the types in `event-specs.ts`.
+ * The compiler checks every schema against the keys and optionality of its payload.
+ */
+export const PREDEFINED_PAYLOAD_SCHEMAS = {
+  user_identified: t.object({ userId: t.string(), traits: userTraits }),
+  user_aliased: t.object({ previousId: t.string(), newId: t.string() }),
+  group_identified: t.object({ groupId: t.string(), traits: groupTraits }),
+  screened: t.object({
+    title: t.string(),
+    url: t.string(),
+    pathname: t.optional(t.string()),
+    referrer: t.optional(t.string()),
+    search: t.optional(t.string()),
+    keywords: t.optional(t.array(t.string())),
+    campaign: t.optional(campaign),
+    customProperties,
+  }),
+  app_state_changed: t.object({
+    newState: appState,
+    previousState: t.optional(appState),
+  }),
+  session_started: t.object({ previousSessionId: t.optional(t.string()) }),
+  session_ended: t.object({ durationMs: t.number(), eventCount: t.number() }),
+  clicked: element,
+  viewed: element,
+
+  product_clicked: t.object({ product, customProperties }),
+  product_viewed: t.object({ product, customProperties }),
+  product_shared: t.object({
+    sharingMethod: t.optional(t.string()),
+    message: t.optional(t.string()),
+    recipient: t.optional(t.string()),
+    product,
+    customProperties,
+  }),
+  products_searched: t.object({ query: t.string(), customProperties }),
+  product_list_viewed: t.object({
+    listId: t.optional(t.string()),
+    category: t.optional(category),
+    pagination: t.optional(pagination),
+    products: t.array(product),
+    customProperties,
+  }),
+  product_list_filtered: t.object({
+    listId: t.optional(t.string()),
+    category: t.optional(category),
+    filters: t.array(filter),
+    sorts: t.array(sort),
+    products: t.array(product),
+    customProperties,
+  }),
+  product_reviewed: t.object({ product, ...review }),
+
+  product_added_to_wishlist: productWishlist,
+  product_removed_from_wishlist: productWishlist,
+
+  product_added_to_cart: cartModification,
+  product_removed_from_cart: cartModification,
+  cart_viewed: t.object({ cart, customProperties }),
+  cart_emptied: t.object({ cart, customProperties }),
+
+  checkout_started: t.object({ checkout, customProperties }),
+  checkout_step_viewed: checkoutStep,
+  checkout_step_completed: checkoutStep,
+
+  order_completed: t.object({ order, customProperties }),
+  order_failed: t.object({ order, reason: t.string(), customProperties }),
+  order_cancelled: t.object({
+    order,
+    issuer: t.optional(t.string()),
+    customProperties,
+  }),
+  order_shipped: t.object({ order, customProperties }),
+  order_refunded: t.object({ order, customProperties }),
+  order_updated: t.object({
+    order,
+    reason: t.optional(t.string()),
+    customProperties,
+  }),
+  order_product_fulfilled: t.object({ order, product, customProperties }),
+  order_product_returned: t.object({
+    order,
+    product,
+    reason: t.string(),
+    refundMethod: t.optional(t.string()),
+    totalReturnedValue: money,
+    customProperties,
+  }),
+  order_fulfillment_status_updated: t.object({
+    order,
+    previousStatus: t.optional(t.string()),
+    newStatus: t.string(),
+    reason: t.optional(t.string()),
+    customProperties,
+  }),
+  order_reviewed: t.object({ order, ...review }),
+
+  coupon_entered: couponEnteredRemoved,
+  coupon_removed: couponEnteredRemoved,
+  coupon_denied: t.object({
+    coupon,
+    checkout,
+    reason: t.string(),
+    customProperties,
+  }),
+
+  promotion_viewed: promotion,
+  promotion_clicked: promotion,
+
+  payment_authorized: t.object({ payment, customProperties }),
+  payment_captured: t.object({ payment, customProperties }),
+  payment_failed: t.object({ payment, customProperties }),
+  payment_refunded: t.object({
+    payment,
+    reason: t.optional(t.string()),
+    returnedAmount: money,
+    customProperties,
+  }),
+
+  referral_shared: t.object({
+    referral,
+    medium: t.optional(t.string()),
+    customProperties,
+  }),
+  referral_applied: t.object({
+    referral,
+    flow: t.optional(t.string()),
+    customProperties,
+  }),
+
+  incentive_granted: incentiveSource,
+  incentive_redeemed: t.object({
+    incentive,
+    redeemerId: t.optional(t.string()),
+    redeemerTitle: t.optional(t.string()),
+    customProperties,
+  }),
+  incentive_claimed: incentiveSource,
+  incentive_expired: t.object({ incentive, customProperties }),
+
+  challenge_started: t.object({ challenge, customProperties }),
+  challenge_completed: t.object({ challenge, customProperties }),
+  challenge_step_completed: t.object({
+    challenge,
+    step: t.string(),
+    customProperties,
+  }),
+} satisfies {
+  readonly [K in keyof PredefinedEvents]: ObjectSchema<
+    PropertySchemas<PredefinedEvents[K]>
+  >;
+};
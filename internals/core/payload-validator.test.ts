@@ -0,0 +1,209 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import type { OrderCompletedPayload, PredefinedEvents } from "./event-specs.ts";
+import { PREDEFINED_PAYLOAD_SCHEMAS } from "./payload-schemas.ts";
+import {
+  PayloadValidationError,
+  validateEventPayload,
+  validateSchema,
+} from "./payload-validator.ts";
+
+const createOrder = (): OrderCompletedPayload => ({
+  order: {
+    orderId: "order-1",
+    totalValue: { amount: 100, currency: "USD" },
+    shipping: {
+      price: { amount: 5, currency: "EUR" },
+      method: "Standard",
+      destination: { fullAddress: "1 Main St", city: "Tehran" },
+      arrival: { rangeArriveAt: [1000, 2000] },
+    },
+    products: [
+      {
+        productId: "p1",
+        price: { amount: 50, currency: "IRR" },
+        quantity: 2,
+        customProperties: { color: "red", gift: true, size: 42 },
+      },
+    ],
+  },
+});
+
+describe("validateEventPayload", () => {
+  it("should accept a valid payload", () => {
+    expect(validateEventPayload("order_completed", createOrder())).toEqual([]);
+  });
+
+  it("should ignore events that aren't predefined", () => {
+    expect(validateEventPayload("custom_event", { anything: 1 })).toEqual([]);
+  });
+
+  it("should ignore inherited object keys as event names", () => {
+    expect(validateEventPayload("toString", null)).toEqual([]);
+  });
+
+  it("should report missing required fields", () => {
+    const payload = createOrder();
+
+    // @ts-expect-error Testing runtime validation
+    delete payload.order.totalValue;
+
+    expect(validateEventPayload("order_completed", payload)).toEqual([
+      { path: "payload.order.totalValue", message: "is required" },
+    ]);
+  });
+
+  it("should reject currencies that aren't ISO 4217 codes", () => {
+    const payload = createOrder();
+
+    payload.order.totalValue.currency = "usd";
+    payload.order.products[0]!.price.currency = "IRT";
+
+    expect(validateEventPayload("order_completed", payload)).toEqual([
+      {
+        path: "payload.order.totalValue.currency",
+        message: "must be an ISO 4217 currency code",
+      },
+      {
+        path: "payload.order.products[0].price.currency",
+        message: "must be an ISO 4217 currency code",
+      },
+    ]);
+  });
+
+  it("should reject non-numeric and non-finite numbers", () => {
+    const payload = createOrder();
+
+    // @ts-expect-error Testing runtime validation
+    payload.order.totalValue.amount = "100";
+    payload.order.products[0]!.quantity = NaN;
+
+    expect(validateEventPayload("order_completed", payload)).toEqual([
+      {
+        path: "payload.order.totalValue.amount",
+        message: "must be a finite number",
+      },
+      {
+        path: "payload.order.products[0].quantity",
+        message: "must be a finite number",
+      },
+    ]);
+  });
+
+  it("should reject values outside of an enum", () => {
+    expect(
+      validateEventPayload("app_state_changed", { newState: "paused" }),
+    ).toEqual([
+      {
+        path: "payload.newState",
+        message:
+          'must be one of "opened", "closed", "foreground", "background"',
+      },
+    ]);
+
+    expect(
+      validateEventPayload("product_list_filtered", {
+        filters: [],
+        sorts: [{ key: "price", value: "desc" }],
+        products: [],
+      }),
+    ).toEqual([
+      {
+        path: "payload.sorts[0].value",
+        message: 'must be one of "asc", "dsc"',
+      },
+    ]);
+  });
+
+  it("should reject non-string values", () => {
+    expect(validateEventPayload("clicked", { elementId: 42 })).toEqual([
+      { path: "payload.elementId", message: "must be a string" },
+    ]);
+  });
+
+  it("should reject non-object payloads", () => {
+    expect(validateEventPayload("clicked", null)).toEqual([
+      { path: "payload", message: "must be an object" },
+    ]);
+    expect(validateEventPayload("clicked", ["btn"])).toEqual([
+      { path: "payload", message: "must be an object" },
+    ]);
+  });
+
+  it("should reject non-array values", () => {
+    const payload = createOrder();
+
+    // @ts-expect-error Testing runtime validation
+    payload.order.products = {};
+
+    expect(validateEventPayload("order_completed", payload)).toEqual([
+      { path: "payload.order.products", message: "must be an array" },
+    ]);
+  });
+
+  it("should reject tuples of the wrong length", () => {
+    const payload = createOrder();
+
+    // @ts-expect-error Testing runtime validation
+    payload.order.shipping!.arrival!.rangeArriveAt = [1000];
+
+    expect(validateEventPayload("order_completed", payload)).toEqual([
+      {
+        path: "payload.order.shipping.arrival.rangeArriveAt",
+        message: "must have exactly 2 items",
+      },
+    ]);
+  });
+
+  it("should reject non-primitive custom properties", () => {
+    expect(
+      validateEventPayload("clicked", {
+        elementId: "btn",
+        customProperties: { nested: { a: 1 } },
+      }),
+    ).toEqual([
+      {
+        path: "payload.customProperties.nested",
+        message: "must be a string, number or boolean",
+      },
+    ]);
+  });
+});
+
+describe("validateSchema", () => {
+  it("should use the given path", () => {
+    expect(validateSchema({ type: "number" }, "1", "amount")).toEqual([
+      { path: "amount", message: "must be a finite number" },
+    ]);
+  });
+
+  it("should have a schema with the properties of every predefined payload", () => {
+    type Schemas = typeof PREDEFINED_PAYLOAD_SCHEMAS;
+
+    expectTypeOf<{
+      [K in keyof PredefinedEvents]: keyof Schemas[K]["properties"];
+    }>().toEqualTypeOf<{
+      [K in keyof PredefinedEvents]: keyof PredefinedEvents[K];
+    }>();
+
+    for (const schema of Object.values(PREDEFINED_PAYLOAD_SCHEMAS)) {
+      expect(schema.type).toBe("object");
+    }
+  });
+});
+
+describe("PayloadValidationError", () => {
+  it("should describe every issue", () => {
+    const error = new PayloadValidationError("clicked", [
+      { path: "payload.elementId", message: "is required" },
+      { path: "payload.elementType", message: "must be a string" },
+    ]);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("PayloadValidationError");
+    expect(error.eventName).toBe("clicked");
+    expect(error.issues).toHaveLength(2);
+    expect(error.message).toBe(
+      'Invalid payload for "clicked": payload.elementId is required; payload.elementType must be a string',
+    );
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  ISO_4217_CURRENCIES,
+  PREDEFINED_PAYLOAD_SCHEMAS,
+  type PayloadSchema,
+} from "./payload-schemas.ts";
+
+/**
+ * How predefined event payloads are validated at runtime.
+ * - `"off"` — payloads are not validated
+ * - `"drop"` — invalid events are logged and dropped (reason `"invalid"`)
+ * - `"strict"` — tracking an invalid event throws a `PayloadValidationError`
+ */
+export type PayloadValidationMode = "off" | "drop" | "strict";
+
+/**
+ * A single payload validation failure.
+ */
+export type ValidationIssue = {
+  /**
+   * Path of the invalid value (e.g., `"payload.order.totalValue.currency"`).
+   */
+  path: string;
+  /**
+   * Human-readable description of the failure.
+   */
+  message: string;
+};
+
+/**
+ * Error thrown in `"strict"` validation mode when a payload is invalid.
+ */
+export class PayloadValidationError extends Error {
+  /**
+   * Name of the event with the invalid payload.
+   */
+  public readonly eventName: string;
+  /**
+   * Every validation failure found in the payload.
+   */
+  public readonly issues: ValidationIssue[];
+
+  constructor(eventName: string, issues: ValidationIssue[]) {
+    super(
+      `Invalid payload for "${eventName}": ${issues
+        .map(issue => `${issue.path} ${issue.message}`)
+        .join("; ")}`,
+    );
+
+    this.name = "PayloadValidationError";
+    this.eventName = eventName;
+    this.issues = issues;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a value against a payload schema.
+ * Properties not described by the schema are ignored.
+ *
+ * @param schema The schema to validate against
+ * @param value The value to validate
+ * @param path Path of the value, used in reported issues
+ * @returns Every validation failure found (empty if valid)
+ */
+export const validateSchema = (
+  schema: PayloadSchema,
+  value: unknown,
+  path: string = "payload",
+): ValidationIssue[] => {
+  const fail = (message: string): ValidationIssue[] => [{ path, message }];
+
+  if (schema.type === "string") {
+    if (typeof value !== "string") return fail("must be a string");
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      return fail(
+        `must be one of ${schema.enum.map(v => `"${v}"`).join(", ")}`,
+      );
+    }
+
+    if (schema.format === "currency" && !ISO_4217_CURRENCIES.has(value)) {
+      return fail("must be an ISO 4217 currency code");
+    }
+
+    return [];
+  }
+
+  if (schema.type === "number") {
+    return typeof value === "number" && Number.isFinite(value)
+      ? []
+      : fail("must be a finite number");
+  }
+
+  if (schema.type === "primitive") {
+    return ["string", "number", "boolean"].includes(typeof value)
+      ? []
+      : fail("must be a string, number or boolean");
+  }
+
+  if (schema.type === "array" || schema.type === "tuple") {
+    if (!Array.isArray(value)) return fail("must be an array");
+
+    if (schema.type === "tuple" && value.length !== schema.items.length) {
+      return fail(`must have exactly ${schema.items.length} items`);
+    }
+
+    return value.flatMap((item, index) =>
+      validateSchema(
+        schema.type === "array" ? schema.items : schema.items[index]!,
+        item,
+        `${path}[${index}]`,
+      ),
+    );
+  }
+
+  if (!isPlainObject(value)) return fail("must be an object");
+
+  if (schema.type === "record") {
+    return Object.entries(value).flatMap(([key, item]) =>
+      validateSchema(schema.values, item, `${path}.${key}`),
+    );
+  }
+
+  return Object.entries(schema.properties).flatMap(([key, property]) => {
+    if (value[key] === undefined) {
+      return property.optional
+        ? []
+        : [{ path: `${path}.${key}`, message: "is required" }];
+    }
+
+    return validateSchema(property, value[key], `${path}.${key}`);
+  });
+};
+
+/**
+ * Validate the payload of a predefined event.
+ * Events that aren't predefined are always considered valid.
+ *
+ * @param name The event name
+ * @param payload The event payload
+ * @returns Every validation failure found (empty if valid)
+ */
+export const validateEventPayload = (
+  name: string,
+  payload: unknown,
+): ValidationIssue[] => {
+  if (!Object.prototype.hasOwnProperty.call(PREDEFINED_PAYLOAD_SCHEMAS, name)) {
+    return [];
+  }
+
+  const schema =
+    PREDEFINED_PAYLOAD_SCHEMAS[name as keyof typeof PREDEFINED_PAYLOAD_SCHEMAS];
+
+  return validateSchema(schema, payload);
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertRateLimitOptions,
+  RateLimiter,
+  type RateLimitOptions,
+} from "./rate-limiter.ts";
+
+const acquire = (limiter: RateLimiter, name: string, count: number, now = 0) =>
+  Array.from({ length: count }, () => limiter.tryAcquire(name, now));
+
+describe("assertRateLimitOptions", () => {
+  it("should accept well-formed options", () => {
+    expect(() =>
+      assertRateLimitOptions({
+        global: { limit: 100, interval: 1000 },
+        perEvent: { limit: 10, interval: 1000 },
+        events: { viewed: { limit: 1, interval: 60000 } },
+      }),
+    ).not.toThrow();
+  });
+
+  it.each<[RateLimitOptions, string]>([
+    [
+      { global: { limit: 0, interval: 1000 } },
+      "`rateLimit.global.limit` must be a positive number.",
+    ],
+    [
+      { perEvent: { limit: 1, interval: -1 } },
+      "`rateLimit.perEvent.interval` must be a positive number.",
+    ],
+    [
+      { events: { viewed: null as unknown as { limit: 1; interval: 1 } } },
+      "`rateLimit.events.viewed.limit` must be a positive number.",
+    ],
+    [
+      { events: { viewed: { limit: Number.NaN, interval: 1 } } },
+      "`rateLimit.events.viewed.limit` must be a positive number.",
+    ],
+  ])("should reject %j", (options, message) => {
+    expect(() => assertRateLimitOptions(options)).toThrow(message);
+  });
+});
+
+describe("RateLimiter", () => {
+  it("should admit everything without limits", () => {
+    const limiter = new RateLimiter({});
+
+    expect(acquire(limiter, "viewed", 100).every(Boolean)).toBe(true);
+  });
+
+  it("should admit bursts up to the limit", () => {
+    const limiter = new RateLimiter({ global: { limit: 3, interval: 1000 } });
+
+    expect(acquire(limiter, "viewed", 4)).toEqual([true, true, true, false]);
+  });
+
+  it("should refill tokens over the interval", () => {
+    const limiter = new RateLimiter({ global: { limit: 4, interval: 1000 } });
+
+    acquire(limiter, "viewed", 4);
+
+    expect(limiter.tryAcquire("viewed", 100)).toBe(false);
+    expect(limiter.tryAcquire("viewed", 250)).toBe(true);
+    expect(limiter.tryAcquire("viewed", 250)).toBe(false);
+    expect(acquire(limiter, "viewed", 5, 10000)).toEqual([
+      true,
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("should ignore clocks moving backwards", () => {
+    const limiter = new RateLimiter({ global: { limit: 1, interval: 1000 } });
+
+    limiter.tryAcquire("viewed", 5000);
+
+    expect(limiter.tryAcquire("viewed", 0)).toBe(false);
+  });
+
+  it("should limit each event name separately", () => {
+    const limiter = new RateLimiter({
+      perEvent: { limit: 2, interval: 1000 },
+      events: { clicked: { limit: 1, interval: 1000 } },
+    });
+
+    expect(acquire(limiter, "viewed", 3)).toEqual([true, true, false]);
+    expect(acquire(limiter, "clicked", 2)).toEqual([true, false]);
+    expect(acquire(limiter, "screened", 2)).toEqual([true, true]);
+  });
+
+  it("should only limit listed events without a per-event default", () => {
+    const limiter = new RateLimiter({
+      events: { viewed: { limit: 1, interval: 1000 } },
+    });
+
+    expect(acquire(limiter, "viewed", 2)).toEqual([true, false]);
+    expect(acquire(limiter, "toString", 3).every(Boolean)).toBe(true);
+  });
+
+  it("should not consume tokens of events rejected by another limit", () => {
+    const limiter = new RateLimiter({
+      global: { limit: 2, interval: 1000 },
+      events: { viewed: { limit: 1, interval: 1000 } },
+    });
+
+    expect(acquire(limiter, "viewed", 2)).toEqual([true, false]);
+    expect(limiter.tryAcquire("clicked", 0)).toBe(true);
+    expect(limiter.tryAcquire("clicked", 0)).toBe(false);
+  });
+});
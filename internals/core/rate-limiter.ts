@@ -0,0 +1,177 @@
+/**
+ * A token-bucket limit: at most `limit` events per `interval`, with bursts of
+ * up to `limit` events.
+ */
+export type RateLimit = {
+  /**
+   * Maximum number of events per interval.
+   */
+  limit: number;
+  /**
+   * Interval in milliseconds over which the limit refills.
+   */
+  interval: number;
+};
+
+/**
+ * Rate limits applied to tracked events.
+ */
+export type RateLimitOptions = {
+  /**
+   * Limit shared by all events.
+   */
+  global?: RateLimit;
+  /**
+   * Limit applied to each event name without a limit in `events`.
+   */
+  perEvent?: RateLimit;
+  /**
+   * Limits per event name.
+   */
+  events?: Record<string, RateLimit>;
+};
+
+/**
+ * Check that a rate limit is well-formed.
+ *
+ * @param field The config field, used in the error message
+ * @param limit The limit to check
+ * @throws {Error} When the limit or interval isn't a positive number
+ */
+const assertRateLimit = (field: string, limit: RateLimit): void => {
+  if (typeof limit?.limit !== "number" || !(limit.limit > 0)) {
+    throw new Error(`\`${field}.limit\` must be a positive number.`);
+  }
+
+  if (typeof limit.interval !== "number" || !(limit.interval > 0)) {
+    throw new Error(`\`${field}.interval\` must be a positive number.`);
+  }
+};
+
+/**
+ * Check that rate limit options are well-formed.
+ *
+ * @param options The options to check
+ * @throws {Error} When a limit is malformed
+ */
+export const assertRateLimitOptions = (options: RateLimitOptions): void => {
+  if (options.global !== undefined) {
+    assertRateLimit("rateLimit.global", options.global);
+  }
+
+  if (options.perEvent !== undefined) {
+    assertRateLimit("rateLimit.perEvent", options.perEvent);
+  }
+
+  for (const [name, limit] of Object.entries(options.events ?? {})) {
+    assertRateLimit(`rateLimit.events.${name}`, limit);
+  }
+};
+
+/**
+ * A token bucket refilled continuously at `limit / interval` tokens per millisecond.
+ */
+class TokenBucket {
+  readonly #capacity: number;
+  readonly #refillPerMs: number;
+
+  #tokens: number;
+  #updatedAt: number;
+
+  constructor({ limit, interval }: RateLimit, now: number) {
+    this.#capacity = limit;
+    this.#refillPerMs = limit / interval;
+    this.#tokens = limit;
+    this.#updatedAt = now;
+  }
+
+  /**
+   * Refill the bucket and check whether a token is available.
+   *
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns Whether a token can be taken
+   */
+  public hasToken(now: number): boolean {
+    const elapsed = Math.max(0, now - this.#updatedAt);
+
+    this.#tokens = Math.min(
+      this.#capacity,
+      this.#tokens + elapsed * this.#refillPerMs,
+    );
+    this.#updatedAt = now;
+
+    return this.#tokens >= 1;
+  }
+
+  /**
+   * Take a token. Call `hasToken()` first.
+   */
+  public take(): void {
+    this.#tokens -= 1;
+  }
+}
+
+/**
+ * Limits the rate of tracked events with global and per-event-name token buckets.
+ */
+export class RateLimiter {
+  readonly #options: RateLimitOptions;
+  readonly #buckets = new Map<string, TokenBucket>();
+
+  #global: TokenBucket | null = null;
+
+  /**
+   * Create a new RateLimiter instance.
+   *
+   * @param options The rate limits
+   */
+  constructor(options: RateLimitOptions) {
+    this.#options = options;
+  }
+
+  /**
+   * Try to admit an event. Tokens are only taken when every applicable limit
+   * admits it.
+   *
+   * @param name The event name
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns Whether the event is within the limits
+   */
+  public tryAcquire(name: string, now: number = Date.now()): boolean {
+    const buckets = [this.#getGlobalBucket(now), this.#getBucket(name, now)];
+    const applicable = buckets.filter(bucket => bucket !== null);
+
+    if (!applicable.every(bucket => bucket.hasToken(now))) return false;
+
+    applicable.forEach(bucket => bucket.take());
+
+    return true;
+  }
+
+  #getGlobalBucket(now: number): TokenBucket | null {
+    if (!this.#options.global) return null;
+
+    this.#global ??= new TokenBucket(this.#options.global, now);
+
+    return this.#global;
+  }
+
+  #getBucket(name: string, now: number): TokenBucket | null {
+    const existing = this.#buckets.get(name);
+
+    if (existing) return existing;
+
+    const { events = {}, perEvent } = this.#options;
+    const limit = Object.prototype.hasOwnProperty.call(events, name)
+      ? events[name]
+      : perEvent;
+
+    if (!limit) return null;
+
+    const bucket = new TokenBucket(limit, now);
+
+    this.#buckets.set(name, bucket);
+
+    return bucket;
+  }
+}
@@ -0,0 +1,346 @@
+import { describe, expect, it, vi } from "vitest";
+import { NoOpLogger } from "./logger.ts";
+import {
+  assertRedactionRules,
+  Redactor,
+  webCryptoSha256,
+  type RedactionRule,
+  type Sha256,
+} from "./redactor.ts";
+import type { Event } from "./types.ts";
+
+const createEvent = (
+  payload: Event["payload"],
+  metadata: Event["metadata"] = null,
+): Event => ({
+  name: "test_event",
+  payload,
+  metadata,
+  platform: null,
+  sdk: { name: "test-sdk", version: "1.0.0" },
+  issuedAt: 1000,
+  anonymousId: "anon-1",
+  eventId: "event-1",
+  schemaVersion: null,
+  userId: null,
+  groupId: null,
+  sessionId: null,
+  sessionSequence: null,
+});
+
+const fakeSha256: Sha256 = value => Promise.resolve(`#${value}`);
+
+const createRedactor = (rules: RedactionRule[], sha256 = fakeSha256) =>
+  new Redactor(rules, sha256, new NoOpLogger());
+
+describe("webCryptoSha256", () => {
+  it("should return the hex-encoded SHA-256 hash", async () => {
+    await expect(webCryptoSha256("abc")).resolves.toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+  });
+});
+
+describe("assertRedactionRules", () => {
+  it("should accept well-formed rules", () => {
+    expect(() =>
+      assertRedactionRules([
+        { paths: ["payload.traits.email", "metadata.*"], action: "hash" },
+        { detectors: ["email", "phone", "card", /secret/], action: "mask" },
+      ]),
+    ).not.toThrow();
+  });
+
+  it.each<[unknown, string]>([
+    [{}, "`redaction` must be an array of rules."],
+    [[null], '`redaction[0]`.action must be one of "drop", "mask" or "hash".'],
+    [
+      [{ paths: ["payload.a"], action: "erase" }],
+      '`redaction[0]`.action must be one of "drop", "mask" or "hash".',
+    ],
+    [
+      [{ paths: [], action: "drop" }],
+      "`redaction[0]` must have `paths` or `detectors`.",
+    ],
+    [
+      [{ paths: ["userId"], action: "drop" }],
+      '`redaction[0]`.paths must start with "payload" or "metadata", got "userId".',
+    ],
+    [
+      [{ paths: ["payload..a"], action: "drop" }],
+      '`redaction[0]`.paths must start with "payload" or "metadata", got "payload..a".',
+    ],
+    [
+      [{ detectors: ["ssn"], action: "drop" }],
+      '`redaction[0]`.detectors must be RegExps or one of "email", "phone" or "card".',
+    ],
+  ])("should reject %j", (rules, message) => {
+    expect(() => assertRedactionRules(rules as RedactionRule[])).toThrow(
+      message,
+    );
+  });
+});
+
+describe("Redactor", () => {
+  describe("paths", () => {
+    it("should drop, mask and hash matched fields", async () => {
+      const redactor = createRedactor([
+        { paths: ["payload.traits.email"], action: "hash" },
+        { paths: ["payload.traits.phone"], action: "mask" },
+        { paths: ["payload.traits.birthday"], action: "drop" },
+      ]);
+
+      const event = await redactor.redact(
+        createEvent({
+          userId: "u-1",
+          traits: { email: "a@b.co", phone: "555", birthday: 1, age: 30 },
+        }),
+      );
+
+      expect(event.payload).toEqual({
+        userId: "u-1",
+        traits: { email: "#a@b.co", phone: "***", age: 30 },
+      });
+    });
+
+    it("should apply actions to every nested value", async () => {
+      const redactor = createRedactor([
+        { paths: ["payload.address"], action: "mask" },
+        { paths: ["payload.tags"], action: "hash" },
+      ]);
+
+      const event = await redactor.redact(
+        createEvent({
+          address: { city: "Tehran", location: { lat: 35.7 }, zip: null },
+          tags: ["a", 1, true],
+        }),
+      );
+
+      expect(event.payload).toEqual({
+        address: { city: "******", location: { lat: "****" }, zip: null },
+        tags: ["#a", "#1", "#true"],
+      });
+    });
+
+    it("should match wildcards against keys and array indices", async () => {
+      const redactor = createRedactor([
+        { paths: ["payload.products.*.vendor"], action: "drop" },
+        { paths: ["metadata.*"], action: "mask" },
+      ]);
+
+      const event = await redactor.redact(
+        createEvent(
+          { products: [{ id: "p1", vendor: "v" }, { id: "p2" }] },
+          { email: "x", ip: "1.2" },
+        ),
+      );
+
+      expect(event.payload).toEqual({ products: [{ id: "p1" }, { id: "p2" }] });
+      expect(event.metadata).toEqual({ email: "*", ip: "***" });
+    });
+
+    it("should remove dropped array items", async () => {
+      const redactor = createRedactor([
+        { paths: ["payload.emails.0"], action: "drop" },
+      ]);
+
+      const event = await redactor.redact(createEvent({ emails: ["a", "b"] }));
+
+      expect(event.payload).toEqual({ emails: ["b"] });
+    });
+
+    it("should null out a dropped payload or metadata", async () => {
+      const redactor = createRedactor([
+        { paths: ["payload", "metadata"], action: "drop" },
+      ]);
+
+      const event = await redactor.redact(createEvent({ a: 1 }, { b: 2 }));
+
+      expect(event.payload).toBeNull();
+      expect(event.metadata).toBeNull();
+    });
+
+    it("should apply the first matching rule", async () => {
+      const redactor = createRedactor([
+        { paths: ["payload.email"], action: "mask" },
+        { paths: ["payload.*"], action: "drop" },
+      ]);
+
+      const event = await redactor.redact(createEvent({ email: "ab", x: 1 }));
+
+      expect(event.payload).toEqual({ email: "**" });
+    });
+  });
+
+  describe("detectors", () => {
+    it("should mask matched substrings", async () => {
+      const redactor = createRedactor([
+        { detectors: ["email", "phone"], action: "mask" },
+      ]);
+
+      const event = await redactor.redact(
+        createEvent({
+          note: "Mail a.b@c.io or call +1 (555) 123-4567 now",
+          count: 42,
+        }),
+      );
+
+      expect(event.payload).toEqual({
+        note: "Mail ******** or call ***************** now",
+        count: 42,
+      });
+    });
+
+    it("should match phone numbers written in common formats", async () => {
+      const redactor = createRedactor([
+        { detectors: ["phone"], action: "mask" },
+      ]);
+
+      const event = await redactor.redact(
+        createEvent({
+          international: "+44 20 7946 0958",
+          compact: "+989121234567",
+          national: "call 09121234567",
+          prefixed: "00989121234567",
+          grouped: "(555) 123-4567",
+          dotted: "call 555.123.4567.",
+        }),
+      );
+
+      expect(event.payload).toEqual({
+        international: "****************",
+        compact: "*************",
+        national: "call ***********",
+        prefixed: "**************",
+        grouped: "**************",
+        dotted: "call ************.",
+      });
+    });
+
+    it("should not match dates, IDs or URL digits as phone numbers", async () => {
+      const redactor = createRedactor([
+        { detectors: ["phone"], action: "mask" },
+      ]);
+
+      const payload = {
+        date: "2024-01-15",
+        dateTime: "15/01/2024 10:30",
+        timestamp: "2024-01-15T10:30:00Z",
+        range: "2024-01-15 - 2024-02-15",
+        orderId: "ORD-20240115-004213",
+        bareId: "order 12345678901",
+        paddedId: "ref 0000012345678",
+        timestampMs: "1705314600000",
+        url: "https://example.com/items/1234567890?page=2",
+        short: "call 555-1234",
+      };
+
+      const event = await redactor.redact(createEvent(payload));
+
+      expect(event.payload).toEqual(payload);
+    });
+
+    it("should only match card numbers passing the Luhn checksum", async () => {
+      const redactor = createRedactor([
+        { detectors: ["card"], action: "hash" },
+      ]);
+
+      const event = await redactor.redact(
+        createEvent({
+          valid: "card 4111 1111 1111 1111",
+          mastercard: "5555-5555-5555-4444",
+          invalid: "order 4111111111111112",
+        }),
+      );
+
+      expect(event.payload).toEqual({
+        valid: "card #4111 1111 1111 1111",
+        mastercard: "#5555-5555-5555-4444",
+        invalid: "order 4111111111111112",
+      });
+    });
+
+    it("should drop fields containing a match", async () => {
+      const redactor = createRedactor([
+        { detectors: ["email"], action: "drop" },
+      ]);
+
+      const event = await redactor.redact(
+        createEvent(
+          { customProperties: { contact: "a@b.co", size: "XL" } },
+          { note: "x@y.io" },
+        ),
+      );
+
+      expect(event.payload).toEqual({ customProperties: { size: "XL" } });
+      expect(event.metadata).toEqual({});
+    });
+
+    it("should support custom patterns with or without the global flag", async () => {
+      const redactor = createRedactor([
+        { detectors: [/secret-\d+/, /token-\w+/g], action: "mask" },
+      ]);
+
+      const event = await redactor.redact(
+        createEvent({ note: "secret-1 secret-22 token-ab" }),
+      );
+
+      expect(event.payload).toEqual({ note: "******** ********* ********" });
+    });
+  });
+
+  it("should redact metadata outside of an event", async () => {
+    const redactor = createRedactor([{ detectors: ["email"], action: "mask" }]);
+    const dropping = createRedactor([{ paths: ["metadata"], action: "drop" }]);
+
+    expect(await redactor.redactMetadata({ contact: "a@b.co" })).toEqual({
+      contact: "******",
+    });
+    expect(await redactor.redactMetadata(null)).toBeNull();
+    expect(await dropping.redactMetadata({ contact: "a@b.co" })).toBeNull();
+  });
+
+  it("should not mutate the original event", async () => {
+    const redactor = createRedactor([
+      { paths: ["payload.traits.email"], action: "drop" },
+      { detectors: ["email"], action: "mask" },
+    ]);
+
+    const original = createEvent({
+      traits: { email: "a@b.co" },
+      list: ["c@d.io"],
+    });
+
+    const snapshot = structuredClone(original);
+
+    const event = await redactor.redact(original);
+
+    expect(original).toEqual(snapshot);
+    expect(event).not.toBe(original);
+    expect(event).toMatchObject({ eventId: "event-1", name: "test_event" });
+  });
+
+  it("should drop fields whose hashing fails", async () => {
+    const logger = new NoOpLogger();
+    const errorSpy = vi.spyOn(logger, "error");
+    const error = new Error("unavailable");
+    const redactor = new Redactor(
+      [
+        { paths: ["payload.email"], action: "hash" },
+        { detectors: ["phone"], action: "hash" },
+      ],
+      () => Promise.reject(error),
+      logger,
+    );
+
+    const event = await redactor.redact(
+      createEvent({ email: "a@b.co", note: "call 555 123 4567", keep: "ok" }),
+    );
+
+    expect(event.payload).toEqual({ keep: "ok" });
+    expect(errorSpy).toHaveBeenCalledWith(
+      "Failed to hash value, dropping field",
+      error,
+    );
+  });
+});
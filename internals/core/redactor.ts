@@ -0,0 +1,372 @@
+import type { LoggerAdapter } from "./adapters/logger-adapter.ts";
+import type { Event } from "./types.ts";
+
+/**
+ * Action applied to a value matched by a redaction rule.
+ * - `"drop"` — the field is removed
+ * - `"mask"` — every character is replaced with `*`
+ * - `"hash"` — the value is replaced with its hex-encoded SHA-256 hash
+ */
+export type RedactionAction = "drop" | "mask" | "hash";
+
+/**
+ * Built-in PII detectors.
+ */
+export type PiiDetector = "email" | "phone" | "card";
+
+/**
+ * A declarative redaction rule.
+ */
+export type RedactionRule = {
+  /**
+   * Dotted field paths starting at `payload` or `metadata`
+   * (e.g., `"payload.traits.email"`). `*` matches any single key or array
+   * index. The action applies to the whole value, including nested values.
+   */
+  paths?: string[];
+  /**
+   * Detectors matched against every string in `payload` and `metadata`.
+   * With `"mask"` and `"hash"` only the matched substrings are replaced.
+   * With `"drop"` the whole field is removed.
+   */
+  detectors?: (PiiDetector | RegExp)[];
+  /**
+   * Action applied to matched values.
+   */
+  action: RedactionAction;
+};
+
+/**
+ * Hex-encoded SHA-256 hash function.
+ */
+export type Sha256 = (value: string) => Promise<string>;
+
+/**
+ * Patterns of the built-in PII detectors. Phone and card candidates are
+ * checked further before being redacted.
+ */
+export const PII_PATTERNS: Readonly<Record<PiiDetector, RegExp>> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  phone:
+    /(?<![\w+/.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d+(?:[\s.-]\d+)*(?![\w/]|[.-]\d)/g,
+  card: /\b\d(?:[ -]?\d){12,18}\b/g,
+};
+
+/**
+ * Hash a string with SHA-256 using the Web Crypto API.
+ *
+ * @param value The string to hash
+ * @returns The hex-encoded hash
+ */
+export const webCryptoSha256: Sha256 = async value => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+
+  return Array.from(new Uint8Array(digest), byte =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+};
+
+/**
+ * Check a candidate card number with the Luhn checksum.
+ *
+ * @param value The candidate, possibly with spaces or dashes
+ * @returns Whether the checksum is valid
+ */
+const passesLuhn = (value: string): boolean => {
+  const digits = value.replace(/\D/g, "");
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+
+    if (i % 2 === 1) {
+      digit *= 2;
+
+      if (digit > 9) digit -= 9;
+    }
+
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+};
+
+/**
+ * Check a candidate phone number: 10 to 15 digits, written with a leading `+`,
+ * a leading trunk prefix `0` or `00` as in `09121234567`, or grouped by
+ * separators, and not shaped like a date.
+ *
+ * @param value The candidate
+ * @returns Whether it looks like a phone number
+ */
+const isPhoneNumber = (value: string): boolean => {
+  const digits = value.replace(/\D/g, "").length;
+
+  return (
+    digits >= 10 &&
+    digits <= 15 &&
+    (/\D/.test(value) || /^00?[1-9]/.test(value)) &&
+    !/\d{4}[/.-]\d{1,2}[/.-]\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{4}/.test(value)
+  );
+};
+
+/**
+ * Checks applied to the candidates of the built-in detectors.
+ */
+const DETECTOR_CHECKS: Partial<
+  Record<PiiDetector, (value: string) => boolean>
+> = {
+  phone: isPhoneNumber,
+  card: passesLuhn,
+};
+
+const DROP = Symbol("drop");
+
+type Detector = { pattern: RegExp; check: ((value: string) => boolean) | null };
+
+type CompiledRule = {
+  paths: string[][];
+  detectors: Detector[];
+  action: RedactionAction;
+};
+
+/**
+ * Check that redaction rules are well-formed.
+ *
+ * @param rules The rules to check
+ * @throws {Error} When a rule is malformed
+ */
+export const assertRedactionRules = (rules: RedactionRule[]): void => {
+  if (!Array.isArray(rules)) {
+    throw new Error("`redaction` must be an array of rules.");
+  }
+
+  rules.forEach((rule, index) => {
+    const field = `\`redaction[${index}]\``;
+
+    if (!["drop", "mask", "hash"].includes(rule?.action)) {
+      throw new Error(
+        `${field}.action must be one of "drop", "mask" or "hash".`,
+      );
+    }
+
+    if (!rule.paths?.length && !rule.detectors?.length) {
+      throw new Error(`${field} must have \`paths\` or \`detectors\`.`);
+    }
+
+    for (const path of rule.paths ?? []) {
+      if (!/^(payload|metadata)(\.[^.]+)*$/.test(path)) {
+        throw new Error(
+          `${field}.paths must start with "payload" or "metadata", got "${path}".`,
+        );
+      }
+    }
+
+    for (const detector of rule.detectors ?? []) {
+      if (
+        !(detector instanceof RegExp) &&
+        !Object.prototype.hasOwnProperty.call(PII_PATTERNS, detector)
+      ) {
+        throw new Error(
+          `${field}.detectors must be RegExps or one of "email", "phone" or "card".`,
+        );
+      }
+    }
+  });
+};
+
+/**
+ * Redacts PII from event payloads and metadata according to declarative rules.
+ * Events are copied; the caller's objects are never mutated.
+ */
+export class Redactor {
+  readonly #rules: CompiledRule[];
+  readonly #sha256: Sha256;
+  readonly #logger: LoggerAdapter;
+
+  /**
+   * Create a new Redactor instance.
+   *
+   * @param rules The redaction rules, applied in order
+   * @param sha256 The SHA-256 function used by the `"hash"` action
+   * @param logger Logger reporting hashing failures
+   */
+  constructor(rules: RedactionRule[], sha256: Sha256, logger: LoggerAdapter) {
+    this.#sha256 = sha256;
+    this.#logger = logger;
+    this.#rules = rules.map(rule => ({
+      action: rule.action,
+      paths: (rule.paths ?? []).map(path => path.split(".")),
+      detectors: (rule.detectors ?? []).map(detector => {
+        const pattern =
+          detector instanceof RegExp ? detector : PII_PATTERNS[detector];
+
+        return {
+          pattern: new RegExp(
+            pattern.source,
+            pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`,
+          ),
+          check:
+            detector instanceof RegExp
+              ? null
+              : (DETECTOR_CHECKS[detector] ?? null),
+        };
+      }),
+    }));
+  }
+
+  /**
+   * Redact an event.
+   *
+   * @param event The event to redact
+   * @returns A redacted copy of the event
+   */
+  public async redact<T extends Event>(event: T): Promise<T> {
+    const [payload, metadata] = await Promise.all([
+      this.#redactValue(event.payload, ["payload"]),
+      this.#redactValue(event.metadata, ["metadata"]),
+    ]);
+
+    return {
+      ...event,
+      payload: payload === DROP ? null : payload,
+      metadata: metadata === DROP ? null : metadata,
+    };
+  }
+
+  /**
+   * Redact metadata outside of an event, e.g. for telemetry reports.
+   *
+   * @param metadata The metadata to redact
+   * @returns A redacted copy of the metadata
+   */
+  public async redactMetadata(
+    metadata: Record<string, unknown> | null,
+  ): Promise<Record<string, unknown> | null> {
+    const redacted = await this.#redactValue(metadata, ["metadata"]);
+
+    return redacted === DROP ? null : (redacted as typeof metadata);
+  }
+
+  async #redactValue(value: unknown, path: string[]): Promise<unknown> {
+    const rule = this.#rules.find(({ paths }) =>
+      paths.some(
+        candidate =>
+          candidate.length === path.length &&
+          candidate.every(
+            (segment, index) => segment === "*" || segment === path[index],
+          ),
+      ),
+    );
+
+    if (rule) return this.#apply(rule.action, value);
+
+    if (Array.isArray(value)) {
+      const items = await Promise.all(
+        value.map((item, index) =>
+          this.#redactValue(item, [...path, String(index)]),
+        ),
+      );
+
+      return items.filter(item => item !== DROP);
+    }
+
+    if (typeof value === "object" && value !== null) {
+      const entries = await Promise.all(
+        Object.entries(value).map(
+          async ([key, item]) =>
+            [key, await this.#redactValue(item, [...path, key])] as const,
+        ),
+      );
+
+      return Object.fromEntries(entries.filter(([, item]) => item !== DROP));
+    }
+
+    if (typeof value === "string") return this.#detect(value);
+
+    return value;
+  }
+
+  async #apply(action: RedactionAction, value: unknown): Promise<unknown> {
+    if (action === "drop") return DROP;
+
+    if (Array.isArray(value)) {
+      const items = await Promise.all(
+        value.map(item => this.#apply(action, item)),
+      );
+
+      return items.filter(item => item !== DROP);
+    }
+
+    if (typeof value === "object" && value !== null) {
+      const entries = await Promise.all(
+        Object.entries(value).map(
+          async ([key, item]) =>
+            [key, await this.#apply(action, item)] as const,
+        ),
+      );
+
+      return Object.fromEntries(entries.filter(([, item]) => item !== DROP));
+    }
+
+    if (value === null || value === undefined) return value;
+
+    return this.#replace(action, `${value as string | number | boolean}`);
+  }
+
+  async #detect(value: string): Promise<unknown> {
+    let result = value;
+
+    for (const { action, detectors } of this.#rules) {
+      for (const { pattern, check } of detectors) {
+        const matches = [...result.matchAll(pattern)].filter(
+          match => !check || check(match[0]),
+        );
+
+        if (matches.length === 0) continue;
+
+        if (action === "drop") return DROP;
+
+        const replacements = await Promise.all(
+          matches.map(([match]) => this.#replace(action, match)),
+        );
+
+        const texts = replacements.filter(
+          (replacement): replacement is string => replacement !== DROP,
+        );
+
+        if (texts.length < replacements.length) return DROP;
+
+        // Replace from the end so earlier match indices stay valid
+        for (let i = matches.length - 1; i >= 0; i--) {
+          const start = matches[i]!.index;
+
+          result =
+            result.slice(0, start) +
+            texts[i]! +
+            result.slice(start + matches[i]![0].length);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  async #replace(
+    action: "mask" | "hash",
+    value: string,
+  ): Promise<string | typeof DROP> {
+    if (action === "mask") return "*".repeat(value.length);
+
+    try {
+      return await this.#sha256(value);
+    } catch (err) {
+      this.#logger.error("Failed to hash value, dropping field", err);
+
+      return DROP;
+    }
+  }
+}
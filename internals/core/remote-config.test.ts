@@ -0,0 +1,322 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+  type Mock,
+} from "vitest";
+import type { HttpGetContext } from "./adapters/http-adapter.ts";
+import type { StorageAdapter } from "./adapters/storage-adapter.ts";
+import { NoOpLogger } from "./logger.ts";
+import {
+  assertRemoteConfigOptions,
+  parseRemoteConfig,
+  RemoteConfigLoader,
+  type RemoteConfigOptions,
+} from "./remote-config.ts";
+import type { HttpResponse } from "./types.ts";
+
+const URL = "https://config.test.com/ripple.json";
+
+const createStorage = (cached: string | null = null): StorageAdapter => ({
+  init: vi.fn().mockResolvedValue(undefined),
+  save: vi.fn().mockResolvedValue(undefined),
+  load: vi.fn().mockResolvedValue([]),
+  clear: vi.fn().mockResolvedValue(undefined),
+  close: vi.fn().mockResolvedValue(undefined),
+  saveItem: vi.fn().mockResolvedValue(undefined),
+  loadItem: vi.fn().mockResolvedValue(cached),
+});
+
+const respond = (data: unknown, status = 200): HttpResponse => ({
+  status,
+  data,
+});
+
+describe("assertRemoteConfigOptions", () => {
+  it("should accept well-formed options", () => {
+    expect(() =>
+      assertRemoteConfigOptions({ url: URL, refreshInterval: 1000 }),
+    ).not.toThrow();
+    expect(() => assertRemoteConfigOptions({ url: URL })).not.toThrow();
+  });
+
+  it.each<[RemoteConfigOptions, string]>([
+    [{ url: "" }, "`remoteConfig.url` must be a non-empty string."],
+    [
+      { url: URL, refreshInterval: 0 },
+      "`remoteConfig.refreshInterval` must be a positive number.",
+    ],
+    [
+      { url: URL, refreshInterval: "1" as unknown as number },
+      "`remoteConfig.refreshInterval` must be a positive number.",
+    ],
+  ])("should reject %j", (options, message) => {
+    expect(() => assertRemoteConfigOptions(options)).toThrow(message);
+  });
+});
+
+describe("parseRemoteConfig", () => {
+  it("should keep known fields and ignore unknown ones", () => {
+    expect(
+      parseRemoteConfig({
+        batchOptions: { size: 5, interval: 1000, extra: 1 },
+        retryOptions: { maxAttempts: 0, minDelay: 10 },
+        sampling: { rate: 0.5 },
+        blockedEvents: ["clicked"],
+        disabled: false,
+        unknown: true,
+      }),
+    ).toEqual({
+      batchOptions: { size: 5, interval: 1000 },
+      retryOptions: { maxAttempts: 0, minDelay: 10 },
+      sampling: { rate: 0.5 },
+      blockedEvents: ["clicked"],
+      disabled: false,
+    });
+  });
+
+  it("should accept an empty document", () => {
+    expect(parseRemoteConfig({})).toEqual({});
+  });
+
+  it.each<[unknown, string]>([
+    [null, "Remote config must be an object."],
+    [[], "Remote config must be an object."],
+    [{ batchOptions: 1 }, "`batchOptions` must be an object."],
+    [
+      { batchOptions: { size: 0 } },
+      "`batchOptions.size` must be a positive number.",
+    ],
+    [
+      { retryOptions: { maxAttempts: -1 } },
+      "`retryOptions.maxAttempts` must be a non-negative number.",
+    ],
+    [
+      { retryOptions: { minDelay: "1" } },
+      "`retryOptions.minDelay` must be a positive number.",
+    ],
+    [{ sampling: [] }, "`sampling` must be an object."],
+    [{ sampling: { rate: 2 } }, "`sampling.rate` must be a number between"],
+    [{ blockedEvents: "clicked" }, "`blockedEvents` must be an array"],
+    [{ blockedEvents: [1] }, "`blockedEvents` must be an array"],
+    [{ disabled: "yes" }, "`disabled` must be a boolean."],
+  ])("should reject %j", (value, message) => {
+    expect(() => parseRemoteConfig(value)).toThrow(message);
+  });
+});
+
+describe("RemoteConfigLoader", () => {
+  let get: Mock<(context: HttpGetContext) => Promise<HttpResponse>>;
+
+  beforeEach(() => {
+    get = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createLoader = (
+    storage: StorageAdapter,
+    options: Partial<RemoteConfigOptions> = {},
+  ) => {
+    const logger = new NoOpLogger();
+    const apply = vi.fn();
+    const loader = new RemoteConfigLoader(
+      { url: URL, ...options },
+      { "X-API-Key": "key" },
+      { get },
+      storage,
+      logger,
+      apply,
+    );
+
+    return { loader, logger, apply };
+  };
+
+  it("should apply the cached config, then the fetched one", async () => {
+    get
+      .mockReturnValueOnce(new Promise(() => {}))
+      .mockResolvedValue(respond({ disabled: true }));
+
+    const storage = createStorage(JSON.stringify({ blockedEvents: ["a"] }));
+    const { loader, apply } = createLoader(storage);
+
+    await loader.start();
+
+    expect(apply).toHaveBeenCalledExactlyOnceWith(
+      { blockedEvents: ["a"] },
+      "cache",
+    );
+
+    await loader.refresh();
+
+    expect(get).toHaveBeenCalledWith({
+      url: URL,
+      headers: { "X-API-Key": "key" },
+    });
+    expect(apply).toHaveBeenLastCalledWith({ disabled: true }, "remote");
+    expect(storage.saveItem).toHaveBeenCalledWith(
+      "remote_config",
+      JSON.stringify({ disabled: true }),
+    );
+
+    loader.dispose();
+  });
+
+  it("should fetch without a cache when the storage has no item support", async () => {
+    get.mockImplementation(() => Promise.resolve(respond({})));
+
+    const { saveItem: _, loadItem: __, ...storage } = createStorage();
+    const { loader, apply } = createLoader(storage);
+
+    await loader.refresh();
+
+    expect(apply).toHaveBeenCalledExactlyOnceWith({}, "remote");
+  });
+
+  it("should keep the current config on failed requests", async () => {
+    get.mockImplementation(() => Promise.resolve(respond({}, 503)));
+
+    const storage = createStorage();
+    const { loader, logger, apply } = createLoader(storage);
+    const warnSpy = vi.spyOn(logger, "warn");
+
+    await loader.refresh();
+
+    expect(apply).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith("Failed to fetch remote config", {
+      status: 503,
+    });
+  });
+
+  it("should keep the current config on network errors", async () => {
+    const error = new Error("offline");
+
+    get.mockRejectedValue(error);
+
+    const { loader, logger, apply } = createLoader(createStorage());
+    const warnSpy = vi.spyOn(logger, "warn");
+
+    await loader.refresh();
+
+    expect(apply).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      "Failed to fetch remote config",
+      error,
+    );
+  });
+
+  it("should neither apply nor cache invalid documents", async () => {
+    get.mockImplementation(() => Promise.resolve(respond({ disabled: "yes" })));
+
+    const storage = createStorage();
+    const { loader, logger, apply } = createLoader(storage);
+    const warnSpy = vi.spyOn(logger, "warn");
+
+    await loader.refresh();
+
+    expect(apply).not.toHaveBeenCalled();
+    expect(storage.saveItem).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      "Ignoring invalid remote config",
+      expect.any(Error),
+    );
+  });
+
+  it("should not cache configs rejected when applied", async () => {
+    get.mockImplementation(() => Promise.resolve(respond({})));
+
+    const storage = createStorage();
+    const { loader, apply } = createLoader(storage);
+
+    apply.mockImplementation(() => {
+      throw new Error("rejected");
+    });
+
+    await loader.refresh();
+
+    expect(storage.saveItem).not.toHaveBeenCalled();
+  });
+
+  it("should ignore a corrupted cache", async () => {
+    get.mockReturnValue(new Promise(() => {}));
+
+    const { loader, logger, apply } = createLoader(createStorage("{"));
+    const warnSpy = vi.spyOn(logger, "warn");
+
+    await loader.start();
+
+    expect(apply).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith(
+      "Failed to load cached remote config",
+      expect.any(SyntaxError),
+    );
+
+    loader.dispose();
+  });
+
+  it("should refresh periodically until disposed", async () => {
+    vi.useFakeTimers();
+    get.mockImplementation(() => Promise.resolve(respond({})));
+
+    const { loader } = createLoader(createStorage(), {
+      refreshInterval: 1000,
+    });
+
+    await loader.start();
+    await loader.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(get).toHaveBeenCalledOnce();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(get).toHaveBeenCalledTimes(2);
+
+    await loader.refresh();
+    await vi.advanceTimersByTimeAsync(999);
+
+    expect(get).toHaveBeenCalledTimes(3);
+
+    loader.dispose();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it("should default to refreshing every 5 minutes", async () => {
+    vi.useFakeTimers();
+    get.mockImplementation(() => Promise.resolve(respond({})));
+
+    const { loader } = createLoader(createStorage());
+
+    await loader.start();
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000 - 1);
+
+    expect(get).toHaveBeenCalledOnce();
+
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(get).toHaveBeenCalledTimes(2);
+
+    loader.dispose();
+  });
+
+  it("should not schedule refreshes before being started", async () => {
+    vi.useFakeTimers();
+    get.mockImplementation(() => Promise.resolve(respond({})));
+
+    const { loader } = createLoader(createStorage(), {
+      refreshInterval: 1000,
+    });
+
+    await loader.refresh();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(get).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,322 @@
+import type { HttpAdapter } from "./adapters/http-adapter.ts";
+import type { LoggerAdapter } from "./adapters/logger-adapter.ts";
+import type { StorageAdapter } from "./adapters/storage-adapter.ts";
+import type { BatchOptions, RetryOptions } from "./dispatcher.ts";
+import { assertSamplingOptions, type SamplingOptions } from "./sampling.ts";
+
+/**
+ * Options of the remote configuration subsystem.
+ */
+export type RemoteConfigOptions = {
+  /**
+   * URL of the JSON configuration document, fetched with the API key header
+   * through the `get()` method of the HTTP adapter.
+   */
+  url: string;
+  /**
+   * Interval in milliseconds between refreshes (default: `300000`, 5 minutes).
+   */
+  refreshInterval?: number;
+};
+
+/**
+ * Subset of the client configuration that can be changed remotely.
+ * Omitted fields fall back to the local configuration.
+ */
+export type RemoteConfig = {
+  /**
+   * Batching options, merged over the local ones.
+   */
+  batchOptions?: BatchOptions;
+  /**
+   * Retry options, merged over the local ones.
+   */
+  retryOptions?: RetryOptions;
+  /**
+   * Sampling policies, replacing the local `sampling` option.
+   */
+  sampling?: SamplingOptions;
+  /**
+   * Event names dropped with the `"blocked"` reason.
+   */
+  blockedEvents?: string[];
+  /**
+   * Kill switch: when `true`, every event is dropped with the `"blocked"` reason.
+   */
+  disabled?: boolean;
+};
+
+/**
+ * Where an applied remote configuration came from.
+ */
+export type RemoteConfigSource = "remote" | "cache";
+
+/**
+ * Storage item key of the cached remote configuration.
+ */
+const CACHE_KEY = "remote_config";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Pick the numeric fields of a remote options object.
+ *
+ * @param field The remote config field, used in error messages
+ * @param value The options to check
+ * @param keys The allowed keys and whether zero is allowed
+ * @returns The options restricted to the allowed keys
+ * @throws {Error} When the options or one of the values is malformed
+ */
+const pickNumbers = <T extends Record<string, number | undefined>>(
+  field: string,
+  value: unknown,
+  keys: Record<keyof T & string, "positive" | "non-negative">,
+): T => {
+  if (!isRecord(value)) throw new Error(`\`${field}\` must be an object.`);
+
+  const result: Record<string, number> = {};
+
+  for (const [key, kind] of Object.entries(keys)) {
+    const option = value[key];
+
+    if (option === undefined) continue;
+
+    if (
+      typeof option !== "number" ||
+      !(kind === "positive" ? option > 0 : option >= 0)
+    ) {
+      throw new Error(`\`${field}.${key}\` must be a ${kind} number.`);
+    }
+
+    result[key] = option;
+  }
+
+  return result as T;
+};
+
+/**
+ * Validate a remote configuration document. Unknown fields are ignored.
+ *
+ * @param value The parsed JSON document
+ * @returns The validated configuration
+ * @throws {Error} When a known field is malformed
+ */
+export const parseRemoteConfig = (value: unknown): RemoteConfig => {
+  if (!isRecord(value)) throw new Error("Remote config must be an object.");
+
+  const config: RemoteConfig = {};
+
+  if (value["batchOptions"] !== undefined) {
+    config.batchOptions = pickNumbers<BatchOptions>(
+      "batchOptions",
+      value["batchOptions"],
+      { interval: "positive", size: "positive", maxPayloadSize: "positive" },
+    );
+  }
+
+  if (value["retryOptions"] !== undefined) {
+    config.retryOptions = pickNumbers<RetryOptions>(
+      "retryOptions",
+      value["retryOptions"],
+      {
+        maxAttempts: "non-negative",
+        minDelay: "positive",
+        maxDelay: "positive",
+        backoffFactor: "positive",
+      },
+    );
+  }
+
+  if (value["sampling"] !== undefined) {
+    if (!isRecord(value["sampling"])) {
+      throw new Error("`sampling` must be an object.");
+    }
+
+    assertSamplingOptions(value["sampling"]);
+    config.sampling = value["sampling"];
+  }
+
+  if (value["blockedEvents"] !== undefined) {
+    const blocked = value["blockedEvents"];
+
+    if (
+      !Array.isArray(blocked) ||
+      !blocked.every(name => typeof name === "string")
+    ) {
+      throw new Error("`blockedEvents` must be an array of event names.");
+    }
+
+    config.blockedEvents = blocked;
+  }
+
+  if (value["disabled"] !== undefined) {
+    if (typeof value["disabled"] !== "boolean") {
+      throw new Error("`disabled` must be a boolean.");
+    }
+
+    config.disabled = value["disabled"];
+  }
+
+  return config;
+};
+
+/**
+ * Check that remote config options are well-formed.
+ *
+ * @param options The options to check
+ * @throws {Error} When an option is malformed
+ */
+export const assertRemoteConfigOptions = (
+  options: RemoteConfigOptions,
+): void => {
+  if (typeof options?.url !== "string" || !options.url) {
+    throw new Error("`remoteConfig.url` must be a non-empty string.");
+  }
+
+  if (
+    options.refreshInterval !== undefined &&
+    (typeof options.refreshInterval !== "number" ||
+      !(options.refreshInterval > 0))
+  ) {
+    throw new Error(
+      "`remoteConfig.refreshInterval` must be a positive number.",
+    );
+  }
+};
+
+/**
+ * Fetches the remote configuration on start and periodically after that,
+ * caching the last valid document in the storage adapter.
+ */
+export class RemoteConfigLoader {
+  readonly #url: string;
+  readonly #refreshInterval: number;
+  readonly #headers: Record<string, string>;
+  readonly #http: Required<Pick<HttpAdapter, "get">>;
+  readonly #storage: StorageAdapter;
+  readonly #logger: LoggerAdapter;
+  readonly #apply: (config: RemoteConfig, source: RemoteConfigSource) => void;
+
+  #timer: ReturnType<typeof setTimeout> | null = null;
+  #started = false;
+
+  /**
+   * Create a new RemoteConfigLoader instance.
+   *
+   * @param options The remote config options
+   * @param headers Headers sent with each request (e.g., the API key)
+   * @param http HTTP adapter fetching the document
+   * @param storage Storage adapter caching the document, if it supports items
+   * @param logger Logger reporting fetch and validation failures
+   * @param apply Applies a validated configuration. Throwing rejects it.
+   */
+  constructor(
+    options: RemoteConfigOptions,
+    headers: Record<string, string>,
+    http: Required<Pick<HttpAdapter, "get">>,
+    storage: StorageAdapter,
+    logger: LoggerAdapter,
+    apply: (config: RemoteConfig, source: RemoteConfigSource) => void,
+  ) {
+    this.#url = options.url;
+    this.#refreshInterval = options.refreshInterval ?? 5 * 60 * 1000;
+    this.#headers = headers;
+    this.#http = http;
+    this.#storage = storage;
+    this.#logger = logger;
+    this.#apply = apply;
+  }
+
+  /**
+   * Apply the cached document, then fetch a fresh one in the background and
+   * schedule periodic refreshes.
+   */
+  public async start(): Promise<void> {
+    if (this.#started) return;
+
+    this.#started = true;
+
+    await this.#loadCached();
+
+    void this.refresh();
+  }
+
+  /**
+   * Fetch the document now and apply it if valid.
+   * Failures are logged and leave the current configuration in place.
+   */
+  public async refresh(): Promise<void> {
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+      this.#timer = null;
+    }
+
+    try {
+      const response = await this.#http.get({
+        url: this.#url,
+        headers: this.#headers,
+      });
+
+      if (response.status < 200 || response.status >= 300) {
+        this.#logger.warn("Failed to fetch remote config", {
+          status: response.status,
+        });
+
+        return;
+      }
+
+      if (this.#tryApply(response.data, "remote")) {
+        await this.#storage.saveItem?.(
+          CACHE_KEY,
+          JSON.stringify(response.data),
+        );
+      }
+    } catch (err) {
+      this.#logger.warn("Failed to fetch remote config", err);
+    } finally {
+      this.#schedule();
+    }
+  }
+
+  /**
+   * Stop refreshing.
+   */
+  public dispose(): void {
+    if (this.#timer) clearTimeout(this.#timer);
+
+    this.#timer = null;
+    this.#started = false;
+  }
+
+  async #loadCached(): Promise<void> {
+    try {
+      const cached = await this.#storage.loadItem?.(CACHE_KEY);
+
+      if (cached) this.#tryApply(JSON.parse(cached) as unknown, "cache");
+    } catch (err) {
+      this.#logger.warn("Failed to load cached remote config", err);
+    }
+  }
+
+  #tryApply(raw: unknown, source: RemoteConfigSource): boolean {
+    try {
+      this.#apply(parseRemoteConfig(raw), source);
+
+      return true;
+    } catch (err) {
+      this.#logger.warn("Ignoring invalid remote config", err);
+
+      return false;
+    }
+  }
+
+  #schedule(): void {
+    if (!this.#started || this.#timer) return;
+
+    this.#timer = setTimeout(() => {
+      this.#timer = null;
+      void this.refresh();
+    }, this.#refreshInterval);
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { PREDEFINED_PAYLOAD_SCHEMAS } from "./payload-schemas.ts";
+import {
+  assertSamplingOptions,
+  EVENT_CATEGORIES,
+  SamplingPolicy,
+  type SamplingOptions,
+} from "./sampling.ts";
+import type { Event } from "./types.ts";
+
+const createEvent = (anonymousId: string, userId: string | null): Event => ({
+  name: "test_event",
+  payload: null,
+  metadata: null,
+  platform: null,
+  sdk: { name: "test-sdk", version: "1.0.0" },
+  issuedAt: 1000,
+  anonymousId,
+  eventId: "event-1",
+  schemaVersion: null,
+  userId,
+  groupId: null,
+  sessionId: null,
+  sessionSequence: null,
+});
+
+const ids = Array.from({ length: 2000 }, (_, i) => `anon-${i}`);
+
+describe("EVENT_CATEGORIES", () => {
+  it("should only list predefined events, each in a single category", () => {
+    const names = Object.values(EVENT_CATEGORIES).flat();
+
+    expect(new Set(names).size).toBe(names.length);
+
+    for (const name of names) {
+      expect(PREDEFINED_PAYLOAD_SCHEMAS).toHaveProperty(name);
+    }
+  });
+});
+
+describe("assertSamplingOptions", () => {
+  it("should accept well-formed options", () => {
+    expect(() =>
+      assertSamplingOptions({
+        rate: 0.5,
+        events: { clicked: 0 },
+        categories: { cart: 1 },
+        hashOn: "userId",
+      }),
+    ).not.toThrow();
+  });
+
+  it.each<[SamplingOptions, string]>([
+    [{ rate: 1.5 }, "`sampling.rate` must be a number between 0 and 1."],
+    [
+      { events: { clicked: -1 } },
+      "`sampling.events.clicked` must be a number between 0 and 1.",
+    ],
+    [
+      { categories: { cart: Number.NaN } },
+      "`sampling.categories.cart` must be a number between 0 and 1.",
+    ],
+    [
+      { categories: { toString: 1 } as SamplingOptions["categories"] },
+      "`sampling.categories.toString` is not a category.",
+    ],
+    [
+      { hashOn: "eventId" as "userId" },
+      '`sampling.hashOn` must be one of "anonymousId" or "userId".',
+    ],
+  ])("should reject %j", (options, message) => {
+    expect(() => assertSamplingOptions(options)).toThrow(message);
+  });
+});
+
+describe("SamplingPolicy", () => {
+  describe("getRate", () => {
+    it("should prefer event rates over category rates over the default", () => {
+      const policy = new SamplingPolicy({
+        rate: 0.5,
+        categories: { cart: 0.2 },
+        events: { cart_viewed: 0.1 },
+      });
+
+      expect(policy.getRate("cart_viewed")).toBe(0.1);
+      expect(policy.getRate("cart_emptied")).toBe(0.2);
+      expect(policy.getRate("clicked")).toBe(0.5);
+    });
+
+    it("should default to keeping every event", () => {
+      expect(new SamplingPolicy({}).getRate("clicked")).toBe(1);
+    });
+
+    it("should ignore inherited object keys as event names", () => {
+      expect(new SamplingPolicy({ rate: 0.3 }).getRate("toString")).toBe(0.3);
+    });
+  });
+
+  describe("keeps", () => {
+    it("should keep or drop all events of an identity consistently", () => {
+      const policy = new SamplingPolicy({});
+
+      for (const id of ids.slice(0, 50)) {
+        const event = createEvent(id, null);
+        const kept = policy.keeps(event, 0.5);
+
+        expect(policy.keeps({ ...event, name: "other" }, 0.5)).toBe(kept);
+      }
+    });
+
+    it("should keep roughly the configured share of identities", () => {
+      const policy = new SamplingPolicy({});
+      const kept = ids.filter(id => policy.keeps(createEvent(id, null), 0.25));
+
+      expect(kept.length / ids.length).toBeGreaterThan(0.2);
+      expect(kept.length / ids.length).toBeLessThan(0.3);
+    });
+
+    it("should keep a superset of identities at higher rates", () => {
+      const policy = new SamplingPolicy({});
+
+      const kept = ids.filter(id => policy.keeps(createEvent(id, null), 0.1));
+
+      expect(kept.length).toBeGreaterThan(0);
+      expect(kept.every(id => policy.keeps(createEvent(id, null), 0.5))).toBe(
+        true,
+      );
+    });
+
+    it("should keep everything at 1 and nothing at 0", () => {
+      const policy = new SamplingPolicy({});
+
+      for (const id of ids.slice(0, 100)) {
+        expect(policy.keeps(createEvent(id, null), 1)).toBe(true);
+        expect(policy.keeps(createEvent(id, null), 0)).toBe(false);
+      }
+    });
+
+    it("should hash on the user ID when configured", () => {
+      const policy = new SamplingPolicy({ hashOn: "userId" });
+      const decisions = new Set(
+        ids
+          .slice(0, 50)
+          .map(id => policy.keeps(createEvent(id, "user-1"), 0.5)),
+      );
+
+      expect(decisions.size).toBe(1);
+    });
+
+    it("should fall back to the anonymous ID without a user ID", () => {
+      const byUser = new SamplingPolicy({ hashOn: "userId" });
+      const byAnonymous = new SamplingPolicy({});
+
+      for (const id of ids.slice(0, 50)) {
+        expect(byUser.keeps(createEvent(id, null), 0.5)).toBe(
+          byAnonymous.keeps(createEvent(id, null), 0.5),
+        );
+      }
+    });
+  });
+});
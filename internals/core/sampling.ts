@@ -0,0 +1,210 @@
+import type { PredefinedEvents } from "./event-specs.ts";
+import type { Event } from "./types.ts";
+import { hashString } from "./utils.ts";
+
+/**
+ * Categories of the predefined events exposed by `client.events`.
+ */
+export type EventCategory =
+  | "appState"
+  | "session"
+  | "productDiscovery"
+  | "wishlist"
+  | "cart"
+  | "checkout"
+  | "orders"
+  | "coupons"
+  | "promotions"
+  | "payments"
+  | "referral"
+  | "incentives"
+  | "challenges";
+
+/**
+ * Built-in sampling policies.
+ * Rates range from `0` (drop all) to `1` (keep all). The most specific rate
+ * applies: per event name, then per category, then the default rate.
+ */
+export type SamplingOptions = {
+  /**
+   * Default rate for events without a more specific rate (default: `1`).
+   */
+  rate?: number;
+  /**
+   * Rates per event name.
+   */
+  events?: Record<string, number>;
+  /**
+   * Rates per predefined event category.
+   */
+  categories?: Partial<Record<EventCategory, number>>;
+  /**
+   * Identity hashed to decide whether an event is kept (default: `"anonymousId"`).
+   * With `"userId"`, events without a user ID fall back to the anonymous ID.
+   * A given identity is either kept or dropped for every event with the same rate.
+   */
+  hashOn?: "anonymousId" | "userId";
+};
+
+/**
+ * Predefined event names of each category.
+ */
+export const EVENT_CATEGORIES: Readonly<
+  Record<EventCategory, readonly (keyof PredefinedEvents)[]>
+> = {
+  appState: ["app_state_changed"],
+  session: ["session_started", "session_ended"],
+  productDiscovery: [
+    "product_clicked",
+    "product_viewed",
+    "product_shared",
+    "products_searched",
+    "product_list_viewed",
+    "product_list_filtered",
+    "product_reviewed",
+  ],
+  wishlist: ["product_added_to_wishlist", "product_removed_from_wishlist"],
+  cart: [
+    "product_added_to_cart",
+    "product_removed_from_cart",
+    "cart_viewed",
+    "cart_emptied",
+  ],
+  checkout: [
+    "checkout_started",
+    "checkout_step_viewed",
+    "checkout_step_completed",
+  ],
+  orders: [
+    "order_completed",
+    "order_failed",
+    "order_cancelled",
+    "order_shipped",
+    "order_refunded",
+    "order_updated",
+    "order_product_fulfilled",
+    "order_product_returned",
+    "order_fulfillment_status_updated",
+    "order_reviewed",
+  ],
+  coupons: ["coupon_entered", "coupon_removed", "coupon_denied"],
+  promotions: ["promotion_viewed", "promotion_clicked"],
+  payments: [
+    "payment_authorized",
+    "payment_captured",
+    "payment_failed",
+    "payment_refunded",
+  ],
+  referral: ["referral_shared", "referral_applied"],
+  incentives: [
+    "incentive_granted",
+    "incentive_redeemed",
+    "incentive_claimed",
+    "incentive_expired",
+  ],
+  challenges: [
+    "challenge_started",
+    "challenge_completed",
+    "challenge_step_completed",
+  ],
+};
+
+const isRate = (value: unknown): boolean =>
+  typeof value === "number" && value >= 0 && value <= 1;
+
+/**
+ * Check that sampling options are well-formed.
+ *
+ * @param options The options to check
+ * @throws {Error} When an option is malformed
+ */
+export const assertSamplingOptions = (options: SamplingOptions): void => {
+  if (options.rate !== undefined && !isRate(options.rate)) {
+    throw new Error("`sampling.rate` must be a number between 0 and 1.");
+  }
+
+  for (const [name, rate] of Object.entries(options.events ?? {})) {
+    if (!isRate(rate)) {
+      throw new Error(
+        `\`sampling.events.${name}\` must be a number between 0 and 1.`,
+      );
+    }
+  }
+
+  for (const [category, rate] of Object.entries(options.categories ?? {})) {
+    if (!Object.prototype.hasOwnProperty.call(EVENT_CATEGORIES, category)) {
+      throw new Error(`\`sampling.categories.${category}\` is not a category.`);
+    }
+
+    if (!isRate(rate)) {
+      throw new Error(
+        `\`sampling.categories.${category}\` must be a number between 0 and 1.`,
+      );
+    }
+  }
+
+  if (
+    options.hashOn !== undefined &&
+    !["anonymousId", "userId"].includes(options.hashOn)
+  ) {
+    throw new Error(
+      '`sampling.hashOn` must be one of "anonymousId" or "userId".',
+    );
+  }
+};
+
+/**
+ * Decides which events are kept according to the sampling options.
+ * Decisions are deterministic: they depend on the hashed identity only.
+ */
+export class SamplingPolicy {
+  readonly #rates = new Map<string, number>();
+  readonly #defaultRate: number;
+  readonly #hashOn: "anonymousId" | "userId";
+
+  /**
+   * Create a new SamplingPolicy instance.
+   *
+   * @param options The sampling options
+   */
+  constructor(options: SamplingOptions) {
+    this.#defaultRate = options.rate ?? 1;
+    this.#hashOn = options.hashOn ?? "anonymousId";
+
+    for (const [category, rate] of Object.entries(options.categories ?? {})) {
+      for (const name of EVENT_CATEGORIES[category as EventCategory]) {
+        this.#rates.set(name, rate);
+      }
+    }
+
+    for (const [name, rate] of Object.entries(options.events ?? {})) {
+      this.#rates.set(name, rate);
+    }
+  }
+
+  /**
+   * Get the sampling rate of an event name.
+   *
+   * @param name The event name
+   * @returns The rate, from `0` to `1`
+   */
+  public getRate(name: string): number {
+    return this.#rates.get(name) ?? this.#defaultRate;
+  }
+
+  /**
+   * Decide whether an event is kept.
+   *
+   * @param event The event, carrying the identity to hash
+   * @param rate The sampling rate of the event
+   * @returns Whether the event is kept
+   */
+  public keeps(event: Event, rate: number): boolean {
+    const identity =
+      this.#hashOn === "userId"
+        ? (event.userId ?? event.anonymousId)
+        : event.anonymousId;
+
+    return hashString(identity) / 2 ** 32 < rate;
+  }
+}
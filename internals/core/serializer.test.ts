@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertEncoding,
+  compactSerializer,
+  jsonSerializer,
+  ndjsonSerializer,
+  resolveSerializer,
+  type BatchEnvelope,
+  type Serializer,
+  type WireEncoding,
+} from "./serializer.ts";
+import type { Event } from "./types.ts";
+
+const createEvent = (eventId: string, overrides?: Partial<Event>): Event => ({
+  name: "clicked",
+  payload: { elementId: eventId },
+  metadata: { appVersion: "1.0" },
+  issuedAt: 1000,
+  eventId,
+  anonymousId: "anon-1",
+  userId: "user-1",
+  groupId: null,
+  sessionId: null,
+  sessionSequence: null,
+  schemaVersion: null,
+  sdk: { name: "test", version: "1.0" },
+  platform: null,
+  ...overrides,
+});
+
+const envelope: BatchEnvelope = {
+  batchId: "batch-1",
+  sentAt: 5000,
+  attempt: 1,
+};
+
+describe("jsonSerializer", () => {
+  it("should encode the envelope and the events as a JSON object", () => {
+    const events = [createEvent("a")];
+
+    expect(jsonSerializer.contentType).toBe("application/json");
+    expect(JSON.parse(jsonSerializer.serialize(events, envelope))).toEqual({
+      events,
+      ...envelope,
+    });
+  });
+});
+
+describe("ndjsonSerializer", () => {
+  it("should encode an envelope line and one line per event", () => {
+    const events = [createEvent("a"), createEvent("b")];
+    const lines = ndjsonSerializer.serialize(events, envelope).split("\n");
+
+    expect(ndjsonSerializer.contentType).toBe("application/x-ndjson");
+    expect(lines.map(line => JSON.parse(line) as unknown)).toEqual([
+      envelope,
+      ...events,
+    ]);
+  });
+});
+
+describe("compactSerializer", () => {
+  it("should hoist the fields shared by every event", () => {
+    const events = [
+      createEvent("a"),
+      createEvent("b", { name: "viewed", issuedAt: 2000 }),
+    ];
+
+    expect(compactSerializer.contentType).toBe(
+      "application/vnd.ripple.compact+json",
+    );
+    expect(JSON.parse(compactSerializer.serialize(events, envelope))).toEqual({
+      ...envelope,
+      context: {
+        metadata: { appVersion: "1.0" },
+        anonymousId: "anon-1",
+        userId: "user-1",
+        groupId: null,
+        sessionId: null,
+        sessionSequence: null,
+        schemaVersion: null,
+        sdk: { name: "test", version: "1.0" },
+        platform: null,
+      },
+      events: [
+        {
+          name: "clicked",
+          payload: { elementId: "a" },
+          issuedAt: 1000,
+          eventId: "a",
+        },
+        {
+          name: "viewed",
+          payload: { elementId: "b" },
+          issuedAt: 2000,
+          eventId: "b",
+        },
+      ],
+    });
+  });
+
+  it("should not hoist fields missing from some events", () => {
+    const events = [
+      createEvent("a", { priority: "high" }),
+      createEvent("b"),
+      createEvent("c", { priority: "high" }),
+    ];
+
+    const { context } = JSON.parse(
+      compactSerializer.serialize(events, envelope),
+    ) as { context: Record<string, unknown> };
+
+    expect(context).not.toHaveProperty("priority");
+  });
+
+  it("should not hoist anything from a single event", () => {
+    const events = [createEvent("a")];
+
+    expect(JSON.parse(compactSerializer.serialize(events, envelope))).toEqual({
+      ...envelope,
+      context: {},
+      events,
+    });
+  });
+
+  it("should encode an empty batch", () => {
+    expect(JSON.parse(compactSerializer.serialize([], envelope))).toEqual({
+      ...envelope,
+      context: {},
+      events: [],
+    });
+  });
+});
+
+describe("assertEncoding", () => {
+  const custom: Serializer = {
+    contentType: "text/plain",
+    serialize: events => events.map(event => event.name).join(","),
+  };
+
+  it("should accept encoding names and serializers", () => {
+    for (const encoding of ["json", "ndjson", "compact"] as const) {
+      expect(() => assertEncoding(encoding)).not.toThrow();
+    }
+
+    expect(() => assertEncoding(custom)).not.toThrow();
+  });
+
+  it.each<[unknown]>([["xml"], ["toString"], [null], [{ contentType: "x" }]])(
+    "should reject %j",
+    encoding => {
+      expect(() => assertEncoding(encoding as WireEncoding)).toThrow(
+        '`encoding` must be one of "json", "ndjson" or "compact", or a serializer.',
+      );
+    },
+  );
+
+  it("should resolve encoding names and serializers", () => {
+    expect(resolveSerializer("ndjson")).toBe(ndjsonSerializer);
+    expect(resolveSerializer(custom)).toBe(custom);
+  });
+});
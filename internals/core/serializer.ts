@@ -0,0 +1,149 @@
+import type { Event } from "./types.ts";
+
+/**
+ * Built-in wire encoding of event batches.
+ * - `"json"` — `{ batchId, sentAt, attempt, events }`
+ * - `"ndjson"` — a `{ batchId, sentAt, attempt }` line followed by one line
+ *   per event
+ * - `"compact"` — `{ batchId, sentAt, attempt, context, events }`, where
+ *   `context` holds the fields shared by every event of the batch, omitted
+ *   from the events
+ */
+export type WireEncoding = "json" | "ndjson" | "compact";
+
+/**
+ * Batch-level fields of the request body.
+ */
+export type BatchEnvelope = {
+  /**
+   * Id of the batch, the same across retries. Also sent as the
+   * `Idempotency-Key` header.
+   */
+  batchId: string;
+  /**
+   * UNIX timestamp in milliseconds when the batch is sent, by the device clock.
+   */
+  sentAt: number;
+  /**
+   * Retry attempt of the send, starting at `0`.
+   */
+  attempt: number;
+};
+
+/**
+ * Encodes event batches into request bodies.
+ */
+export type Serializer = {
+  /**
+   * `Content-Type` header advertising the encoding to the collector.
+   */
+  contentType: string;
+  /**
+   * Encode a batch.
+   *
+   * @param events The events of the batch
+   * @param envelope The batch-level fields
+   * @returns The request body
+   */
+  serialize: (events: Event[], envelope: BatchEnvelope) => string;
+};
+
+/**
+ * Serializer of the `"json"` encoding.
+ */
+export const jsonSerializer: Serializer = {
+  contentType: "application/json",
+  serialize: (events, envelope) => JSON.stringify({ ...envelope, events }),
+};
+
+/**
+ * Serializer of the `"ndjson"` encoding.
+ */
+export const ndjsonSerializer: Serializer = {
+  contentType: "application/x-ndjson",
+  serialize: (events, envelope) =>
+    [envelope, ...events].map(line => JSON.stringify(line)).join("\n"),
+};
+
+/**
+ * Serializer of the `"compact"` encoding. Fields are hoisted into `context`
+ * when every event of a batch of two or more has the same value for them.
+ */
+export const compactSerializer: Serializer = {
+  contentType: "application/vnd.ripple.compact+json",
+  serialize: (events, envelope) => {
+    const context: Record<string, unknown> = {};
+    const [first] = events;
+
+    if (first && events.length > 1) {
+      for (const [key, value] of Object.entries(first)) {
+        const serialized = JSON.stringify(value);
+
+        const shared = events.every(
+          event =>
+            key in event &&
+            JSON.stringify(event[key as keyof Event]) === serialized,
+        );
+
+        if (shared) context[key] = value;
+      }
+    }
+
+    return JSON.stringify({
+      ...envelope,
+      context,
+      events: events.map(event => {
+        const rest: Record<string, unknown> = { ...event };
+
+        for (const key of Object.keys(context)) delete rest[key];
+
+        return rest;
+      }),
+    });
+  },
+};
+
+const SERIALIZERS: Readonly<Record<WireEncoding, Serializer>> = {
+  json: jsonSerializer,
+  ndjson: ndjsonSerializer,
+  compact: compactSerializer,
+};
+
+/**
+ * Check that a wire encoding is a built-in encoding name or a serializer.
+ *
+ * @param encoding The encoding to check
+ * @throws {Error} When the encoding is neither
+ */
+export const assertEncoding = (encoding: WireEncoding | Serializer): void => {
+  if (
+    typeof encoding === "string" &&
+    Object.prototype.hasOwnProperty.call(SERIALIZERS, encoding)
+  ) {
+    return;
+  }
+
+  if (
+    typeof encoding === "object" &&
+    encoding !== null &&
+    typeof encoding.contentType === "string" &&
+    typeof encoding.serialize === "function"
+  ) {
+    return;
+  }
+
+  throw new Error(
+    '`encoding` must be one of "json", "ndjson" or "compact", or a serializer.',
+  );
+};
+
+/**
+ * Get the serializer of a wire encoding.
+ *
+ * @param encoding A built-in encoding name or a custom serializer
+ * @returns The serializer
+ */
+export const resolveSerializer = (
+  encoding: WireEncoding | Serializer,
+): Serializer =>
+  typeof encoding === "string" ? SERIALIZERS[encoding] : encoding;
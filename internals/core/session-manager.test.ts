@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertSessionOptions,
+  SessionManager,
+  type SessionOptions,
+} from "./session-manager.ts";
+
+const MINUTE = 60 * 1000;
+
+describe("assertSessionOptions", () => {
+  it("should accept well-formed options", () => {
+    expect(() =>
+      assertSessionOptions({
+        inactivityTimeout: MINUTE,
+        maxLength: 60 * MINUTE,
+      }),
+    ).not.toThrow();
+    expect(() => assertSessionOptions({})).not.toThrow();
+  });
+
+  it.each<[SessionOptions, string]>([
+    [
+      { inactivityTimeout: 0 },
+      "`sessionOptions.inactivityTimeout` must be a positive number.",
+    ],
+    [
+      { maxLength: Number.NaN },
+      "`sessionOptions.maxLength` must be a positive number.",
+    ],
+    [
+      { maxLength: "1" as unknown as number },
+      "`sessionOptions.maxLength` must be a positive number.",
+    ],
+  ])("should reject %j", (options, message) => {
+    expect(() => assertSessionOptions(options)).toThrow(message);
+  });
+});
+
+describe("SessionManager", () => {
+  it("should have no session until touched", () => {
+    const sessions = new SessionManager({});
+
+    expect(sessions.getSessionId()).toBeNull();
+    expect(sessions.serialize()).toBeNull();
+  });
+
+  it("should start a session on the first touch", () => {
+    const sessions = new SessionManager({});
+    const { ended, started } = sessions.touch(1000);
+
+    expect(ended).toBeNull();
+    expect(started).toEqual({
+      id: expect.any(String) as string,
+      startedAt: 1000,
+      lastActivityAt: 1000,
+      sequence: 0,
+    });
+    expect(sessions.getSessionId()).toBe(started!.id);
+  });
+
+  it("should stamp events with increasing sequence numbers", () => {
+    const sessions = new SessionManager({});
+    const { started } = sessions.touch(1000);
+
+    expect(sessions.next(1000)).toEqual({
+      sessionId: started!.id,
+      sessionSequence: 1,
+    });
+    expect(sessions.next(2000)).toEqual({
+      sessionId: started!.id,
+      sessionSequence: 2,
+    });
+    expect(sessions.serialize()).toMatchObject({
+      lastActivityAt: 2000,
+      sequence: 2,
+    });
+  });
+
+  it("should start a session when stamping without one", () => {
+    const sessions = new SessionManager({});
+
+    expect(sessions.next(1000)).toEqual({
+      sessionId: expect.any(String) as string,
+      sessionSequence: 1,
+    });
+  });
+
+  it("should keep the session while active", () => {
+    const sessions = new SessionManager({ inactivityTimeout: MINUTE });
+
+    sessions.touch(0);
+    sessions.next(0);
+
+    expect(sessions.touch(MINUTE - 1)).toEqual({ ended: null, started: null });
+  });
+
+  it("should end the session after the inactivity timeout", () => {
+    const sessions = new SessionManager({ inactivityTimeout: MINUTE });
+    const first = sessions.touch(0).started!;
+
+    sessions.next(0);
+    sessions.next(1000);
+
+    const { ended, started } = sessions.touch(1000 + MINUTE);
+
+    expect(ended).toEqual({ ...first, lastActivityAt: 1000, sequence: 2 });
+    expect(started).toMatchObject({ startedAt: 1000 + MINUTE, sequence: 0 });
+    expect(started!.id).not.toBe(first.id);
+  });
+
+  it("should end the session after the maximum length despite activity", () => {
+    const sessions = new SessionManager({
+      inactivityTimeout: MINUTE,
+      maxLength: 3 * MINUTE,
+    });
+
+    sessions.touch(0);
+
+    for (let now = 0; now < 3 * MINUTE; now += MINUTE / 2) {
+      expect(sessions.touch(now).ended).toBeNull();
+      sessions.next(now);
+    }
+
+    expect(sessions.touch(3 * MINUTE).ended).not.toBeNull();
+  });
+
+  it("should default to a 30 minute inactivity timeout", () => {
+    const sessions = new SessionManager({});
+
+    sessions.touch(0);
+
+    expect(sessions.touch(30 * MINUTE - 1).ended).toBeNull();
+    expect(sessions.touch(30 * MINUTE).ended).not.toBeNull();
+  });
+
+  it("should not move the last activity back in time", () => {
+    const sessions = new SessionManager({});
+
+    sessions.touch(2000);
+    sessions.next(1000);
+
+    expect(sessions.serialize()?.lastActivityAt).toBe(2000);
+  });
+
+  it("should restore a serialized session", () => {
+    const sessions = new SessionManager({});
+
+    sessions.touch(1000);
+    sessions.next(1000);
+
+    const restored = new SessionManager({});
+
+    restored.restore(sessions.serialize());
+
+    expect(restored.serialize()).toEqual(sessions.serialize());
+    expect(restored.next(2000).sessionSequence).toBe(2);
+  });
+
+  it("should not share state with snapshots", () => {
+    const sessions = new SessionManager({});
+    const snapshot = sessions.touch(1000).started!;
+
+    sessions.restore(snapshot);
+    snapshot.sequence = 10;
+
+    expect(sessions.serialize()?.sequence).toBe(0);
+  });
+
+  it("should forget the session on clear", () => {
+    const sessions = new SessionManager({});
+
+    sessions.touch(1000);
+    sessions.clear();
+
+    expect(sessions.getSessionId()).toBeNull();
+    expect(sessions.touch(2000).ended).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+import { IdGenerator } from "./utils.ts";
+
+/**
+ * Options of automatic session tracking.
+ */
+export type SessionOptions = {
+  /**
+   * Milliseconds without tracked events after which the session ends
+   * (default: `1800000`, 30 minutes).
+   */
+  inactivityTimeout?: number;
+  /**
+   * Maximum session length in milliseconds, regardless of activity
+   * (default: `86400000`, 24 hours).
+   */
+  maxLength?: number;
+};
+
+/**
+ * Serializable state of a session.
+ */
+export type SessionSnapshot = {
+  /**
+   * Unique session identifier.
+   */
+  id: string;
+  /**
+   * UNIX timestamp in milliseconds when the session started.
+   */
+  startedAt: number;
+  /**
+   * UNIX timestamp in milliseconds of the last event of the session.
+   */
+  lastActivityAt: number;
+  /**
+   * Number of events stamped with the session so far.
+   */
+  sequence: number;
+};
+
+/**
+ * Sessions ended and started by a call to `SessionManager.touch()`.
+ */
+export type SessionTransition = {
+  /**
+   * The session that expired, if any.
+   */
+  ended: SessionSnapshot | null;
+  /**
+   * The session that started, if any.
+   */
+  started: SessionSnapshot | null;
+};
+
+/**
+ * Session fields stamped on an event.
+ */
+export type SessionStamp = {
+  /**
+   * The session identifier.
+   */
+  sessionId: string;
+  /**
+   * 1-based position of the event in the session.
+   */
+  sessionSequence: number;
+};
+
+/**
+ * Check that session options are well-formed.
+ *
+ * @param options The options to check
+ * @throws {Error} When an option isn't a positive number
+ */
+export const assertSessionOptions = (options: SessionOptions): void => {
+  for (const field of ["inactivityTimeout", "maxLength"] as const) {
+    const value = options[field];
+
+    if (value !== undefined && (typeof value !== "number" || !(value > 0))) {
+      throw new Error(`\`sessionOptions.${field}\` must be a positive number.`);
+    }
+  }
+};
+
+/**
+ * Tracks the current session, ending it after a period of inactivity or
+ * once it exceeds the maximum length.
+ */
+export class SessionManager {
+  readonly #inactivityTimeout: number;
+  readonly #maxLength: number;
+
+  #current: SessionSnapshot | null = null;
+
+  /**
+   * Create a new SessionManager instance.
+   *
+   * @param options The session options
+   */
+  constructor(options: SessionOptions) {
+    this.#inactivityTimeout = options.inactivityTimeout ?? 30 * 60 * 1000;
+    this.#maxLength = options.maxLength ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Get the ID of the current session.
+   *
+   * @returns The session ID, or null if no session is active
+   */
+  public getSessionId(): string | null {
+    return this.#current?.id ?? null;
+  }
+
+  /**
+   * End the current session if it expired and start a new one if none is active.
+   *
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns The sessions ended and started
+   */
+  public touch(now: number = Date.now()): SessionTransition {
+    let ended: SessionSnapshot | null = null;
+
+    if (this.#current && this.#isExpired(this.#current, now)) {
+      ended = this.#current;
+      this.#current = null;
+    }
+
+    if (this.#current) return { ended, started: null };
+
+    this.#current = this.#start(now);
+
+    return { ended, started: { ...this.#current } };
+  }
+
+  /**
+   * Stamp an event with the current session, starting one if none is active.
+   * Advances the sequence and records the activity.
+   *
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns The session ID and the event's 1-based position in the session
+   */
+  public next(now: number = Date.now()): SessionStamp {
+    this.#current ??= this.#start(now);
+    this.#current.sequence += 1;
+    this.#current.lastActivityAt = Math.max(this.#current.lastActivityAt, now);
+
+    return {
+      sessionId: this.#current.id,
+      sessionSequence: this.#current.sequence,
+    };
+  }
+
+  /**
+   * Serialize the current session.
+   *
+   * @returns A snapshot of the session, or null if no session is active
+   */
+  public serialize(): SessionSnapshot | null {
+    return this.#current && { ...this.#current };
+  }
+
+  /**
+   * Replace the current session with a previously serialized snapshot.
+   *
+   * @param snapshot Snapshot created by `serialize()`
+   */
+  public restore(snapshot: SessionSnapshot | null): void {
+    this.#current = snapshot && { ...snapshot };
+  }
+
+  /**
+   * Forget the current session. The next event starts a new one.
+   */
+  public clear(): void {
+    this.#current = null;
+  }
+
+  #start(now: number): SessionSnapshot {
+    return {
+      id: IdGenerator.generate(),
+      startedAt: now,
+      lastActivityAt: now,
+      sequence: 0,
+    };
+  }
+
+  #isExpired(session: SessionSnapshot, now: number): boolean {
+    return (
+      now - session.lastActivityAt >= this.#inactivityTimeout ||
+      now - session.startedAt >= this.#maxLength
+    );
+  }
+}
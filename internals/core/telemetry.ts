@@ -1,4 +1,7 @@
+import type { CircuitState } from "./circuit-breaker.ts";
+import type { ConsentStatus } from "./consent-manager.ts";
 import { PREDEFINED_SCHEMA_VERSION } from "./event-specs.ts";
+import type { RemoteConfig, RemoteConfigSource } from "./remote-config.ts";
 import type { Event, Platform, SdkInfo } from "./types.ts";
 import { IdGenerator } from "./utils.ts";
 
@@ -38,7 +41,17 @@ export type RetryInfo = {
 /**
  * Reason an event was dropped.
  */
-export type DropReason = "expired" | "sampled" | "client_error";
+export type DropReason =
+  | "expired"
+  | "sampled"
+  | "client_error"
+  | "rejected"
+  | "middleware"
+  | "no_consent"
+  | "invalid"
+  | "duplicate"
+  | "rate_limited"
+  | "blocked";
 
 /**
  * Information provided to the onDrop hook.
@@ -46,6 +59,11 @@ export type DropReason = "expired" | "sampled" | "client_error";
 export type DropInfo = {
   eventCount: number;
   reason: DropReason;
+  /**
+   * Additional context for the drop (e.g., the reason named by a middleware
+   * or the server).
+   */
+  detail?: string;
 };
 
 /**
@@ -55,6 +73,22 @@ export type EnqueueInfo = {
   bufferSize: number;
 };
 
+/**
+ * Information provided to the onConfigChange hook.
+ */
+export type ConfigChangeInfo = {
+  config: RemoteConfig;
+  source: RemoteConfigSource;
+};
+
+/**
+ * Information provided to the onCircuitStateChange hook.
+ */
+export type CircuitStateChangeInfo = {
+  state: CircuitState;
+  previousState: CircuitState;
+};
+
 /**
  * Telemetry hooks for production monitoring.
  * All hooks are fire-and-forget (synchronous).
@@ -66,6 +100,8 @@ export type TelemetryHooks = {
   onRetry?: (info: RetryInfo) => void;
   onDrop?: (info: DropInfo) => void;
   onEnqueue?: (info: EnqueueInfo) => void;
+  onConfigChange?: (info: ConfigChangeInfo) => void;
+  onCircuitStateChange?: (info: CircuitStateChangeInfo) => void;
 };
 
 /**
@@ -89,16 +125,20 @@ type CustomTelemetryEventMap = {
   sdk_event_retry: RetryInfo;
   sdk_event_drop: DropInfo;
   sdk_event_enqueue: EnqueueInfo;
+  sdk_config_change: ConfigChangeInfo;
+  sdk_circuit_state_change: CircuitStateChangeInfo;
 };
 
 type ClientContext = {
   apiKey: string;
   apiKeyHeader: string;
   getUserId: () => string | null;
-  getMetadata: () => Record<string, unknown> | null;
+  getGroupId: () => string | null;
+  getMetadata: () => Promise<Record<string, unknown> | null>;
   getPlatform: () => Platform | null;
   getSdk: () => SdkInfo;
   getAnonymousId: () => string;
+  getConsentStatus: () => ConsentStatus;
 };
 
 /**
@@ -123,39 +163,46 @@ export const createTelemetryHooks = (
     getSdk,
     getMetadata,
     getUserId,
+    getGroupId,
+    getConsentStatus,
   } = clientCtx;
 
   const report = <K extends keyof CustomTelemetryEventMap>(
     type: K,
     data: CustomTelemetryEventMap[K],
   ): void => {
-    const event: Event = {
+    // Reports carry the user's identity, withheld until consent is granted
+    if (getConsentStatus() !== "granted") return;
+
+    const event: Omit<Event, "metadata"> = {
       name: type,
       payload: data,
       eventId: IdGenerator.generate(),
       issuedAt: Date.now(),
       schemaVersion: PREDEFINED_SCHEMA_VERSION,
       userId: getUserId(),
-      metadata: getMetadata(),
+      groupId: getGroupId(),
+      sessionId: null,
+      sessionSequence: null,
       anonymousId: getAnonymousId(),
       platform: getPlatform(),
       sdk: getSdk(),
     };
 
-    try {
-      fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          [apiKeyHeader]: apiKey,
-        },
-        body: JSON.stringify(event),
-        keepalive: true,
-      }).catch(() => {});
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    } catch (_) {
-      // Fire-and-forget — never throw
-    }
+    // Fire-and-forget — never throw
+    getMetadata()
+      .then(metadata =>
+        fetch(endpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            [apiKeyHeader]: apiKey,
+          },
+          body: JSON.stringify({ ...event, metadata }),
+          keepalive: true,
+        }),
+      )
+      .catch(() => {});
   };
 
   return {
@@ -189,6 +236,16 @@ export const createTelemetryHooks = (
 
       userHooks.onEnqueue?.(info);
     },
+    onConfigChange: info => {
+      report("sdk_config_change", info);
+
+      userHooks.onConfigChange?.(info);
+    },
+    onCircuitStateChange: info => {
+      report("sdk_circuit_state_change", info);
+
+      userHooks.onCircuitStateChange?.(info);
+    },
   };
   /* v8 ignore stop */
 };
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { TimerManager } from "./timer-manager.ts";
+
+describe("TimerManager", () => {
+  let timers: TimerManager;
+
+  beforeEach(() => {
+    timers = new TimerManager();
+  });
+
+  describe("start/stop", () => {
+    it("should measure duration between start and stop", () => {
+      timers.start("checkout", 1000);
+
+      expect(timers.stop("checkout", 3500)).toBe(2500);
+    });
+
+    it("should return null when no timer was started", () => {
+      expect(timers.stop("checkout", 1000)).toBeNull();
+    });
+
+    it("should remove the timer once stopped", () => {
+      timers.start("checkout", 1000);
+      timers.stop("checkout", 2000);
+
+      expect(timers.stop("checkout", 3000)).toBeNull();
+    });
+
+    it("should restart an existing timer", () => {
+      timers.start("checkout", 1000);
+      timers.start("checkout", 2000);
+
+      expect(timers.stop("checkout", 2500)).toBe(500);
+    });
+
+    it("should never report a negative duration", () => {
+      timers.start("checkout", 2000);
+
+      expect(timers.stop("checkout", 1000)).toBe(0);
+    });
+
+    it("should use the current time by default", () => {
+      timers.start("checkout");
+
+      expect(timers.stop("checkout")).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe("pause/resume", () => {
+    it("should exclude paused time from the duration", () => {
+      timers.start("checkout", 1000);
+      timers.pause(2000);
+      timers.resume(5000);
+
+      expect(timers.stop("checkout", 6000)).toBe(2000);
+    });
+
+    it("should report elapsed time when stopped while paused", () => {
+      timers.start("checkout", 1000);
+      timers.pause(2000);
+
+      expect(timers.stop("checkout", 9000)).toBe(1000);
+    });
+
+    it("should ignore repeated pauses and resumes", () => {
+      timers.start("checkout", 1000);
+      timers.pause(2000);
+      timers.pause(3000);
+      timers.resume(4000);
+      timers.resume(5000);
+
+      expect(timers.stop("checkout", 6000)).toBe(3000);
+    });
+
+    it("should use the current time by default", () => {
+      timers.start("checkout");
+      timers.pause();
+      timers.resume();
+
+      expect(timers.stop("checkout")).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe("serialize/restore", () => {
+    it("should round-trip timers through a snapshot", () => {
+      timers.start("checkout", 1000);
+      timers.start("signup", 1500);
+      timers.pause(2000);
+
+      const snapshot = timers.serialize();
+
+      expect(snapshot).toEqual({
+        checkout: { elapsed: 1000, startedAt: null },
+        signup: { elapsed: 500, startedAt: null },
+      });
+
+      const restored = new TimerManager();
+
+      restored.restore(snapshot);
+      restored.resume(3000);
+
+      expect(restored.stop("checkout", 4000)).toBe(2000);
+      expect(restored.stop("signup", 4000)).toBe(1500);
+    });
+
+    it("should not share state with the snapshot", () => {
+      timers.start("checkout", 1000);
+
+      const snapshot = timers.serialize();
+
+      timers.pause(2000);
+
+      expect(snapshot["checkout"]).toEqual({ elapsed: 0, startedAt: 1000 });
+    });
+
+    it("should replace existing timers on restore", () => {
+      timers.start("checkout", 1000);
+      timers.restore({ signup: { elapsed: 0, startedAt: 1000 } });
+
+      expect(timers.stop("checkout", 2000)).toBeNull();
+      expect(timers.stop("signup", 2000)).toBe(1000);
+    });
+  });
+
+  describe("clear", () => {
+    it("should remove all timers", () => {
+      timers.start("checkout", 1000);
+      timers.clear();
+
+      expect(timers.serialize()).toEqual({});
+    });
+  });
+});
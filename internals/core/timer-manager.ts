@@ -0,0 +1,119 @@
+/**
+ * Serializable state of a single event timer.
+ */
+export type TimerState = {
+  /**
+   * Milliseconds measured before the timer was last paused.
+   */
+  elapsed: number;
+  /**
+   * UNIX timestamp in milliseconds when the timer last started running,
+   * or null while paused.
+   */
+  startedAt: number | null;
+};
+
+/**
+ * Serializable snapshot of all running event timers keyed by timer name.
+ */
+export type TimerSnapshot = Record<string, TimerState>;
+
+/**
+ * Measures the duration between `start()` and `stop()` of named event timers.
+ * Timers can be paused (e.g., while the page is hidden) and serialized for
+ * persistence across reloads.
+ */
+export class TimerManager {
+  #timers = new Map<string, TimerState>();
+
+  /**
+   * Start (or restart) the timer for an event name.
+   *
+   * @param name The event name
+   * @param now Current UNIX timestamp in milliseconds
+   */
+  public start(name: string, now: number = Date.now()): void {
+    this.#timers.set(name, { elapsed: 0, startedAt: now });
+  }
+
+  /**
+   * Stop and remove the timer for an event name.
+   *
+   * @param name The event name
+   * @param now Current UNIX timestamp in milliseconds
+   * @returns Measured duration in milliseconds, or null if no timer was started
+   */
+  public stop(name: string, now: number = Date.now()): number | null {
+    const timer = this.#timers.get(name);
+
+    if (!timer) return null;
+
+    this.#timers.delete(name);
+
+    return this.#measure(timer, now);
+  }
+
+  /**
+   * Pause all running timers. Paused time is not measured.
+   *
+   * @param now Current UNIX timestamp in milliseconds
+   */
+  public pause(now: number = Date.now()): void {
+    for (const timer of this.#timers.values()) {
+      if (timer.startedAt === null) continue;
+
+      timer.elapsed = this.#measure(timer, now);
+      timer.startedAt = null;
+    }
+  }
+
+  /**
+   * Resume all paused timers.
+   *
+   * @param now Current UNIX timestamp in milliseconds
+   */
+  public resume(now: number = Date.now()): void {
+    for (const timer of this.#timers.values()) {
+      if (timer.startedAt === null) timer.startedAt = now;
+    }
+  }
+
+  /**
+   * Serialize all timers.
+   *
+   * @returns A snapshot of all timers keyed by event name
+   */
+  public serialize(): TimerSnapshot {
+    const snapshot: TimerSnapshot = {};
+
+    for (const [name, timer] of this.#timers) {
+      snapshot[name] = { ...timer };
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Replace all timers with a previously serialized snapshot.
+   *
+   * @param snapshot Snapshot created by `serialize()`
+   */
+  public restore(snapshot: TimerSnapshot): void {
+    this.#timers = new Map(
+      Object.entries(snapshot).map(([name, timer]) => [name, { ...timer }]),
+    );
+  }
+
+  /**
+   * Remove all timers.
+   */
+  public clear(): void {
+    this.#timers.clear();
+  }
+
+  #measure(timer: TimerState, now: number): number {
+    if (timer.startedAt === null) return timer.elapsed;
+
+    return timer.elapsed + Math.max(0, now - timer.startedAt);
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  assertTrackingPlan,
+  createCustomEventsNamespace,
+  defineEvent,
+  type TrackingPlan,
+  type TrackingPlanEvents,
+} from "./tracking-plan.ts";
+
+type SignupPayload = { email: string };
+
+const plan = {
+  signed_up: defineEvent<SignupPayload>({ schemaVersion: "2" }),
+  logged_out: defineEvent<Record<string, never>>({
+    schemaVersion: "1",
+    validate: () => [],
+  }),
+};
+
+describe("defineEvent", () => {
+  it("should return the declaration unchanged", () => {
+    const entry = { schemaVersion: "1" };
+
+    expect(defineEvent(entry)).toBe(entry);
+  });
+
+  it("should carry the payload type to TrackingPlanEvents", () => {
+    const payload: TrackingPlanEvents<typeof plan>["signed_up"] = {
+      email: "a@b.co",
+    };
+
+    expect(payload.email).toBe("a@b.co");
+  });
+});
+
+describe("assertTrackingPlan", () => {
+  it("should accept a well-formed plan", () => {
+    expect(() => assertTrackingPlan(plan)).not.toThrow();
+  });
+
+  it.each([null, [], "plan"])("should reject %j as plan", value => {
+    expect(() => assertTrackingPlan(value as unknown as TrackingPlan)).toThrow(
+      "`trackingPlan` must be an object.",
+    );
+  });
+
+  it.each([null, {}, { schemaVersion: 2 }, { schemaVersion: "" }])(
+    "should reject %j as entry",
+    entry => {
+      expect(() =>
+        assertTrackingPlan({ signed_up: entry } as unknown as TrackingPlan),
+      ).toThrow(
+        "`trackingPlan.signed_up.schemaVersion` must be a non-empty string.",
+      );
+    },
+  );
+
+  it("should reject non-function validators", () => {
+    expect(() =>
+      assertTrackingPlan({
+        signed_up: { schemaVersion: "1", validate: true },
+      } as unknown as TrackingPlan),
+    ).toThrow("`trackingPlan.signed_up.validate` must be a function.");
+  });
+});
+
+describe("createCustomEventsNamespace", () => {
+  it("should track each event with its declared schema version", async () => {
+    const track = vi.fn().mockResolvedValue(undefined);
+    const custom = createCustomEventsNamespace<
+      TrackingPlanEvents<typeof plan>,
+      Record<string, unknown>
+    >(plan, track);
+
+    await custom.signed_up({ email: "a@b.co" }, { userId: "u-1" });
+    await custom.logged_out({});
+
+    expect(track).toHaveBeenNthCalledWith(
+      1,
+      "signed_up",
+      { email: "a@b.co" },
+      "2",
+      { userId: "u-1" },
+    );
+    expect(track).toHaveBeenNthCalledWith(2, "logged_out", {}, "1", undefined);
+  });
+});
@@ -0,0 +1,120 @@
+import type { ValidationIssue } from "./payload-validator.ts";
+import type { EventContext, EventPayload } from "./types.ts";
+
+/**
+ * Tracking plan declaration of a single custom event.
+ *
+ * @template TPayload The payload type of the event
+ */
+export type TrackingPlanEntry<TPayload extends EventPayload = EventPayload> = {
+  /**
+   * Schema version attached to every tracked event with this name.
+   */
+  schemaVersion: string;
+  /**
+   * Optional runtime validator, applied according to `payloadValidation`.
+   *
+   * @param payload The event payload
+   * @returns Every validation failure found (empty if valid)
+   */
+  validate?(payload: TPayload): ValidationIssue[];
+};
+
+/**
+ * Tracking plan mapping custom event names to their declaration.
+ */
+export type TrackingPlan = Record<string, TrackingPlanEntry>;
+
+/**
+ * Custom event definitions (event name to payload type) of a tracking plan.
+ * Use it as the `TCustomEvents` type parameter of the client.
+ *
+ * @template TPlan The tracking plan type
+ */
+export type TrackingPlanEvents<TPlan extends TrackingPlan> = {
+  [K in keyof TPlan]: TPlan[K] extends TrackingPlanEntry<infer TPayload>
+    ? TPayload
+    : never;
+};
+
+/**
+ * Typed namespace for custom events, with one method per event name.
+ * Each method attaches the schema version declared in the tracking plan.
+ *
+ * @template TCustomEvents Custom event definitions
+ * @template TMetadata The type definition for metadata
+ */
+export type CustomEventsNamespace<
+  TCustomEvents extends Record<string, EventPayload>,
+  TMetadata extends Record<string, unknown>,
+> = {
+  readonly [K in keyof TCustomEvents]: (
+    payload: TCustomEvents[K],
+    context?: EventContext<TMetadata>,
+  ) => Promise<void>;
+};
+
+/**
+ * Declare a custom event of a tracking plan.
+ * Carries the payload type so it can be inferred by `TrackingPlanEvents`.
+ *
+ * @template TPayload The payload type of the event
+ * @param entry The event declaration
+ * @returns The same declaration
+ */
+export const defineEvent = <TPayload extends EventPayload>(
+  entry: TrackingPlanEntry<TPayload>,
+): TrackingPlanEntry<TPayload> => entry;
+
+/**
+ * Check that a tracking plan is well-formed.
+ *
+ * @param plan The tracking plan to check
+ * @throws {Error} When an entry is malformed
+ */
+export const assertTrackingPlan = (plan: TrackingPlan): void => {
+  if (typeof plan !== "object" || plan === null || Array.isArray(plan)) {
+    throw new Error("`trackingPlan` must be an object.");
+  }
+
+  for (const [name, entry] of Object.entries(plan)) {
+    if (typeof entry?.schemaVersion !== "string" || !entry.schemaVersion) {
+      throw new Error(
+        `\`trackingPlan.${name}.schemaVersion\` must be a non-empty string.`,
+      );
+    }
+
+    if (entry.validate !== undefined && typeof entry.validate !== "function") {
+      throw new Error(`\`trackingPlan.${name}.validate\` must be a function.`);
+    }
+  }
+};
+
+/**
+ * Create the typed namespace for the custom events of a tracking plan.
+ *
+ * @param plan The tracking plan
+ * @param track Tracks an event with the schema version of its plan entry
+ * @returns A namespace with one tracking method per plan entry
+ */
+export const createCustomEventsNamespace = <
+  TCustomEvents extends Record<string, EventPayload>,
+  TMetadata extends Record<string, unknown>,
+>(
+  plan: TrackingPlan,
+  track: (
+    name: string,
+    payload: EventPayload,
+    schemaVersion: string,
+    context?: EventContext<TMetadata>,
+  ) => Promise<void>,
+): CustomEventsNamespace<TCustomEvents, TMetadata> =>
+  Object.freeze(
+    Object.fromEntries(
+      Object.entries(plan).map(([name, entry]) => [
+        name,
+        (payload: EventPayload, context?: EventContext<TMetadata>) =>
+          track(name, payload, entry.schemaVersion, context),
+      ]),
+    ),
+  ) as CustomEventsNamespace<TCustomEvents, TMetadata>;
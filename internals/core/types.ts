@@ -86,6 +86,14 @@ export type SdkInfo = {
   version: string;
 };
 
+/**
+ * Delivery priority of an event.
+ * - `"normal"` — batched in the bulk buffer
+ * - `"high"` — sent through a separate lane that flushes immediately or on a
+ *   shorter interval
+ */
+export type EventPriority = "normal" | "high";
+
 /**
  * The root Event object shape.
  *
@@ -113,9 +121,15 @@ export type Event<TMetadata = Record<string, unknown>> = {
    */
   sdk: SdkInfo;
   /**
-   * UNIX timestamp in milliseconds indicating when the event occurred.
+   * UNIX timestamp in milliseconds indicating when the event occurred,
+   * according to the device clock.
    */
   issuedAt: number;
+  /**
+   * `issuedAt` corrected by the offset between the device and server clocks,
+   * once a server response reported the server time.
+   */
+  correctedIssuedAt?: number;
   /**
    * A unique identifier for the anonymous user/device.
    */
@@ -132,6 +146,81 @@ export type Event<TMetadata = Record<string, unknown>> = {
    * The authenticated user's ID, if known.
    */
   userId: string | null;
+  /**
+   * The group/account (e.g., organization) the event is attributed to, if known.
+   */
+  groupId: string | null;
+  /**
+   * The session the event belongs to, if session tracking is enabled or a
+   * session ID was supplied.
+   */
+  sessionId: string | null;
+  /**
+   * 1-based position of the event in its session, if tracked by the client's
+   * session manager.
+   */
+  sessionSequence: number | null;
+  /**
+   * Milliseconds measured since `time()` was called for this event name, if timed.
+   */
+  durationMs?: number;
+  /**
+   * Sampling rate the event was kept at, from `0` to `1`, when sampling policies are configured.
+   * Divide counts by it to estimate unsampled totals.
+   */
+  sampleRate?: number;
+  /**
+   * Delivery priority, when the event goes through the high-priority lane.
+   */
+  priority?: EventPriority;
+};
+
+/**
+ * Per-call overrides applied to a single event.
+ * Used to attribute an event to a different identity or context without
+ * mutating the client's shared state (e.g., a server handling many users).
+ *
+ * @template TMetadata Defines the shape of global/app-level metadata.
+ */
+export type EventContext<TMetadata = Record<string, unknown>> = {
+  /**
+   * The authenticated user's ID for this event only.
+   * Pass `null` to explicitly send the event without a user ID.
+   */
+  userId?: string | null;
+  /**
+   * The group/account ID for this event only.
+   * Pass `null` to explicitly send the event without a group ID.
+   */
+  groupId?: string | null;
+  /**
+   * The anonymous user/device identifier for this event only.
+   */
+  anonymousId?: string;
+  /**
+   * Metadata merged over the shared metadata for this event only.
+   */
+  metadata?: Partial<TMetadata>;
+  /**
+   * UNIX timestamp in milliseconds indicating when the event occurred.
+   */
+  issuedAt?: number;
+  /**
+   * Key identifying repeats of this event when `dedupOptions` is enabled.
+   * Replaces the default hash of name plus payload.
+   */
+  idempotencyKey?: string;
+  /**
+   * Session ID for this event only, e.g., supplied by a server tracking
+   * sessions itself. Bypasses automatic session tracking and sets
+   * `sessionSequence` to `null`.
+   */
+  sessionId?: string;
+  /**
+   * Delivery priority of this event, overriding the priority configured for
+   * its name.
+   */
+  priority?: EventPriority;
 };
 
 /**
@@ -640,6 +729,52 @@ export type UserTraits = {
   customProperties?: Record<string, Primitive>;
 };
 
+/**
+ * Group/account profile attributes (e.g., an organization).
+ */
+export type GroupTraits = {
+  /**
+   * Group's display name.
+   */
+  name?: string;
+  /**
+   * Industry the group operates in.
+   */
+  industry?: string;
+  /**
+   * Number of employees or members.
+   */
+  employees?: number;
+  /**
+   * Subscription plan of the group (e.g., "enterprise").
+   */
+  plan?: string;
+  /**
+   * Group's website URL.
+   */
+  website?: string;
+  /**
+   * Group's contact email address.
+   */
+  email?: string;
+  /**
+   * Group's contact phone number.
+   */
+  phone?: string;
+  /**
+   * UNIX timestamp in milliseconds of group creation.
+   */
+  createdAt?: number;
+  /**
+   * Group's physical address details.
+   */
+  address?: Address;
+  /**
+   * Custom additional properties.
+   */
+  customProperties?: Record<string, Primitive>;
+};
+
 /**
  * HTTP response structure.
  */
@@ -652,4 +787,43 @@ export type HttpResponse = {
    * Response data if available
    */
   data?: unknown;
+  /**
+   * Response headers if available
+   */
+  headers?: Record<string, string>;
+};
+
+/**
+ * Event rejected by the server in a partial-success response.
+ */
+export type RejectedEvent = {
+  /**
+   * ID of the rejected event
+   */
+  eventId: string;
+  /**
+   * Why the event was rejected, reported through `TelemetryHooks.onDrop` as
+   * `detail`
+   */
+  reason?: string;
+  /**
+   * Whether the event may be sent again (default: `false`). Retryable events
+   * are retried with backoff, the others are dropped.
+   */
+  retryable?: boolean;
+};
+
+/**
+ * Response data of a 2xx response accepting only part of a batch. Events
+ * missing from `rejected` count as delivered.
+ */
+export type BatchResult = {
+  /**
+   * Number of accepted events
+   */
+  accepted?: number;
+  /**
+   * Events of the batch the server rejected
+   */
+  rejected?: RejectedEvent[];
 };
@@ -1,9 +1,13 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
 import {
+  byteLength,
   calculateBackoff,
   delay,
   DelayAbortedError,
+  hashString,
   IdGenerator,
+  parseRejectedEvents,
+  parseRetryAfter,
 } from "./utils.ts";
 
 describe("utils", () => {
@@ -82,6 +86,61 @@ describe("utils", () => {
     });
   });
 
+  describe("parseRetryAfter", () => {
+    it("should parse a delay in seconds", () => {
+      expect(parseRetryAfter("120")).toBe(120000);
+      expect(parseRetryAfter(" 0 ")).toBe(0);
+    });
+
+    it("should parse an HTTP date", () => {
+      const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+
+      expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:30 GMT", now)).toBe(30000);
+    });
+
+    it("should not return a negative delay for past dates", () => {
+      const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+
+      expect(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0);
+    });
+
+    it("should return null for unparsable values", () => {
+      expect(parseRetryAfter("soon")).toBeNull();
+    });
+  });
+
+  describe("parseRejectedEvents", () => {
+    it("should read the rejected events", () => {
+      expect(
+        parseRejectedEvents({
+          accepted: 1,
+          rejected: [
+            { eventId: "a", reason: "invalid_payload" },
+            { eventId: "b", retryable: true },
+          ],
+        }),
+      ).toEqual([
+        { eventId: "a", reason: "invalid_payload", retryable: false },
+        { eventId: "b", retryable: true },
+      ]);
+    });
+
+    it("should ignore malformed entries", () => {
+      expect(
+        parseRejectedEvents({
+          rejected: [null, "a", { eventId: 1 }, { eventId: "b", reason: 2 }],
+        }),
+      ).toEqual([{ eventId: "b", retryable: false }]);
+    });
+
+    it.each<[unknown]>([[undefined], [null], ["ok"], [{}], [{ rejected: {} }]])(
+      "should return no events for %j",
+      data => {
+        expect(parseRejectedEvents(data)).toEqual([]);
+      },
+    );
+  });
+
   describe("delay", () => {
     it("should return a promise", () => {
       const promise = delay(50);
@@ -205,4 +264,31 @@ describe("utils", () => {
       expect(id).toMatch(UUID_V4_REGEX);
     });
   });
+
+  describe("hashString", () => {
+    it("should match the FNV-1a reference values", () => {
+      expect(hashString("")).toBe(0x811c9dc5);
+      expect(hashString("a")).toBe(0xe40c292c);
+      expect(hashString("foobar")).toBe(0xbf9cf968);
+    });
+
+    it("should return unsigned 32-bit integers", () => {
+      for (const value of ["x", "user-1", "🚀", "a".repeat(100)]) {
+        const hash = hashString(value);
+
+        expect(Number.isInteger(hash)).toBe(true);
+        expect(hash).toBeGreaterThanOrEqual(0);
+        expect(hash).toBeLessThan(2 ** 32);
+      }
+    });
+  });
+
+  describe("byteLength", () => {
+    it("should count UTF-8 bytes", () => {
+      expect(byteLength("")).toBe(0);
+      expect(byteLength("abc")).toBe(3);
+      expect(byteLength("سلام")).toBe(8);
+      expect(byteLength("🚀")).toBe(4);
+    });
+  });
 });
@@ -1,3 +1,5 @@
+import type { BatchResult, RejectedEvent } from "./types.ts";
+
 /**
  * Calculate exponential backoff delay with jitter.
  * Formula: min(minDelay * backoffFactor^attempt, maxDelay) + random(0-1000ms)
@@ -24,6 +26,60 @@ export const calculateBackoff = (
   return exponential + jitter;
 };
 
+/**
+ * Parse a `Retry-After` header value.
+ *
+ * @param value Delay in seconds or an HTTP date
+ * @param now Current UNIX timestamp in milliseconds
+ * @returns The delay in milliseconds, or null if unparsable
+ */
+export const parseRetryAfter = (
+  value: string,
+  now: number = Date.now(),
+): number | null => {
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+
+  const date = Date.parse(trimmed);
+
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Read the rejected events of a partial-success response.
+ * Malformed entries are ignored.
+ *
+ * @param data Response data, expected to be a `BatchResult`
+ * @returns The rejected events, empty if none
+ */
+export const parseRejectedEvents = (data: unknown): RejectedEvent[] => {
+  if (typeof data !== "object" || data === null) return [];
+
+  const { rejected } = data as Record<keyof BatchResult, unknown>;
+
+  if (!Array.isArray(rejected)) return [];
+
+  return rejected.flatMap((entry: unknown) => {
+    if (typeof entry !== "object" || entry === null) return [];
+
+    const { eventId, reason, retryable } = entry as Record<
+      keyof RejectedEvent,
+      unknown
+    >;
+
+    if (typeof eventId !== "string") return [];
+
+    return [
+      {
+        eventId,
+        ...(typeof reason === "string" && { reason }),
+        retryable: retryable === true,
+      },
+    ];
+  });
+};
+
 /**
  * Error thrown when a delay is aborted via AbortSignal.
  */
@@ -87,3 +143,31 @@ export class IdGenerator {
     });
   }
 }
+
+/**
+ * Hash a string with 32-bit FNV-1a.
+ * Not cryptographically secure; meant for fast, deterministic bucketing and
+ * fingerprinting.
+ *
+ * @param value The string to hash
+ * @returns The unsigned 32-bit hash
+ */
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+};
+
+/**
+ * Get the size of a string encoded in UTF-8, as sent over the wire.
+ *
+ * @param value The string to measure
+ * @returns The size in bytes
+ */
+export const byteLength = (value: string): number =>
+  new TextEncoder().encode(value).byteLength;
@@ -121,6 +121,26 @@ describe("IdentityManager", () => {
     });
   });
 
+  describe("reset", () => {
+    it("should rotate anonymousId and remove userId from storage", () => {
+      mockSessionStorage.getItem.mockReturnValue("existing-anon-id");
+
+      sessionManager.init();
+
+      const id = sessionManager.reset();
+
+      expect(id).toBe("mock-uuid-1234");
+      expect(sessionManager.getAnonymousId()).toBe("mock-uuid-1234");
+      expect(mockSessionStorage.setItem).toHaveBeenCalledWith(
+        "ripple_session",
+        "mock-uuid-1234",
+      );
+      expect(mockSessionStorage.removeItem).toHaveBeenCalledWith(
+        "ripple_session_user",
+      );
+    });
+  });
+
   describe("clear", () => {
     it("should clear anonymousId and remove from storage", () => {
       mockSessionStorage.getItem.mockReturnValue(null);
@@ -194,4 +214,38 @@ describe("IdentityManager", () => {
       );
     });
   });
+
+  describe("groupId", () => {
+    it("should return null when no groupId is set", () => {
+      mockSessionStorage.getItem.mockReturnValue(null);
+
+      expect(sessionManager.getGroupId()).toBeNull();
+    });
+
+    it("should persist and retrieve groupId", () => {
+      sessionManager.setGroupId("org-1");
+
+      expect(mockSessionStorage.setItem).toHaveBeenCalledWith(
+        "ripple_session_group",
+        "org-1",
+      );
+    });
+
+    it("should clear groupId on clear() and reset()", () => {
+      mockSessionStorage.getItem.mockReturnValue(null);
+      sessionManager.init();
+      sessionManager.setGroupId("org-1");
+      sessionManager.clear();
+      sessionManager.reset();
+
+      expect(mockSessionStorage.removeItem).toHaveBeenNthCalledWith(
+        3,
+        "ripple_session_group",
+      );
+      expect(mockSessionStorage.removeItem).toHaveBeenNthCalledWith(
+        5,
+        "ripple_session_group",
+      );
+    });
+  });
 });
@@ -7,12 +7,14 @@ import { IdGenerator } from "@internals/core";
 export class IdentityManager {
   readonly #storageKey: string;
   readonly #userIdKey: string;
+  readonly #groupIdKey: string;
 
   #anonymousId: string | null = null;
 
   constructor(storageKey: string = "ripple_session") {
     this.#storageKey = storageKey;
     this.#userIdKey = `${storageKey}_user`;
+    this.#groupIdKey = `${storageKey}_group`;
   }
 
   /**
@@ -51,6 +53,24 @@ export class IdentityManager {
     sessionStorage.setItem(this.#userIdKey, userId);
   }
 
+  /**
+   * Get the persisted group ID.
+   *
+   * @returns The group ID or null
+   */
+  public getGroupId(): string | null {
+    return sessionStorage.getItem(this.#groupIdKey);
+  }
+
+  /**
+   * Persist the group ID to sessionStorage.
+   *
+   * @param groupId The group ID to persist
+   */
+  public setGroupId(groupId: string): void {
+    sessionStorage.setItem(this.#groupIdKey, groupId);
+  }
+
   /**
    * Get the current anonymous ID.
    *
@@ -60,6 +80,21 @@ export class IdentityManager {
     return this.#anonymousId;
   }
 
+  /**
+   * Rotate the anonymous ID and clear the persisted user and group IDs.
+   *
+   * @returns The new anonymous ID
+   */
+  public reset(): string {
+    this.#anonymousId = IdGenerator.generate();
+
+    sessionStorage.setItem(this.#storageKey, this.#anonymousId);
+    sessionStorage.removeItem(this.#userIdKey);
+    sessionStorage.removeItem(this.#groupIdKey);
+
+    return this.#anonymousId;
+  }
+
   /**
    * Clear all identity state.
    */
@@ -68,5 +103,6 @@ export class IdentityManager {
 
     sessionStorage.removeItem(this.#storageKey);
     sessionStorage.removeItem(this.#userIdKey);
+    sessionStorage.removeItem(this.#groupIdKey);
   }
 }
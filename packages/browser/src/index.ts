@@ -4,38 +4,86 @@ export * from "./storages/web-storage.ts";
 
 export {
   ConsoleLogger,
+  EventDeliveryError,
   HttpClient,
+  JSON_SCHEMA_DIALECT,
   LogLevel,
   NoOpLogger,
+  PayloadValidationError,
   StorageQuotaExceededError,
+  defineEvent,
+  getEventJsonSchemas,
+  validateEventPayload,
   type AppState,
+  type BatchEnvelope,
   type BatchOptions,
+  type BatchResult,
   type Cart,
   type Category,
   type Challenge,
   type Checkout,
+  type CircuitBreakerOptions,
+  type CircuitState,
+  type ClockSyncOptions,
+  type CompressionEncoding,
+  type CompressionOptions,
+  type ConsentPreferences,
+  type ConsentStatus,
   type Coupon,
+  type CustomEventsNamespace,
+  type DeadLetter,
+  type DeadLetterQueueOptions,
+  type DedupOptions,
+  type DeliveryFailureReason,
   type Event,
+  type EventCategory,
+  type EventContext,
+  type EventJsonSchemas,
   type EventPayload,
+  type EventPriority,
   type EventSampler,
+  type GroupTraits,
   type HttpAdapter,
   type HttpAdapterContext,
+  type HttpGetContext,
   type HttpResponse,
   type Incentive,
+  type JsonSchema,
   type LoggerAdapter,
+  type Middleware,
+  type MiddlewareDrop,
+  type MiddlewareResult,
   type NativePlatform,
   type Order,
+  type PayloadValidationMode,
   type Payment,
+  type PiiDetector,
   type Platform,
   type PlatformInfo,
   type PredefinedEvents,
+  type PriorityOptions,
   type Product,
+  type RateLimit,
+  type RateLimitOptions,
+  type RedactionAction,
+  type RedactionRule,
   type Referral,
+  type RejectedEvent,
+  type RemoteConfig,
+  type RemoteConfigOptions,
   type RetryOptions,
+  type SamplingOptions,
   type SdkInfo,
+  type Serializer,
+  type SessionOptions,
   type Shipping,
   type StorageAdapter,
   type TelemetryHooks,
+  type TrackingPlan,
+  type TrackingPlanEntry,
+  type TrackingPlanEvents,
   type UserTraits,
+  type ValidationIssue,
   type WebPlatform,
+  type WireEncoding,
 } from "@internals/core";
@@ -33,6 +33,7 @@ vi.mock("./identity-manager.ts", () => ({
   IdentityManager: vi.fn().mockImplementation(function () {
     let anonymousId: string | null = null;
     let userId: string | null = null;
+    let groupId: string | null = null;
     let initCounter = 0;
 
     return {
@@ -46,9 +47,21 @@ vi.mock("./identity-manager.ts", () => ({
       setUserId: vi.fn().mockImplementation((id: string) => {
         userId = id;
       }),
+      getGroupId: vi.fn().mockImplementation(() => groupId),
+      setGroupId: vi.fn().mockImplementation((id: string) => {
+        groupId = id;
+      }),
       clear: vi.fn().mockImplementation(() => {
         anonymousId = null;
         userId = null;
+        groupId = null;
+      }),
+      reset: vi.fn().mockImplementation(() => {
+        initCounter++;
+        anonymousId = `test-anon-id-${initCounter}`;
+        userId = null;
+        groupId = null;
+        return anonymousId;
       }),
     };
   }),
@@ -299,6 +312,96 @@ describe("RippleClient", () => {
     });
   });
 
+  describe("group", () => {
+    it("should persist groupId in sessionStorage", async () => {
+      await client.init();
+      await client.group("org-1", { name: "Acme" });
+
+      expect(client.getGroupId()).toBe("org-1");
+    });
+
+    it("should clear groupId on reset", async () => {
+      await client.init();
+      await client.group("org-1", {});
+
+      client.reset();
+
+      expect(client.getGroupId()).toBeNull();
+    });
+  });
+
+  describe("per-call context", () => {
+    it("should apply context to screen, identify and group", async () => {
+      const context = {
+        userId: "user-1",
+        anonymousId: "anon-1",
+        metadata: { appVersion: "2.0" },
+        issuedAt: 1000,
+      };
+
+      await client.init();
+      await client.screen({ title: "Home" }, context);
+      await client.identify("user-1", {}, context);
+      await client.group("org-1", {}, context);
+      await client.flush();
+
+      const expected = expect.objectContaining({
+        userId: "user-1",
+        anonymousId: "anon-1",
+        metadata: { appVersion: "2.0" },
+        issuedAt: 1000,
+      }) as unknown;
+
+      expect(mockHttpAdapter.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          events: [expected, expected, expected] as Array<unknown>,
+        } as Partial<HttpAdapterContext>),
+      );
+    });
+
+    it("should leave the persisted identity untouched", async () => {
+      await client.init();
+      await client.identify("user-1", {}, { anonymousId: "anon-1" });
+      await client.group("org-1", {}, { anonymousId: "anon-1" });
+
+      expect(client.getUserId()).toBeNull();
+      expect(client.getGroupId()).toBeNull();
+    });
+  });
+
+  describe("reset", () => {
+    it("should rotate anonymousId and clear userId", async () => {
+      await client.init();
+      await client.identify("user-456", {});
+
+      const anonymousId = client.getAnonymousId();
+
+      client.reset();
+
+      expect(client.getAnonymousId()).not.toBe(anonymousId);
+      expect(client.getUserId()).toBeNull();
+    });
+
+    it("should keep tracking with the new identity", async () => {
+      await client.init();
+      await client.identify("user-456", {});
+
+      client.reset();
+
+      await client.track("test_event", { key: "value" });
+      await client.flush();
+
+      const { events } = vi.mocked(mockHttpAdapter.send).mock.calls[0]![0];
+
+      expect(events[0]?.userId).toBe("user-456");
+      expect(events[1]).toMatchObject({
+        name: "test_event",
+        anonymousId: client.getAnonymousId(),
+        userId: null,
+      });
+    });
+  });
+
   describe("screen", () => {
     it("should auto-capture page info", async () => {
       Object.defineProperty(global, "document", {
@@ -535,4 +638,319 @@ describe("RippleClient", () => {
       );
     });
   });
+
+  describe("timed events", () => {
+    let visibilityHandler: (() => void) | null;
+
+    const mockDocument = (hidden: boolean) => {
+      visibilityHandler = null;
+
+      Object.defineProperty(global, "document", {
+        value: {
+          hidden,
+          title: "",
+          referrer: "",
+          querySelector: () => null,
+          addEventListener: (_: string, handler: () => void) => {
+            visibilityHandler = handler;
+          },
+          removeEventListener: vi.fn(),
+        },
+        writable: true,
+        configurable: true,
+      });
+    };
+
+    const setHidden = (hidden: boolean) => {
+      Object.defineProperty(global.document, "hidden", {
+        configurable: true,
+        get: () => hidden,
+      });
+    };
+
+    const getSentEvent = (name: string) =>
+      vi
+        .mocked(mockHttpAdapter.send)
+        .mock.calls.flatMap(([context]) => context.events)
+        .find(event => event.name === name);
+
+    beforeEach(() => {
+      sessionStorage.clear();
+      mockDocument(false);
+    });
+
+    it("should persist running timers in sessionStorage", async () => {
+      await client.init();
+      client.time("test_event");
+
+      const persisted = JSON.parse(
+        sessionStorage.getItem("ripple_session_timers")!,
+      ) as Record<string, unknown>;
+
+      expect(persisted).toHaveProperty("test_event");
+
+      await client.track("test_event", { key: "value" });
+
+      expect(sessionStorage.getItem("ripple_session_timers")).toBeNull();
+    });
+
+    it("should restore timers persisted before a reload", async () => {
+      const now = vi.spyOn(Date, "now").mockReturnValue(5000);
+
+      sessionStorage.setItem(
+        "ripple_session_timers",
+        JSON.stringify({ test_event: { elapsed: 0, startedAt: 1000 } }),
+      );
+
+      await client.track("test_event", { key: "value" });
+      await client.flush();
+
+      expect(getSentEvent("test_event")?.durationMs).toBe(4000);
+
+      now.mockRestore();
+    });
+
+    it("should only restore timers on the first init", async () => {
+      await client.init();
+
+      sessionStorage.setItem(
+        "ripple_session_timers",
+        JSON.stringify({ test_event: { elapsed: 0, startedAt: 1000 } }),
+      );
+
+      await client.track("test_event", { key: "value" });
+      await client.flush();
+
+      expect(getSentEvent("test_event")).not.toHaveProperty("durationMs");
+    });
+
+    it("should not measure time spent while the page is hidden", async () => {
+      const now = vi.spyOn(Date, "now").mockReturnValue(1000);
+      const testClient = new RippleClient<TestEvents, TestMetadata>(mockConfig);
+
+      await testClient.init();
+      testClient.time("test_event");
+
+      now.mockReturnValue(2000);
+      setHidden(true);
+      visibilityHandler!();
+
+      now.mockReturnValue(5000);
+      setHidden(false);
+      visibilityHandler!();
+
+      now.mockReturnValue(6000);
+
+      await testClient.track("test_event", { key: "value" });
+      await testClient.flush();
+
+      expect(getSentEvent("test_event")?.durationMs).toBe(2000);
+
+      now.mockRestore();
+      testClient.dispose();
+    });
+
+    it("should keep restored timers paused while the page is hidden", async () => {
+      const now = vi.spyOn(Date, "now").mockReturnValue(5000);
+
+      mockDocument(true);
+      sessionStorage.setItem(
+        "ripple_session_timers",
+        JSON.stringify({ test_event: { elapsed: 1500, startedAt: null } }),
+      );
+
+      await client.track("test_event", { key: "value" });
+      await client.flush();
+
+      expect(getSentEvent("test_event")?.durationMs).toBe(1500);
+
+      now.mockRestore();
+    });
+
+    it("should clear persisted timers on dispose", async () => {
+      await client.init();
+      client.time("test_event");
+      client.dispose();
+
+      expect(sessionStorage.getItem("ripple_session_timers")).toBeNull();
+    });
+  });
+
+  describe("deduplication", () => {
+    it("should suppress repeats across reloads through the storage adapter", async () => {
+      const onDrop = vi.fn();
+      const items = new Map<string, string>();
+      const storageAdapter: StorageAdapter = {
+        ...mockStorageAdapter,
+        saveItem: vi.fn((key: string, value: string) => {
+          items.set(key, value);
+
+          return Promise.resolve();
+        }),
+        loadItem: vi.fn((key: string) =>
+          Promise.resolve(items.get(key) ?? null),
+        ),
+      };
+
+      const firstClient = new RippleClient<TestEvents, TestMetadata>({
+        ...mockConfig,
+        storageAdapter,
+        dedupOptions: { window: 60000 },
+      });
+
+      await firstClient.track("test_event", { key: "value" });
+
+      // A reload creates a new client restoring from the storage adapter
+      const reloadedClient = new RippleClient<TestEvents, TestMetadata>({
+        ...mockConfig,
+        storageAdapter,
+        dedupOptions: { window: 60000 },
+        hooks: { onDrop },
+      });
+
+      await reloadedClient.track("test_event", { key: "value" });
+
+      expect(onDrop).toHaveBeenCalledExactlyOnceWith({
+        eventCount: 1,
+        reason: "duplicate",
+      });
+
+      firstClient.dispose();
+      reloadedClient.dispose();
+    });
+  });
+
+  describe("sessions", () => {
+    let visibilityHandler: (() => void) | null;
+
+    const createSessionClient = () =>
+      new RippleClient<TestEvents, TestMetadata>({
+        ...mockConfig,
+        sessionOptions: { inactivityTimeout: 60000 },
+      });
+
+    const getSentEvents = () =>
+      vi
+        .mocked(mockHttpAdapter.send)
+        .mock.calls.flatMap(([context]) => context.events);
+
+    const setHidden = (hidden: boolean) => {
+      Object.defineProperty(global.document, "hidden", {
+        configurable: true,
+        get: () => hidden,
+      });
+    };
+
+    beforeEach(() => {
+      sessionStorage.clear();
+      visibilityHandler = null;
+
+      Object.defineProperty(global, "document", {
+        value: {
+          hidden: false,
+          title: "",
+          referrer: "",
+          querySelector: () => null,
+          addEventListener: (_: string, handler: () => void) => {
+            visibilityHandler = handler;
+          },
+          removeEventListener: vi.fn(),
+        },
+        writable: true,
+        configurable: true,
+      });
+    });
+
+    it("should continue the persisted session across reloads", async () => {
+      const firstClient = createSessionClient();
+
+      await firstClient.track("test_event", { key: "value" });
+      await firstClient.flush();
+
+      const sessionId = firstClient.getSessionId();
+
+      expect(
+        JSON.parse(sessionStorage.getItem("ripple_session_session")!),
+      ).toMatchObject({ id: sessionId, sequence: 2 });
+
+      // A reload creates a new client restoring from sessionStorage
+      const reloadedClient = createSessionClient();
+
+      await reloadedClient.track("test_event", { key: "value" });
+      await reloadedClient.flush();
+
+      expect(
+        getSentEvents().map(event => [event.name, event.sessionSequence]),
+      ).toEqual([
+        ["session_started", 1],
+        ["test_event", 2],
+        ["test_event", 3],
+      ]);
+      expect(reloadedClient.getSessionId()).toBe(sessionId);
+
+      reloadedClient.dispose();
+    });
+
+    it("should start a new session when the page returns after the inactivity timeout", async () => {
+      const now = vi.spyOn(Date, "now").mockReturnValue(1000);
+      const sessionClient = createSessionClient();
+
+      await sessionClient.track("test_event", { key: "value" });
+
+      const sessionId = sessionClient.getSessionId();
+
+      now.mockReturnValue(2000);
+      setHidden(true);
+      visibilityHandler!();
+      await new Promise(r => {
+        setTimeout(r, 0);
+      });
+
+      now.mockReturnValue(62000);
+      setHidden(false);
+      visibilityHandler!();
+
+      // Allow the fire-and-forget track to complete
+      await new Promise(r => {
+        setTimeout(r, 0);
+      });
+
+      await sessionClient.flush();
+
+      expect(
+        getSentEvents().map(event => [event.name, event.sessionId]),
+      ).toEqual([
+        ["session_started", sessionId],
+        ["test_event", sessionId],
+        ["app_state_changed", sessionId],
+        ["session_ended", sessionId],
+        ["session_started", sessionClient.getSessionId()],
+        ["app_state_changed", sessionClient.getSessionId()],
+      ]);
+      expect(sessionClient.getSessionId()).not.toBe(sessionId);
+
+      now.mockRestore();
+      sessionClient.dispose();
+    });
+
+    it("should not persist anything when session tracking is disabled", async () => {
+      await client.track("test_event", { key: "value" });
+
+      expect(sessionStorage.getItem("ripple_session_session")).toBeNull();
+    });
+
+    it("should clear the persisted session on reset and dispose", async () => {
+      const sessionClient = createSessionClient();
+
+      await sessionClient.track("test_event", { key: "value" });
+      sessionClient.reset();
+
+      expect(sessionStorage.getItem("ripple_session_session")).toBeNull();
+
+      await sessionClient.track("test_event", { key: "value" });
+      sessionClient.dispose();
+
+      expect(sessionStorage.getItem("ripple_session_session")).toBeNull();
+    });
+  });
 });
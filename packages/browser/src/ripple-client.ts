@@ -4,15 +4,20 @@ import {
   type AppState,
   type Campaign,
   type ClientConfig,
+  type EventContext,
   type EventPayload,
+  type GroupTraits,
   type Platform,
   type ScreenPayload,
   type SdkInfo,
+  type SessionSnapshot,
+  type TimerSnapshot,
   type UserTraits,
   type WebPlatform,
 } from "@internals/core";
 import { SDK_INFO } from "./constants.ts";
 import { IdentityManager } from "./identity-manager.ts";
+import { SessionStorageStore } from "./session-storage-store.ts";
 import { calculatePlatformInfo } from "./utils.ts";
 
 /**
@@ -20,14 +25,14 @@ import { calculatePlatformInfo } from "./utils.ts";
  */
 export type BrowserClientConfig = ClientConfig & {
   /**
-   * Custom session storage key for anonymous ID persistence (default: "ripple_session")
+   * Custom session storage key for anonymous ID, event timer and session persistence (default: "ripple_session")
    */
   sessionStoreKey?: string;
 };
 
 /**
  * Ripple SDK client for browser environments.
- * Automatically persists anonymous ID via sessionStorage.
+ * Automatically persists anonymous ID, event timers and the session via sessionStorage.
  *
  * @template TCustomEvents Custom event definitions merged with predefined CDP events
  * @template TMetadata The type definition for metadata
@@ -40,14 +45,28 @@ export class RippleClient<
   TMetadata extends Record<string, unknown> = Record<string, unknown>,
 > extends Client<TCustomEvents, TMetadata> {
   readonly #identityManager: IdentityManager;
+  readonly #timerStore: SessionStorageStore<TimerSnapshot>;
+  readonly #sessionStore: SessionStorageStore<SessionSnapshot>;
 
   #appState: AppState = "foreground";
   #platformInfo: WebPlatform | null = null;
+  #restored = false;
 
   #onVisibilityChange = (): void => {
     /* v8 ignore next -- @preserve */
     const newState: AppState = document.hidden ? "background" : "foreground";
 
+    // Time spent in the background is not measured
+    if (newState === "background") {
+      this._timers.pause();
+    } else {
+      this._timers.resume();
+    }
+
+    this._onTimersChange();
+    // Hiding the page records activity, so the session expires after the
+    // inactivity timeout spent hidden. On return, the state change ends the
+    // expired session and starts a new one before being tracked.
     this.#trackAppStateChange(newState);
   };
 
@@ -60,6 +79,14 @@ export class RippleClient<
     super(config);
 
     this.#identityManager = new IdentityManager(config.sessionStoreKey);
+    this.#timerStore = new SessionStorageStore(
+      "timers",
+      config.sessionStoreKey,
+    );
+    this.#sessionStore = new SessionStorageStore(
+      "session",
+      config.sessionStoreKey,
+    );
   }
 
   /**
@@ -81,11 +108,24 @@ export class RippleClient<
   }
 
   /**
-   * Initialize the client, restore persisted events, and restore anonymous ID.
+   * Initialize the client, restore persisted events, anonymous ID, event
+   * timers, and the session. The identity, timers and session are restored
+   * on the first call only, as every tracked event initializes the client.
    */
   public override async init(): Promise<void> {
-    this._anonymousId = this.#identityManager.init();
-    this._userId = this.#identityManager.getUserId();
+    if (!this.#restored) {
+      this.#restored = true;
+      this._anonymousId = this.#identityManager.init();
+      this._userId = this.#identityManager.getUserId();
+      this._groupId = this.#identityManager.getGroupId();
+      this._timers.restore(this.#timerStore.load() ?? {});
+      this._sessions?.restore(this.#sessionStore.load());
+
+      // Timers persisted while hidden stay paused until the page is visible
+      if (typeof document === "undefined" || !document.hidden) {
+        this._timers.resume();
+      }
+    }
 
     await super.init();
 
@@ -96,16 +136,58 @@ export class RippleClient<
     }
   }
 
+  /**
+   * Persist event timers in sessionStorage so they survive page reloads.
+   */
+  protected override _onTimersChange(): void {
+    const timers = this._timers.serialize();
+
+    this.#timerStore.save(Object.keys(timers).length > 0 ? timers : null);
+  }
+
+  /**
+   * Persist the session in sessionStorage so a reload continues it.
+   */
+  protected override _onSessionChange(): void {
+    this.#sessionStore.save(this._sessions!.serialize());
+  }
+
   /**
    * Identify a user and persist the userId in sessionStorage.
+   * When a per-call context is provided, the persisted userId is left untouched.
    */
   public override async identify(
     userId: string,
     traits: UserTraits,
+    context?: EventContext<TMetadata>,
+  ): Promise<void> {
+    if (!context) this.#identityManager.setUserId(userId);
+
+    return super.identify(userId, traits, context);
+  }
+
+  /**
+   * Associate the user with a group and persist the groupId in sessionStorage.
+   * When a per-call context is provided, the persisted groupId is left untouched.
+   */
+  public override async group(
+    groupId: string,
+    traits: GroupTraits,
+    context?: EventContext<TMetadata>,
   ): Promise<void> {
-    this.#identityManager.setUserId(userId);
+    if (!context) this.#identityManager.setGroupId(groupId);
 
-    return super.identify(userId, traits);
+    return super.group(groupId, traits, context);
+  }
+
+  /**
+   * Reset the identity, rotating the anonymous ID and clearing the user and
+   * group IDs in sessionStorage. The dispatcher keeps running.
+   */
+  public override reset(): void {
+    super.reset();
+
+    this._anonymousId = this.#identityManager.reset();
   }
 
   /**
@@ -114,8 +196,12 @@ export class RippleClient<
    * Provided parameters take precedence over auto-captured values.
    *
    * @param payload Optional override for auto-captured screen data
+   * @param context Optional per-call overrides for this event only
    */
-  public async screen(payload?: Partial<ScreenPayload>): Promise<void> {
+  public async screen(
+    payload?: Partial<ScreenPayload>,
+    context?: EventContext<TMetadata>,
+  ): Promise<void> {
     const auto: ScreenPayload = {
       title: this.#extractTitle(),
       url: this.#extractUrl(),
@@ -130,6 +216,7 @@ export class RippleClient<
       "screened",
       { ...auto, ...payload },
       PREDEFINED_SCHEMA_VERSION,
+      context,
     );
   }
 
@@ -256,6 +343,9 @@ export class RippleClient<
     }
 
     this.#identityManager.clear();
+    this.#timerStore.clear();
+    this.#sessionStore.clear();
+    this.#restored = false;
     super.dispose();
   }
 }
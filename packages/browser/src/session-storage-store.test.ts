@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { SessionStorageStore } from "./session-storage-store.ts";
+
+describe("SessionStorageStore", () => {
+  const value = { checkout: { elapsed: 100, startedAt: null } };
+
+  let store: SessionStorageStore<typeof value>;
+  let mockSessionStorage: {
+    getItem: ReturnType<typeof vi.fn>;
+    setItem: ReturnType<typeof vi.fn>;
+    removeItem: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockSessionStorage = {
+      getItem: vi.fn(),
+      setItem: vi.fn(),
+      removeItem: vi.fn(),
+    };
+
+    Object.defineProperty(global, "sessionStorage", {
+      value: mockSessionStorage,
+      writable: true,
+    });
+
+    store = new SessionStorageStore("timers");
+  });
+
+  describe("load", () => {
+    it("should return the persisted value", () => {
+      mockSessionStorage.getItem.mockReturnValue(JSON.stringify(value));
+
+      expect(store.load()).toEqual(value);
+      expect(mockSessionStorage.getItem).toHaveBeenCalledWith(
+        "ripple_session_timers",
+      );
+    });
+
+    it("should return null when nothing is persisted", () => {
+      mockSessionStorage.getItem.mockReturnValue(null);
+
+      expect(store.load()).toBeNull();
+    });
+
+    it("should return null when persisted data is corrupted", () => {
+      mockSessionStorage.getItem.mockReturnValue("{invalid json");
+
+      expect(store.load()).toBeNull();
+    });
+
+    it("should use custom storage key", () => {
+      const customStore = new SessionStorageStore("session", "custom_key");
+
+      mockSessionStorage.getItem.mockReturnValue(null);
+      customStore.load();
+
+      expect(mockSessionStorage.getItem).toHaveBeenCalledWith(
+        "custom_key_session",
+      );
+    });
+  });
+
+  describe("save", () => {
+    it("should persist the value", () => {
+      store.save(value);
+
+      expect(mockSessionStorage.setItem).toHaveBeenCalledWith(
+        "ripple_session_timers",
+        JSON.stringify(value),
+      );
+    });
+
+    it("should remove the entry when there is no value", () => {
+      store.save(null);
+
+      expect(mockSessionStorage.setItem).not.toHaveBeenCalled();
+      expect(mockSessionStorage.removeItem).toHaveBeenCalledWith(
+        "ripple_session_timers",
+      );
+    });
+  });
+
+  describe("clear", () => {
+    it("should remove the persisted value", () => {
+      store.clear();
+
+      expect(mockSessionStorage.removeItem).toHaveBeenCalledWith(
+        "ripple_session_timers",
+      );
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Persists a JSON value in sessionStorage, under the session storage key
+ * followed by a suffix. The value survives page reloads but not the end of the
+ * browser session.
+ */
+export class SessionStorageStore<T> {
+  readonly #storageKey: string;
+
+  /**
+   * Create a new SessionStorageStore instance.
+   *
+   * @param keySuffix Suffix appended to the storage key (e.g., `"timers"`)
+   * @param storageKey The session storage key of the client
+   */
+  constructor(keySuffix: string, storageKey: string = "ripple_session") {
+    this.#storageKey = `${storageKey}_${keySuffix}`;
+  }
+
+  /**
+   * Load the persisted value.
+   *
+   * @returns The persisted value, or null if none or unreadable
+   */
+  public load(): T | null {
+    const raw = sessionStorage.getItem(this.#storageKey);
+
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as T;
+      // Use `catch (_) {}` instead of `catch {}` for ES2017 compatibility.
+      // Older iOS Safari versions don't support optional catch binding.
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (_) {
+      return null;
+    }
+  }
+
+  /**
+   * Persist a value, removing the entry when there is none.
+   *
+   * @param value The value to persist
+   */
+  public save(value: T | null): void {
+    if (value === null) {
+      sessionStorage.removeItem(this.#storageKey);
+
+      return;
+    }
+
+    sessionStorage.setItem(this.#storageKey, JSON.stringify(value));
+  }
+
+  /**
+   * Remove the persisted value.
+   */
+  public clear(): void {
+    sessionStorage.removeItem(this.#storageKey);
+  }
+}
@@ -10,6 +10,9 @@ const createEvent = (name = "test_event"): RippleEvent => ({
   anonymousId: "anon-user-123",
   eventId: "event-id",
   userId: "user-123",
+  groupId: null,
+  sessionId: null,
+  sessionSequence: null,
   sdk: {
     name: "sdk",
     version: "x.y.z",
@@ -574,6 +577,45 @@ describe("IndexedDBStorage", () => {
     });
   });
 
+  describe("items", () => {
+    it("saves items under a key prefixed with the events key", async () => {
+      const putReq = mockPutReq(mockObjectStore);
+      const savePromise = adapter.saveItem("remote_config", "{}");
+
+      await resolveOpen(openRequest, mockDB);
+
+      completeTx(putReq, mockTransaction);
+
+      await savePromise;
+
+      expect(mockObjectStore.put).toHaveBeenCalledWith(
+        "{}",
+        "queue_remote_config",
+      );
+    });
+
+    it("loads items", async () => {
+      const getReq = mockGetReq(mockObjectStore);
+      const loadPromise = adapter.loadItem("remote_config");
+
+      await resolveOpen(openRequest, mockDB);
+      await resolveGet(getReq, "{}");
+
+      expect(await loadPromise).toBe("{}");
+      expect(mockObjectStore.get).toHaveBeenCalledWith("queue_remote_config");
+    });
+
+    it("returns null for missing items", async () => {
+      const getReq = mockGetReq(mockObjectStore);
+      const loadPromise = adapter.loadItem("remote_config");
+
+      await resolveOpen(openRequest, mockDB);
+      await resolveGet(getReq, undefined);
+
+      expect(await loadPromise).toBeNull();
+    });
+  });
+
   describe("clear", () => {
     it("clears events from IndexedDB", async () => {
       const deleteReq = mockDeleteReq(mockObjectStore);
@@ -153,17 +153,20 @@ export class IndexedDBStorage implements StorageAdapter {
     return this.#dbPromise;
   }
 
-  #read(db: IDBDatabase): Promise<StorageData | null> {
+  #read<T = StorageData>(
+    db: IDBDatabase,
+    key: string = this.#key,
+  ): Promise<T | null> {
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(this.#storeName, "readonly");
       const store = transaction.objectStore(this.#storeName);
-      const request = store.get(this.#key);
+      const request = store.get(key);
 
       request.onerror = () =>
         reject(new Error(request.error?.message ?? "Failed to read data"));
 
       request.onsuccess = () => {
-        const data = request.result as StorageData | undefined;
+        const data = request.result as T | undefined;
 
         if (!data) {
           resolve(null);
@@ -176,7 +179,11 @@ export class IndexedDBStorage implements StorageAdapter {
     });
   }
 
-  #write(db: IDBDatabase, data: StorageData): Promise<void> {
+  #write(
+    db: IDBDatabase,
+    data: StorageData | string,
+    key: string = this.#key,
+  ): Promise<void> {
     return new Promise<void>((resolve, reject) => {
       const transaction = db.transaction(this.#storeName, "readwrite");
       const store = transaction.objectStore(this.#storeName);
@@ -189,7 +196,7 @@ export class IndexedDBStorage implements StorageAdapter {
       transaction.onabort = () =>
         reject(transaction.error || new Error("Transaction aborted"));
 
-      const request = store.put(data, this.#key);
+      const request = store.put(data, key);
 
       request.onerror = () =>
         reject(request.error ?? new Error("Failed to write data"));
@@ -263,6 +270,30 @@ export class IndexedDBStorage implements StorageAdapter {
     });
   }
 
+  /**
+   * Save a string value to IndexedDB, next to the events.
+   *
+   * @param key The item key
+   * @param value The value to save
+   */
+  public async saveItem(key: string, value: string): Promise<void> {
+    const db = await this.#openDB();
+
+    await this.#write(db, value, `${this.#key}_${key}`);
+  }
+
+  /**
+   * Load a string value saved with `saveItem()` from IndexedDB.
+   *
+   * @param key The item key
+   * @returns Promise resolving to the value, or null if none is saved
+   */
+  public async loadItem(key: string): Promise<string | null> {
+    const db = await this.#openDB();
+
+    return this.#read<string>(db, `${this.#key}_${key}`);
+  }
+
   /**
    * Close the database connection and release resources.
    */
@@ -33,6 +33,9 @@ describe("LocalStorage", () => {
         anonymousId: "anon-user-123",
         eventId: "event-id",
         userId: "user-123",
+        groupId: null,
+        sessionId: null,
+        sessionSequence: null,
         sdk: {
           name: "sdk",
           version: "x.y.z",
@@ -131,6 +134,9 @@ describe("LocalStorage", () => {
             anonymousId: "anon-user-123",
             eventId: "event-id",
             userId: "user-123",
+            groupId: null,
+            sessionId: null,
+            sessionSequence: null,
             payload: null,
             metadata: null,
             platform: null,
@@ -230,6 +236,32 @@ describe("LocalStorage", () => {
     });
   });
 
+  describe("items", () => {
+    it("should save items under a key prefixed with the storage key", async () => {
+      await adapter.saveItem("remote_config", "{}");
+
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
+        "ripple_events_remote_config",
+        "{}",
+      );
+    });
+
+    it("should load items", async () => {
+      vi.mocked(mockLocalStorage.getItem).mockReturnValue("{}");
+
+      await expect(adapter.loadItem("remote_config")).resolves.toBe("{}");
+      expect(mockLocalStorage.getItem).toHaveBeenCalledWith(
+        "ripple_events_remote_config",
+      );
+    });
+
+    it("should return null for missing items", async () => {
+      vi.mocked(mockLocalStorage.getItem).mockReturnValue(null);
+
+      await expect(adapter.loadItem("remote_config")).resolves.toBeNull();
+    });
+  });
+
   describe("quota exceeded handling", () => {
     const createMockEvents = (count: number): RippleEvent[] =>
       Array.from({ length: count }, (_, i) => ({
@@ -238,6 +270,9 @@ describe("LocalStorage", () => {
         anonymousId: "anon-user-123",
         eventId: "event-id",
         userId: "user-123",
+        groupId: null,
+        sessionId: null,
+        sessionSequence: null,
         payload: null,
         metadata: null,
         platform: null,
@@ -122,6 +122,28 @@ export class LocalStorage implements StorageAdapter {
     return Promise.resolve();
   }
 
+  /**
+   * Save a string value to `localStorage`, next to the events.
+   *
+   * @param key The item key
+   * @param value The value to save
+   */
+  public saveItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(`${this.#key}_${key}`, value);
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Load a string value saved with `saveItem()` from `localStorage`.
+   *
+   * @param key The item key
+   * @returns Promise resolving to the value, or null if none is saved
+   */
+  public loadItem(key: string): Promise<string | null> {
+    return Promise.resolve(localStorage.getItem(`${this.#key}_${key}`));
+  }
+
   /**
    * Close the adapter and release resources.
    */
@@ -5,6 +5,8 @@ const mockSave = vi.fn().mockResolvedValue(undefined);
 const mockLoad = vi.fn().mockResolvedValue([]);
 const mockClear = vi.fn().mockResolvedValue(undefined);
 const mockClose = vi.fn().mockResolvedValue(undefined);
+const mockSaveItem = vi.fn().mockResolvedValue(undefined);
+const mockLoadItem = vi.fn().mockResolvedValue("{}");
 
 let indexedDBAvailable = true;
 let localStorageAvailable = true;
@@ -16,6 +18,8 @@ vi.mock("./indexed-db-storage.ts", () => ({
     load = mockLoad;
     clear = mockClear;
     close = mockClose;
+    saveItem = mockSaveItem;
+    loadItem = mockLoadItem;
   },
 }));
 
@@ -26,6 +30,8 @@ vi.mock("./local-storage.ts", () => ({
     load = mockLoad;
     clear = mockClear;
     close = mockClose;
+    saveItem = mockSaveItem;
+    loadItem = mockLoadItem;
   },
 }));
 
@@ -107,6 +113,35 @@ describe("WebStorage", () => {
     });
   });
 
+  describe("items", () => {
+    it("should delegate items to the selected storage", async () => {
+      const storage = new WebStorage();
+
+      await storage.init();
+      await storage.saveItem("remote_config", "{}");
+
+      expect(mockSaveItem).toHaveBeenCalledExactlyOnceWith(
+        "remote_config",
+        "{}",
+      );
+      await expect(storage.loadItem("remote_config")).resolves.toBe("{}");
+    });
+
+    it("should ignore items when the selected storage has no item support", async () => {
+      indexedDBAvailable = false;
+      localStorageAvailable = false;
+
+      const storage = new WebStorage();
+
+      await storage.init();
+
+      await expect(storage.saveItem("remote_config", "{}")).resolves.toBe(
+        undefined,
+      );
+      await expect(storage.loadItem("remote_config")).resolves.toBeNull();
+    });
+  });
+
   describe("before init", () => {
     it("should throw if save called before init", async () => {
       const storage = new WebStorage();
@@ -100,6 +100,14 @@ export class WebStorage implements StorageAdapter {
     return this.#getAdapter().clear();
   }
 
+  public async saveItem(key: string, value: string): Promise<void> {
+    return this.#getAdapter().saveItem?.(key, value);
+  }
+
+  public async loadItem(key: string): Promise<string | null> {
+    return (await this.#getAdapter().loadItem?.(key)) ?? null;
+  }
+
   public async close(): Promise<void> {
     return this.#getAdapter().close();
   }
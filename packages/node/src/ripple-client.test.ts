@@ -4,6 +4,7 @@ import {
   type HttpAdapterContext,
   type StorageAdapter,
 } from "@internals/core";
+import { gunzipSync, inflateSync } from "node:zlib";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { RippleClient, type NodeClientConfig } from "./ripple-client.ts";
 
@@ -172,6 +173,72 @@ describe("RippleClient", () => {
     });
   });
 
+  describe("per-call context", () => {
+    it("should stamp each event with its own identity", async () => {
+      await client.init();
+      await client.track("test_event", { key: "a" }, undefined, {
+        userId: "user-a",
+        anonymousId: "anon-a",
+      });
+      await client.track("test_event", { key: "b" }, undefined, {
+        userId: "user-b",
+        anonymousId: "anon-b",
+      });
+      await client.flush();
+
+      expect(mockHttpAdapter.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          events: [
+            expect.objectContaining({
+              userId: "user-a",
+              anonymousId: "anon-a",
+            }),
+            expect.objectContaining({
+              userId: "user-b",
+              anonymousId: "anon-b",
+            }),
+          ] as Array<unknown>,
+        } as Partial<HttpAdapterContext>),
+      );
+      expect(client.getUserId()).toBeNull();
+    });
+
+    it("should apply context to screen, identify and events namespace", async () => {
+      const context = {
+        userId: "user-1",
+        anonymousId: "anon-1",
+        metadata: { environment: "staging" },
+        issuedAt: 1000,
+      };
+
+      await client.init();
+      client.setMetadata("serverId", "srv-1");
+
+      await client.screen(
+        { title: "Home", url: "https://example.com" },
+        context,
+      );
+      await client.identify("user-1", {}, context);
+      await client.events.productsSearched({ query: "shoes" }, context);
+      await client.flush();
+
+      const expected = expect.objectContaining({
+        userId: "user-1",
+        anonymousId: "anon-1",
+        metadata: { serverId: "srv-1", environment: "staging" },
+        issuedAt: 1000,
+      }) as unknown;
+
+      expect(mockHttpAdapter.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          events: [expected, expected, expected] as Array<unknown>,
+        } as Partial<HttpAdapterContext>),
+      );
+      expect(client.getUserId()).toBeNull();
+      expect(client.getMetadata()).toEqual({ serverId: "srv-1" });
+    });
+  });
+
   describe("dispose", () => {
     it("should dispose without error", () => {
       expect(() => client.dispose()).not.toThrow();
@@ -197,4 +264,53 @@ describe("RippleClient", () => {
       expect(client.getMetadata()).toEqual({ environment: "prod" });
     });
   });
+
+  describe("redaction", () => {
+    it("should hash values with node:crypto", async () => {
+      const redactingClient = new RippleClient<TestEvents, TestMetadata>({
+        ...mockConfig,
+        redaction: [{ paths: ["payload.key"], action: "hash" }],
+      });
+
+      await redactingClient.track("test_event", { key: "abc" });
+
+      expect(mockStorageAdapter.save).toHaveBeenCalledWith([
+        expect.objectContaining({
+          payload: {
+            key: "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+          },
+        }),
+      ]);
+
+      redactingClient.dispose();
+    });
+  });
+
+  describe("compression", () => {
+    it.each([
+      ["gzip", gunzipSync],
+      ["deflate", inflateSync],
+    ] as const)(
+      "should compress batches with node:zlib %s",
+      async (encoding, decompress) => {
+        const compressingClient = new RippleClient<TestEvents, TestMetadata>({
+          ...mockConfig,
+          compression: { encoding, threshold: 0 },
+        });
+
+        await compressingClient.track("test_event", { key: "abc" });
+        await compressingClient.flush();
+
+        const [context] = vi.mocked(mockHttpAdapter.send).mock.calls[0]!;
+        const body = JSON.parse(
+          decompress(context.body).toString(),
+        ) as HttpAdapterContext;
+
+        expect(context.headers["Content-Encoding"]).toBe(encoding);
+        expect(body.events).toEqual(context.events);
+
+        compressingClient.dispose();
+      },
+    );
+  });
 });
@@ -2,13 +2,21 @@ import {
   Client,
   PREDEFINED_SCHEMA_VERSION,
   type ClientConfig,
+  type CompressionEncoding,
+  type EventContext,
   type EventPayload,
   type Platform,
   type ScreenPayload,
   type SdkInfo,
 } from "@internals/core";
+import { createHash } from "node:crypto";
+import { promisify } from "node:util";
+import { deflate, gzip } from "node:zlib";
 import { PLATFORM_INFO, SDK_INFO } from "./constants.ts";
 
+const gzipAsync = promisify(gzip);
+const deflateAsync = promisify(deflate);
+
 /**
  * Node.js-specific client configuration
  */
@@ -16,6 +24,9 @@ export type NodeClientConfig = ClientConfig;
 
 /**
  * Ripple SDK client for Node.js environments.
+ * A single instance can serve many users: every tracking method accepts an
+ * optional per-call context that overrides identity and metadata for that
+ * event only.
  *
  * @template TCustomEvents Custom event definitions merged with predefined CDP events
  * @template TMetadata The type definition for metadata
@@ -54,13 +65,49 @@ export class RippleClient<
     return PLATFORM_INFO;
   }
 
+  /**
+   * Hash a string with SHA-256 using `node:crypto`. Hashing runs
+   * synchronously, which for the short values hashed per event is faster than
+   * the asynchronous Web Crypto API.
+   *
+   * @param value The string to hash
+   * @returns The hex-encoded hash
+   */
+  protected override _sha256(value: string): Promise<string> {
+    return Promise.resolve(createHash("sha256").update(value).digest("hex"));
+  }
+
+  /**
+   * Compress a request body using `node:zlib`.
+   *
+   * @param data The serialized body
+   * @param encoding The compression format
+   * @returns The compressed bytes
+   */
+  protected override async _compress(
+    data: string,
+    encoding: CompressionEncoding,
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const compress = encoding === "gzip" ? gzipAsync : deflateAsync;
+
+    return new Uint8Array(await compress(data));
+  }
+
   /**
    * Track a screen/page view event.
    *
    * @param payload Screen event data (required in Node.js)
-   * @param schemaVersion Event schema version
+   * @param context Optional per-call overrides for this event only
    */
-  public async screen(payload: ScreenPayload): Promise<void> {
-    return this._trackInternal("screened", payload, PREDEFINED_SCHEMA_VERSION);
+  public async screen(
+    payload: ScreenPayload,
+    context?: EventContext<TMetadata>,
+  ): Promise<void> {
+    return this._trackInternal(
+      "screened",
+      payload,
+      PREDEFINED_SCHEMA_VERSION,
+      context,
+    );
   }
 }
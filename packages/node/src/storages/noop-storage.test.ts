@@ -27,6 +27,9 @@ describe("NoOpStorage", () => {
             version: "",
           },
           userId: null,
+          groupId: null,
+          sessionId: null,
+          sessionSequence: null,
           platform: null,
         } satisfies RippleEvent,
       ]),